@@ -3,6 +3,23 @@
 # Load environment variables
 source .env
 
+# Network to deploy to: base (default) or base-sepolia
+NETWORK=${1:-base}
+case "$NETWORK" in
+  base)
+    RPC_URL="$BASE_RPC_URL"
+    OUTPUT_FILE=deploy-output.txt
+    ;;
+  base-sepolia)
+    RPC_URL="$BASE_SEPOLIA_RPC_URL"
+    OUTPUT_FILE=deploy-output-base-sepolia.txt
+    ;;
+  *)
+    echo "Unknown network $NETWORK, expected base or base-sepolia."
+    exit 1
+    ;;
+esac
+
 # Rebuild the contracts
 echo "Building contracts..."
 forge build
@@ -10,12 +27,12 @@ forge build
 # Run the deployment script and capture the output
 echo "Running deployment script..."
 DEPLOY_OUTPUT=$(forge script script/Deploy.s.sol:DeployScript \
-  --rpc-url "$BASE_RPC_URL" \
+  --rpc-url "$RPC_URL" \
   --private-key "$PRIVATE_KEY" \
   --broadcast)
 
 # Save output to a file for debugging
-echo "$DEPLOY_OUTPUT" > deploy-output.txt
+echo "$DEPLOY_OUTPUT" > "$OUTPUT_FILE"
 
 # Extract the LeveragedLPManager address from the deployment output
 echo "Extracting LeveragedLPManager address..."
@@ -23,16 +40,19 @@ LEVERAGED_LP_MANAGER_ADDRESS=$(echo "$DEPLOY_OUTPUT" | grep "LeveragedLPManager
 
 if [ -z "$LEVERAGED_LP_MANAGER_ADDRESS" ]; then
   echo "Could not extract LeveragedLPManager address from deployment output."
-  echo "Please check the deploy-output.txt file and update the address manually in TestEndToEnd.js."
+  echo "Please check the $OUTPUT_FILE file and run script/generate-manifest.js manually."
   exit 1
 fi
 
 echo "LeveragedLPManager deployed at: $LEVERAGED_LP_MANAGER_ADDRESS"
 
-# Update the TestEndToEnd.js file with the new address
-echo "Updating TestEndToEnd.js with the new LeveragedLPManager address..."
-sed -i '' "s/leveragedLPManager: \"0x[a-fA-F0-9]\{40\}\"/leveragedLPManager: \"$LEVERAGED_LP_MANAGER_ADDRESS\"/g" script/TestEndToEnd.js
+# Regenerate the deployment manifest used by the frontend and TestEndToEnd.js,
+# keeping the deployments of the other networks
+echo "Generating deployment manifest..."
+node script/generate-manifest.js $(ls deploy-output.txt deploy-output-base-sepolia.txt 2>/dev/null)
 
-# Run the TestEndToEnd.js script
-echo "Running TestEndToEnd.js..."
-node script/TestEndToEnd.js $PRIVATE_KEY_E2E
+# Run the TestEndToEnd.js script, it runs against the Base deployment
+if [ "$NETWORK" = "base" ]; then
+  echo "Running TestEndToEnd.js..."
+  node script/TestEndToEnd.js $PRIVATE_KEY_E2E
+fi
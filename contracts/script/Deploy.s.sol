@@ -7,38 +7,90 @@ import {FeeCollectHook} from "../src/FeeCollectHook.sol";
 
 /**
  * @title DeployScript
- * @dev Script to deploy the LeveragedLPManager and FeeCollectHook contracts to Base network
+ * @dev Script to deploy the LeveragedLPManager and FeeCollectHook contracts to Base or Base Sepolia
  */
 contract DeployScript is Script {
-    // Base mainnet network addresses
-    address constant AAVE_POOL = 0xA238Dd80C259a72e81d7e4664a9801593F98d1c5; // Aave V3 Pool address on Base
-    address constant POSITION_MANAGER = 0x7C5f5A4bBd8fD63184577525326123B519429bDc; // Uniswap V4 Position Manager address on Base
-    address constant USDC = 0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913; // USDC address on Base
-    address constant WETH = 0x4200000000000000000000000000000000000006; // WETH address on Base
-    address constant UNISWAP_ROUTER = 0x6fF5693b99212Da76ad316178A184AB56D299b43; // Uniswap V4 Router address on Base
+    // External protocol addresses the contracts are deployed with on one chain
+    struct NetworkConfig {
+        address aavePool;
+        address positionManager;
+        address usdc;
+        address weth;
+        address uniswapRouter;
+        address ethUsdPriceFeed;
+    }
+
+    // Base mainnet network addresses, also used on a local anvil fork of Base (chain ID 31337)
+    address constant BASE_AAVE_POOL = 0xA238Dd80C259a72e81d7e4664a9801593F98d1c5; // Aave V3 Pool address on Base
+    address constant BASE_POSITION_MANAGER = 0x7C5f5A4bBd8fD63184577525326123B519429bDc; // Uniswap V4 Position Manager address on Base
+    address constant BASE_USDC = 0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913; // USDC address on Base
+    address constant BASE_WETH = 0x4200000000000000000000000000000000000006; // WETH address on Base
+    address constant BASE_UNISWAP_ROUTER = 0x6fF5693b99212Da76ad316178A184AB56D299b43; // Uniswap V4 Router address on Base
+    address constant BASE_ETH_USD_PRICE_FEED = 0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70; // Chainlink ETH/USD on Base
+
+    // Base Sepolia network addresses
+    address constant BASE_SEPOLIA_AAVE_POOL = 0x8bAB6d1b75f19e9eD9fCe8b9BD338844fF79aE27; // Aave V3 Pool address on Base Sepolia
+    address constant BASE_SEPOLIA_POSITION_MANAGER = 0x4B2C77d209D3405F41a037Ec6c77F7F5b8e2ca80; // Uniswap V4 Position Manager address on Base Sepolia
+    address constant BASE_SEPOLIA_USDC = 0xba50Cd2A20f6DA35D788639E581bca8d0B5d4D5f; // USDC of the Aave V3 market on Base Sepolia
+    address constant BASE_SEPOLIA_WETH = 0x4200000000000000000000000000000000000006; // WETH address on Base Sepolia
+    address constant BASE_SEPOLIA_UNISWAP_ROUTER = 0x492E6456D9528771018DeB9E87ef7750EF184104; // Uniswap V4 Router address on Base Sepolia
+    address constant BASE_SEPOLIA_ETH_USD_PRICE_FEED = 0x4aDC67696bA383F43DD60A9e78F2C97Fbbfc7cb1; // Chainlink ETH/USD on Base Sepolia
+
     uint24 constant POOL_FEE = 3000; // 0.3% fee tier
 
+    /**
+     * @dev Get the external protocol addresses of the chain the script runs on
+     * @return config The addresses for block.chainid
+     */
+    function getNetworkConfig() internal view returns (NetworkConfig memory config) {
+        if (block.chainid == 8453 || block.chainid == 31337) {
+            return NetworkConfig(
+                BASE_AAVE_POOL,
+                BASE_POSITION_MANAGER,
+                BASE_USDC,
+                BASE_WETH,
+                BASE_UNISWAP_ROUTER,
+                BASE_ETH_USD_PRICE_FEED
+            );
+        }
+
+        if (block.chainid == 84532) {
+            return NetworkConfig(
+                BASE_SEPOLIA_AAVE_POOL,
+                BASE_SEPOLIA_POSITION_MANAGER,
+                BASE_SEPOLIA_USDC,
+                BASE_SEPOLIA_WETH,
+                BASE_SEPOLIA_UNISWAP_ROUTER,
+                BASE_SEPOLIA_ETH_USD_PRICE_FEED
+            );
+        }
+
+        revert("Unsupported chain");
+    }
+
     function run() external {
+        NetworkConfig memory config = getNetworkConfig();
         uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
         vm.startBroadcast(deployerPrivateKey);
 
         // First deploy LeveragedLPManager without a hook
         LeveragedLPManager manager = new LeveragedLPManager(
-            AAVE_POOL,
-            POSITION_MANAGER,
-            USDC,
-            WETH,
+            config.aavePool,
+            config.positionManager,
+            config.usdc,
+            config.weth,
             address(0), // Temporary hook address
-            UNISWAP_ROUTER,
-            POOL_FEE
+            config.uniswapRouter,
+            POOL_FEE,
+            config.ethUsdPriceFeed
         );
         
         // Then deploy the FeeCollectHook with the manager address
         FeeCollectHook hook = new FeeCollectHook(
-            POSITION_MANAGER,
+            config.positionManager,
             address(manager),
-            USDC,
-            WETH
+            config.usdc,
+            config.weth
         );
         
         // Update the hook address in the manager using the new setFeeHook function
@@ -47,7 +99,7 @@ contract DeployScript is Script {
         // Authorize the Uniswap V4 pool to use the hook
         // Note: You'll need to authorize each pool that will use this hook
         // This is just an example for the ETH/USDC pool with the specified fee tier
-        bytes32 poolKey = keccak256(abi.encode(WETH, USDC, POOL_FEE));
+        bytes32 poolKey = keccak256(abi.encode(config.weth, config.usdc, POOL_FEE));
         hook.setPoolAuthorization(address(uint160(uint256(poolKey))), true);
         
         // Transfer ownership of the hook to the manager for proper access control
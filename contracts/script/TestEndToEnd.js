@@ -18,20 +18,16 @@ const Safe = require('@safe-global/protocol-kit').default;
 const SafeApiKit = require('@safe-global/api-kit').default;
 const EthersAdapter = require('@safe-global/protocol-kit').EthersAdapter;
 const { SafeFactory } = require('@safe-global/protocol-kit');
+const deployments = require('../deployments.json');
 
 /**
  * Contract ABIs
- * These minimal ABIs contain just the functions we need to interact with each contract
+ * The LeveragedLPManager ABI comes from the generated deployment manifest (npm run manifest),
+ * the others are minimal ABIs containing just the functions we need
  */
 const ABIs = {
   // LeveragedLPManager ABI - our main contract
-  LeveragedLPManager: [
-    "function startStrategy(address safe, uint256 ethAmount, uint256 ltv, uint16 slippageBps) external",
-    "function getUserPosition(address safe) external view returns (address safe, uint256 lpTokenId)",
-    "function owner() external view returns (address)",
-    "function protocolFeeBps() external view returns (uint8)",
-    "function feeHook() external view returns (address)"
-  ],
+  LeveragedLPManager: deployments.abis.LeveragedLPManager,
   
   // WETH token ABI
   WETH: [
@@ -71,14 +67,9 @@ const ABIs = {
 const config = {
   // Contract addresses
   addresses: {
-    leveragedLPManager: "0x4f9F66FE2Ca8B793F914709C45744402f3043940", // LeveragedLPManager on Base
-    weth: "0x4200000000000000000000000000000000000006", // WETH on Base
-    usdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // USDC on Base
+    // LeveragedLPManager, tokens and Aave V3 addresses on Base from the deployment manifest
+    ...deployments.chains[8453],
     safe: "0x37adcff072f44bec0413029e7bfd785ca0467143", // Our existing Safe address
-    
-    // Aave V3 addresses on Base
-    aavePool: "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5", // Aave V3 Pool
-    aaveDataProvider: "0x2d8A3C5677189723C4cB8873CfC9C8976FDF38Ac" // Aave V3 Protocol Data Provider
   },
   
   // Network settings
@@ -466,11 +457,11 @@ async function executeStartStrategy(safeAddress, safeSdk, contracts) {
 async function verifyStrategyPosition(safeAddress, contracts) {
   try {
     console.log("Verifying strategy position was created successfully...");
-    const position = await contracts.leveragedLPManager.getUserPosition(safeAddress);
+    const [positionSafe, lpTokenId] = await contracts.leveragedLPManager.getUserPosition(safeAddress);
     
-    if (position.safe === safeAddress) {
+    if (positionSafe.toLowerCase() === safeAddress.toLowerCase()) {
       console.log("Position successfully created!");
-      console.log(`LP Token ID: ${position.lpTokenId.toString()}`);
+      console.log(`LP Token ID: ${lpTokenId.toString()}`);
       return true;
     } else {
       console.error("Position not found. Strategy initialization may have failed.");
@@ -0,0 +1,206 @@
+/**
+ * generate-manifest.js - Generates the deployment manifest shared by the frontend and scripts
+ *
+ * Reads:
+ * 1. Foundry build artifacts in out/ for the LeveragedLPManager and FeeCollectHook ABIs
+ * 2. deploy-output.txt (written by deploy.sh) for the deployed addresses and chain ID
+ * 3. script/Deploy.s.sol for the external protocol addresses each chain was deployed with
+ *
+ * Writes:
+ * - deployments.json, used by the Node scripts in script/
+ * - ../frontend/src/generated/deployments.ts, typed ABIs and per-chain addresses for the frontend
+ *
+ * Usage: node script/generate-manifest.js [deploy-output.txt ...]
+ * Pass one deploy output per chain; the manifest is rebuilt from scratch on every run.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const ROOT = path.resolve(__dirname, "..");
+const JSON_OUTPUT = path.join(ROOT, "deployments.json");
+const TS_OUTPUT = path.join(ROOT, "..", "frontend", "src", "generated", "deployments.ts");
+
+// Contracts whose ABIs are exported, keyed by the name used in the manifest
+const CONTRACTS = {
+  LeveragedLPManager: "LeveragedLPManager.sol/LeveragedLPManager.json",
+  FeeCollectHook: "FeeCollectHook.sol/FeeCollectHook.json",
+};
+
+// Prefix of the Deploy.s.sol constants used on each chain, a local anvil fork uses the Base ones
+const DEPLOY_SCRIPT_PREFIXES = {
+  8453: "BASE",
+  84532: "BASE_SEPOLIA",
+  31337: "BASE",
+};
+
+// Deploy.s.sol constants, without their chain prefix, and the manifest keys they map to
+const DEPLOY_SCRIPT_CONSTANTS = {
+  AAVE_POOL: "aavePool",
+  POSITION_MANAGER: "uniswapV4PositionManager",
+  USDC: "usdc",
+  WETH: "weth",
+  UNISWAP_ROUTER: "uniswapRouter",
+};
+
+// Read-only helpers the contracts never reference, so they are not in Deploy.s.sol
+const EXTERNAL_ADDRESSES = {
+  8453: {
+    aaveDataProvider: "0x2d8A3C5677189723C4cB8873CfC9C8976FDF38Ac", // Aave V3 Protocol Data Provider
+  },
+  84532: {
+    aaveDataProvider: "0xBc9f5b7E248451CdD7cA54e717a2BFe1F32b566b",
+  },
+  // Local anvil fork of Base (anvil --fork-url $BASE_RPC_URL --chain-id 31337)
+  31337: {
+    aaveDataProvider: "0x2d8A3C5677189723C4cB8873CfC9C8976FDF38Ac",
+  },
+};
+
+const ADDRESS_PATTERN = /0x[a-fA-F0-9]{40}/;
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Load the ABI of a contract from its Foundry artifact
+ * @param {string} artifact - Artifact path relative to out/
+ * @returns {Array} The contract ABI
+ */
+function loadAbi(artifact) {
+  const artifactPath = path.join(ROOT, "out", artifact);
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(`Missing Foundry artifact ${artifactPath}. Run "forge build" first.`);
+  }
+
+  return JSON.parse(fs.readFileSync(artifactPath, "utf8")).abi;
+}
+
+/**
+ * Parse the deployed addresses and chain ID out of a forge script log
+ * @param {string} outputPath - Path to the saved deploy output
+ * @returns {Object} Chain ID and deployed contract addresses
+ */
+function parseDeployOutput(outputPath) {
+  const output = fs.readFileSync(outputPath, "utf8");
+
+  const chainMatch = output.match(/^Chain (\d+)$/m);
+  if (!chainMatch) {
+    throw new Error(`Could not find the chain ID in ${outputPath}`);
+  }
+
+  const findAddress = (contractName) => {
+    const line = output.split("\n").find((l) => l.includes(`${contractName} deployed at:`));
+    const match = line && line.match(ADDRESS_PATTERN);
+    if (!match) {
+      throw new Error(`Could not find the ${contractName} address in ${outputPath}`);
+    }
+    return match[0];
+  };
+
+  return {
+    chainId: Number(chainMatch[1]),
+    addresses: {
+      leveragedLPManager: findAddress("LeveragedLPManager"),
+      feeCollectHook: findAddress("FeeCollectHook"),
+    },
+  };
+}
+
+/**
+ * Read the external protocol addresses of a chain hardcoded in Deploy.s.sol
+ * @param {number} chainId - Chain the addresses are read for
+ * @returns {Object} Addresses keyed by manifest name
+ */
+function parseDeployScriptAddresses(chainId) {
+  const script = fs.readFileSync(path.join(ROOT, "script", "Deploy.s.sol"), "utf8");
+  const prefix = DEPLOY_SCRIPT_PREFIXES[chainId];
+  if (!prefix) {
+    throw new Error(`No Deploy.s.sol addresses configured for chain ID ${chainId}`);
+  }
+
+  const addresses = {};
+  for (const [constant, key] of Object.entries(DEPLOY_SCRIPT_CONSTANTS)) {
+    const name = `${prefix}_${constant}`;
+    const match = script.match(new RegExp(`address constant ${name} = (0x[a-fA-F0-9]{40})`));
+    if (!match) {
+      throw new Error(`Could not find ${name} in Deploy.s.sol`);
+    }
+    addresses[key] = match[1];
+  }
+
+  return addresses;
+}
+
+/**
+ * Render the typed TypeScript module for the frontend
+ * @param {Object} manifest - The generated manifest
+ * @returns {string} TypeScript source
+ */
+function renderTypeScript(manifest) {
+  const addressKeys = Object.keys(Object.values(manifest.chains)[0]);
+  const abiName = (name) => `${name.charAt(0).toLowerCase()}${name.slice(1)}Abi`;
+
+  return [
+    "// Generated by contracts/script/generate-manifest.js from Foundry artifacts and deploy-output.txt.",
+    "// Do not edit by hand, run `npm run manifest` in contracts/ instead.",
+    "import type { Address } from 'viem';",
+    "",
+    ...Object.entries(manifest.abis).map(
+      ([name, abi]) => `export const ${abiName(name)} = ${JSON.stringify(abi, null, 2)} as const;\n`
+    ),
+    "export interface ContractAddresses {",
+    ...addressKeys.map((key) => `  ${key}: Address;`),
+    "}",
+    "",
+    "export const deployments: Record<number, ContractAddresses> = {",
+    ...Object.entries(manifest.chains).map(([chainId, addresses]) =>
+      [
+        `  ${chainId}: {`,
+        ...Object.entries(addresses).map(([key, address]) => `    ${key}: '${address}',`),
+        "  },",
+      ].join("\n")
+    ),
+    "};",
+    "",
+  ].join("\n");
+}
+
+// =============================================================================
+// MAIN FUNCTION
+// =============================================================================
+
+function main() {
+  const deployOutputs = process.argv.slice(2);
+  if (deployOutputs.length === 0) {
+    deployOutputs.push(path.join(ROOT, "deploy-output.txt"));
+  }
+
+  const abis = {};
+  for (const [name, artifact] of Object.entries(CONTRACTS)) {
+    abis[name] = loadAbi(artifact);
+  }
+
+  const chains = {};
+  for (const outputPath of deployOutputs) {
+    const { chainId, addresses } = parseDeployOutput(path.resolve(outputPath));
+    if (!EXTERNAL_ADDRESSES[chainId]) {
+      throw new Error(`No external addresses configured for chain ID ${chainId}`);
+    }
+
+    chains[chainId] = { ...addresses, ...parseDeployScriptAddresses(chainId), ...EXTERNAL_ADDRESSES[chainId] };
+    console.log(`Chain ${chainId}: LeveragedLPManager ${addresses.leveragedLPManager}`);
+  }
+
+  const manifest = { abis, chains };
+
+  fs.writeFileSync(JSON_OUTPUT, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`Wrote ${path.relative(ROOT, JSON_OUTPUT)}`);
+
+  fs.mkdirSync(path.dirname(TS_OUTPUT), { recursive: true });
+  fs.writeFileSync(TS_OUTPUT, renderTypeScript(manifest));
+  console.log(`Wrote ${path.relative(ROOT, TS_OUTPUT)}`);
+}
+
+main();
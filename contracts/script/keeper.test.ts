@@ -0,0 +1,207 @@
+/**
+ * keeper.test.ts - Tests for the health-factor keeper
+ *
+ * The planning tests run offline. The fork test runs the keeper in dry-run mode against a
+ * local anvil fork of Base and is skipped unless ANVIL_RPC_URL is set:
+ *   anvil --fork-url $BASE_RPC_URL
+ *   ANVIL_RPC_URL=http://127.0.0.1:8545 npm run test:keeper
+ * Set KEEPER_TEST_SAFE to a Safe with an open position to check its deleverage plan.
+ */
+
+import assert from 'node:assert/strict';
+import { createRequire } from 'node:module';
+import { describe, it } from 'node:test';
+import {
+  computeRepayAmount,
+  getLpAmounts,
+  parseConfig,
+  planDeleverage,
+  runOnce,
+  type AccountData,
+  type LpPosition,
+} from './keeper.ts';
+
+const require = createRequire(import.meta.url);
+const ethers = require('ethers');
+
+const WETH = '0x4200000000000000000000000000000000000006';
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const SAFE = '0x000000000000000000000000000000000000dEaD';
+
+const addresses = {
+  leveragedLPManager: '0x0000000000000000000000000000000000000001',
+  feeCollectHook: '0x0000000000000000000000000000000000000002',
+  aavePool: '0x0000000000000000000000000000000000000003',
+  usdc: USDC,
+  weth: WETH,
+};
+
+// ETH/USDC position around tick 0 of the raw token amounts, in range
+const lp: LpPosition = {
+  token0: USDC,
+  token1: WETH,
+  tickLower: -1000,
+  tickUpper: 1000,
+  tickCurrent: 0,
+  liquidity: 10n ** 12n,
+};
+
+// $10,000 collateral at an 80% liquidation threshold against $7,000 debt: health factor 1.142857
+const accountData: AccountData = {
+  totalCollateralBase: 10_000n * 10n ** 8n,
+  totalDebtBase: 7_000n * 10n ** 8n,
+  currentLiquidationThreshold: 8_000n,
+  healthFactor: 1_142_857_142_857_142_857n,
+};
+
+const config = { healthFactorThreshold: 1.3, targetHealthFactor: 1.6, slippageBps: 100 };
+
+describe('computeRepayAmount', () => {
+  it('repays down to the debt that gives the target health factor', () => {
+    // Target debt is 10,000 * 0.8 / 1.6 = $5,000
+    assert.equal(computeRepayAmount(accountData, 1.6, 10n ** 8n), 2_000n * 10n ** 6n);
+  });
+
+  it('accounts for the USDC price', () => {
+    assert.equal(computeRepayAmount(accountData, 1.6, 2n * 10n ** 8n), 1_000n * 10n ** 6n);
+  });
+
+  it('repays nothing when the target is already met', () => {
+    assert.equal(computeRepayAmount(accountData, 1.1, 10n ** 8n), 0n);
+  });
+});
+
+describe('getLpAmounts', () => {
+  it('splits an in-range position between both tokens', () => {
+    const amounts = getLpAmounts(lp, WETH);
+    assert.ok(amounts.eth > 0n);
+    assert.ok(amounts.usdc > 0n);
+    // Symmetric range around the current tick holds equal raw amounts
+    assert.ok(amounts.eth - amounts.usdc <= 1n && amounts.usdc - amounts.eth <= 1n);
+  });
+
+  it('holds only token0 below the range', () => {
+    const amounts = getLpAmounts({ ...lp, tickCurrent: -2000 }, WETH);
+    assert.equal(amounts.eth, 0n);
+    assert.ok(amounts.usdc > 0n);
+  });
+
+  it('tells the ETH side by the WETH address', () => {
+    const amounts = getLpAmounts({ ...lp, token0: WETH, token1: USDC, tickCurrent: 2000 }, WETH);
+    assert.equal(amounts.eth, 0n);
+    assert.ok(amounts.usdc > 0n);
+  });
+});
+
+describe('planDeleverage', () => {
+  const params = {
+    position: { safe: SAFE, lpTokenId: 42n },
+    lp: { ...lp, liquidity: 10n ** 16n },
+    accountData,
+    usdcPriceBase: 10n ** 8n,
+    addresses,
+    positionManager: '0x0000000000000000000000000000000000000004',
+    config,
+    deadline: 1_700_000_000,
+  };
+
+  it('does nothing above the threshold', () => {
+    assert.equal(
+      planDeleverage({ ...params, config: { ...config, healthFactorThreshold: 1.1 } }),
+      null
+    );
+  });
+
+  it('does nothing without debt', () => {
+    const noDebt = {
+      ...accountData,
+      totalDebtBase: 0n,
+      healthFactor: ethers.constants.MaxUint256.toBigInt(),
+    };
+    assert.equal(planDeleverage({ ...params, accountData: noDebt }), null);
+  });
+
+  it('removes liquidity, collects and repays from the Safe', () => {
+    const plan = planDeleverage(params);
+    assert.ok(plan);
+    assert.equal(plan.calls.length, 4);
+    // Repays the full $2,000 up to rounding, even at the worst accepted slippage
+    assert.ok(2_000n * 10n ** 6n - plan.repayUsdc <= 1n);
+    assert.ok(plan.liquidityToRemove < params.lp.liquidity);
+    assert.ok(plan.expectedUsdc >= plan.repayUsdc);
+
+    const [removal, collect, approve, repay] = plan.calls;
+    assert.equal(removal.to, params.positionManager);
+    assert.equal(collect.to, params.positionManager);
+    assert.equal(approve.to, USDC);
+    assert.equal(repay.to, addresses.aavePool);
+
+    const aavePool = new ethers.utils.Interface([
+      'function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf)',
+    ]);
+    const args = aavePool.decodeFunctionData('repay', repay.data);
+    assert.equal(args.asset, USDC);
+    assert.equal(args.amount.toBigInt(), plan.repayUsdc);
+    assert.equal(args.interestRateMode.toNumber(), 2);
+    assert.equal(args.onBehalfOf, SAFE);
+  });
+
+  it('removes all liquidity when the position cannot cover the target', () => {
+    const plan = planDeleverage({ ...params, lp: { ...lp, liquidity: 10n ** 9n } });
+    assert.ok(plan);
+    assert.equal(plan.liquidityToRemove, 10n ** 9n);
+    assert.ok(plan.repayUsdc < 2_000n * 10n ** 6n);
+  });
+});
+
+describe('parseConfig', () => {
+  it('reads flags before the environment', () => {
+    const parsed = parseConfig(
+      ['--dry-run', '--threshold', '1.2', '--safe', SAFE, '--safe', WETH],
+      { KEEPER_HEALTH_FACTOR_THRESHOLD: '1.4', KEEPER_TARGET_HEALTH_FACTOR: '1.8' }
+    );
+    assert.equal(parsed.healthFactorThreshold, 1.2);
+    assert.equal(parsed.targetHealthFactor, 1.8);
+    assert.deepEqual(parsed.safes, [SAFE, WETH]);
+    assert.equal(parsed.dryRun, true);
+  });
+
+  it('requires a key to submit transactions', () => {
+    assert.throws(() => parseConfig([], {}), /KEEPER_PRIVATE_KEY/);
+  });
+
+  it('rejects a target below the threshold', () => {
+    assert.throws(() => parseConfig(['--dry-run', '--target', '1.2'], {}), /target/);
+  });
+});
+
+describe('fork', { skip: !process.env.ANVIL_RPC_URL && 'ANVIL_RPC_URL is not set' }, () => {
+  const provider = new ethers.providers.JsonRpcProvider(process.env.ANVIL_RPC_URL);
+  const safes = process.env.KEEPER_TEST_SAFE ? ['--safe', process.env.KEEPER_TEST_SAFE] : [];
+
+  it('watches the active positions in dry-run mode', async () => {
+    const plans = await runOnce(
+      provider,
+      parseConfig(['--dry-run', ...safes], { KEEPER_LOOKBACK_BLOCKS: '10000' })
+    );
+    for (const plan of plans) {
+      assert.equal(plan.calls.length, 4);
+    }
+  });
+
+  it(
+    'plans a deleverage for a Safe below the threshold',
+    { skip: safes.length === 0 },
+    async () => {
+      // Any open position with debt is below a health factor of 100
+      const plans = await runOnce(
+        provider,
+        parseConfig(['--dry-run', '--threshold', '100', '--target', '101', ...safes], {
+          KEEPER_LOOKBACK_BLOCKS: '0',
+        })
+      );
+      assert.equal(plans.length, 1);
+      assert.ok(plans[0].repayUsdc > 0n);
+    }
+  );
+});
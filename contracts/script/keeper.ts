@@ -0,0 +1,626 @@
+/**
+ * keeper.ts - Health-factor keeper for Safes running the leveraged LP strategy
+ *
+ * The FeeCollectHook only reduces debt on every 10th trade. If ETH drops sharply between
+ * sweeps, this keeper steps in:
+ * 1. Finds the Safes with an active position from StrategyStarted and FeesCollected events
+ *    (mapped to their Safe through lpTokenToSafe), plus any Safe passed with --safe
+ * 2. Reads each Safe's Aave health factor
+ * 3. When it is below the threshold, prepares one Safe transaction that removes part of the
+ *    LP position's liquidity and repays USDC debt until the target health factor is reached
+ * 4. Executes it when the keeper is the Safe's only required signer, otherwise proposes it
+ *    to the Safe Transaction Service for the owners to confirm
+ *
+ * Run with Node 22:
+ *   node --experimental-strip-types script/keeper.ts --dry-run --once
+ */
+
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import type { BigNumber, Contract, providers, Signer } from 'ethers';
+
+// ethers 5, the Safe SDKs and the manifest are loaded as CommonJS, like in TestEndToEnd.js
+const require = createRequire(import.meta.url);
+require('dotenv').config();
+const ethers = require('ethers');
+const deployments = require('../deployments.json');
+
+/**
+ * Contract ABIs
+ * The LeveragedLPManager and FeeCollectHook ABIs come from the generated deployment manifest,
+ * the others are minimal ABIs containing just the functions we need
+ */
+const ABIs = {
+  LeveragedLPManager: deployments.abis.LeveragedLPManager,
+  FeeCollectHook: deployments.abis.FeeCollectHook,
+
+  // Uniswap position manager, as declared in LeveragedLPManager.sol
+  PositionManager: [
+    'function positions(uint256 tokenId) external view returns (address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, int24 tickCurrent, uint128 feeGrowthInside0LastX128, uint128 feeGrowthInside1LastX128, uint128 liquidity, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, uint256 tokensOwed0, uint256 tokensOwed1)',
+    'function decreaseLiquidity(uint256 tokenId, uint128 liquidity, uint256 amount0Min, uint256 amount1Min, uint256 deadline) external returns (uint256 amount0, uint256 amount1)',
+    'function collect(uint256 tokenId, address recipient, uint128 amount0Max, uint128 amount1Max) external returns (uint256 amount0, uint256 amount1)',
+  ],
+
+  ERC20: ['function approve(address spender, uint256 amount) external returns (bool)'],
+
+  AavePool: [
+    'function getUserAccountData(address user) external view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
+    'function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) external returns (uint256)',
+    'function ADDRESSES_PROVIDER() external view returns (address)',
+  ],
+
+  AaveAddressesProvider: ['function getPriceOracle() external view returns (address)'],
+
+  AaveOracle: ['function getAssetPrice(address asset) external view returns (uint256)'],
+};
+
+// Aave variable rate mode, as used by LeveragedLPManager
+const INTEREST_RATE_MODE = 2;
+
+// Block range per eth_getLogs request, kept below common RPC limits
+const LOG_CHUNK_SIZE = 10_000;
+
+const MAX_UINT128 = (1n << 128n) - 1n;
+
+// Safe Transaction Service per chain, anvil forks have none
+const SAFE_SERVICES: Record<number, string> = {
+  8453: 'https://safe-transaction-base.safe.global',
+  84532: 'https://safe-transaction-base-sepolia.safe.global',
+};
+
+export interface KeeperConfig {
+  rpcUrl: string;
+  privateKey?: string;
+  healthFactorThreshold: number; // Deleverage below this health factor
+  targetHealthFactor: number; // Repay until this health factor is reached
+  slippageBps: number; // Tolerance on the amounts returned by decreaseLiquidity
+  lookbackBlocks: number; // How far back Safes are discovered from events
+  intervalSeconds: number;
+  cooldownSeconds: number; // Minimum time between two transactions for the same Safe
+  txServiceUrl?: string;
+  dryRun: boolean;
+  once: boolean;
+  safes: string[];
+}
+
+export interface ContractAddresses {
+  leveragedLPManager: string;
+  feeCollectHook: string;
+  aavePool: string;
+  usdc: string;
+  weth: string;
+}
+
+export interface WatchedPosition {
+  safe: string;
+  lpTokenId: bigint;
+}
+
+export interface LpPosition {
+  token0: string;
+  token1: string;
+  tickLower: number;
+  tickUpper: number;
+  tickCurrent: number;
+  liquidity: bigint;
+}
+
+// Result of AavePool.getUserAccountData, amounts in the Aave base currency (8 decimals)
+export interface AccountData {
+  totalCollateralBase: bigint;
+  totalDebtBase: bigint;
+  currentLiquidationThreshold: bigint; // Basis points
+  healthFactor: bigint; // 18 decimals
+}
+
+export interface SafeCall {
+  to: string;
+  data: string;
+  value: string;
+  description: string;
+}
+
+export interface DeleveragePlan {
+  safe: string;
+  lpTokenId: bigint;
+  healthFactor: number;
+  repayUsdc: bigint;
+  liquidityToRemove: bigint;
+  expectedEth: bigint;
+  expectedUsdc: bigint;
+  calls: SafeCall[];
+}
+
+/**
+ * Read the keeper configuration from command line flags and the environment
+ * @param argv - Command line arguments after the script name
+ * @param env - Environment variables
+ * @returns The configuration
+ */
+export function parseConfig(argv: string[], env: Record<string, string | undefined>): KeeperConfig {
+  const flag = (name: string) => argv.includes(`--${name}`);
+  const option = (name: string) => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const config: KeeperConfig = {
+    rpcUrl:
+      option('rpc-url') || env.KEEPER_RPC_URL || env.BASE_RPC_URL || 'https://mainnet.base.org',
+    privateKey: env.KEEPER_PRIVATE_KEY,
+    healthFactorThreshold: Number(option('threshold') || env.KEEPER_HEALTH_FACTOR_THRESHOLD || 1.3),
+    targetHealthFactor: Number(option('target') || env.KEEPER_TARGET_HEALTH_FACTOR || 1.6),
+    slippageBps: Number(env.KEEPER_SLIPPAGE_BPS || 100),
+    lookbackBlocks: Number(env.KEEPER_LOOKBACK_BLOCKS || 500_000),
+    intervalSeconds: Number(option('interval') || env.KEEPER_INTERVAL_SECONDS || 60),
+    cooldownSeconds: Number(env.KEEPER_COOLDOWN_SECONDS || 600),
+    txServiceUrl: env.SAFE_TX_SERVICE_URL,
+    dryRun: flag('dry-run'),
+    once: flag('once'),
+    safes: argv.flatMap((arg, i) => (arg === '--safe' && argv[i + 1] ? [argv[i + 1]] : [])),
+  };
+
+  if (config.targetHealthFactor <= config.healthFactorThreshold) {
+    throw new Error('The target health factor must be above the threshold');
+  }
+  if (!config.dryRun && !config.privateKey) {
+    throw new Error('KEEPER_PRIVATE_KEY is required unless --dry-run is set');
+  }
+
+  return config;
+}
+
+/**
+ * Compute the token amounts of a concentrated liquidity position at the pool's current tick
+ * @param lp - Position details
+ * @param weth - Address of WETH, to tell the ETH side of the pair
+ * @returns Raw ETH (18 decimals) and USDC (6 decimals) amounts
+ */
+export function getLpAmounts(lp: LpPosition, weth: string): { eth: bigint; usdc: bigint } {
+  const sqrtPrice = (tick: number) => Math.pow(1.0001, tick / 2);
+  const liquidity = Number(lp.liquidity);
+  const sqrtLower = sqrtPrice(lp.tickLower);
+  const sqrtUpper = sqrtPrice(lp.tickUpper);
+  const sqrtCurrent = Math.min(Math.max(sqrtPrice(lp.tickCurrent), sqrtLower), sqrtUpper);
+
+  // Below the range all liquidity is token0, above it all token1
+  const amount0 = BigInt(
+    Math.floor((liquidity * (sqrtUpper - sqrtCurrent)) / (sqrtCurrent * sqrtUpper))
+  );
+  const amount1 = BigInt(Math.floor(liquidity * (sqrtCurrent - sqrtLower)));
+
+  return lp.token0.toLowerCase() === weth.toLowerCase()
+    ? { eth: amount0, usdc: amount1 }
+    : { eth: amount1, usdc: amount0 };
+}
+
+/**
+ * Compute how much USDC debt to repay to bring the health factor back to the target
+ * healthFactor = collateral * liquidationThreshold / debt, so the target debt follows directly
+ * @param accountData - Aave account data of the Safe
+ * @param targetHealthFactor - Health factor to restore
+ * @param usdcPriceBase - Aave oracle price of USDC in the base currency (8 decimals)
+ * @returns USDC amount (6 decimals)
+ */
+export function computeRepayAmount(
+  accountData: AccountData,
+  targetHealthFactor: number,
+  usdcPriceBase: bigint
+): bigint {
+  const targetBps = BigInt(Math.round(targetHealthFactor * 10_000));
+  const targetDebtBase =
+    (accountData.totalCollateralBase * accountData.currentLiquidationThreshold) / targetBps;
+  if (accountData.totalDebtBase <= targetDebtBase) return 0n;
+
+  return ((accountData.totalDebtBase - targetDebtBase) * 1_000_000n) / usdcPriceBase;
+}
+
+/**
+ * Plan the Safe transaction that deleverages a position whose health factor is too low
+ * The removed ETH stays in the Safe, only the USDC side is used to repay debt
+ * @returns The plan, or null when the health factor is above the threshold
+ */
+export function planDeleverage(params: {
+  position: WatchedPosition;
+  lp: LpPosition;
+  accountData: AccountData;
+  usdcPriceBase: bigint;
+  addresses: ContractAddresses;
+  positionManager: string;
+  config: Pick<KeeperConfig, 'healthFactorThreshold' | 'targetHealthFactor' | 'slippageBps'>;
+  deadline: number;
+}): DeleveragePlan | null {
+  const { position, lp, accountData, usdcPriceBase, addresses, positionManager, config } = params;
+
+  if (accountData.totalDebtBase === 0n) return null;
+  const healthFactor = Number(accountData.healthFactor) / 1e18;
+  if (healthFactor >= config.healthFactorThreshold) return null;
+
+  const repayNeeded = computeRepayAmount(accountData, config.targetHealthFactor, usdcPriceBase);
+  const lpAmounts = getLpAmounts(lp, addresses.weth);
+  if (lpAmounts.usdc === 0n) {
+    throw new Error(
+      `LP position ${position.lpTokenId} holds no USDC at the current price and cannot repay debt`
+    );
+  }
+
+  // Remove the share of liquidity that returns the USDC needed even at the worst accepted
+  // slippage, at most all of it
+  const usdcAfterSlippage = (lpAmounts.usdc * BigInt(10_000 - config.slippageBps)) / 10_000n;
+  const liquidityToRemove =
+    repayNeeded >= usdcAfterSlippage
+      ? lp.liquidity
+      : (lp.liquidity * repayNeeded) / usdcAfterSlippage + 1n;
+  const expectedEth = (lpAmounts.eth * liquidityToRemove) / lp.liquidity;
+  const expectedUsdc = (lpAmounts.usdc * liquidityToRemove) / lp.liquidity;
+  const minEth = (expectedEth * BigInt(10_000 - config.slippageBps)) / 10_000n;
+  const minUsdc = (expectedUsdc * BigInt(10_000 - config.slippageBps)) / 10_000n;
+  const token0IsWeth = lp.token0.toLowerCase() === addresses.weth.toLowerCase();
+
+  // Only repay what is certain to be collected
+  const repayUsdc = repayNeeded < minUsdc ? repayNeeded : minUsdc;
+
+  const positionManagerInterface = new ethers.utils.Interface(ABIs.PositionManager);
+  const erc20Interface = new ethers.utils.Interface(ABIs.ERC20);
+  const aavePoolInterface = new ethers.utils.Interface(ABIs.AavePool);
+
+  const calls: SafeCall[] = [
+    {
+      to: positionManager,
+      data: positionManagerInterface.encodeFunctionData('decreaseLiquidity', [
+        position.lpTokenId,
+        liquidityToRemove,
+        token0IsWeth ? minEth : minUsdc,
+        token0IsWeth ? minUsdc : minEth,
+        params.deadline,
+      ]),
+      value: '0',
+      description: `Remove ${liquidityToRemove} of ${lp.liquidity} liquidity`,
+    },
+    {
+      to: positionManager,
+      data: positionManagerInterface.encodeFunctionData('collect', [
+        position.lpTokenId,
+        position.safe,
+        MAX_UINT128,
+        MAX_UINT128,
+      ]),
+      value: '0',
+      description: 'Collect the removed tokens into the Safe',
+    },
+    {
+      to: addresses.usdc,
+      data: erc20Interface.encodeFunctionData('approve', [addresses.aavePool, repayUsdc]),
+      value: '0',
+      description: 'Approve USDC for the Aave pool',
+    },
+    {
+      to: addresses.aavePool,
+      data: aavePoolInterface.encodeFunctionData('repay', [
+        addresses.usdc,
+        repayUsdc,
+        INTEREST_RATE_MODE,
+        position.safe,
+      ]),
+      value: '0',
+      description: `Repay ${ethers.utils.formatUnits(repayUsdc, 6)} USDC`,
+    },
+  ];
+
+  return {
+    safe: position.safe,
+    lpTokenId: position.lpTokenId,
+    healthFactor,
+    repayUsdc,
+    liquidityToRemove,
+    expectedEth,
+    expectedUsdc,
+    calls,
+  };
+}
+
+/**
+ * Fetch logs in chunks so large lookbacks stay within the RPC's range limit
+ */
+async function getLogs(
+  provider: providers.Provider,
+  filter: { address: string; topics: (string | string[] | null)[] },
+  fromBlock: number,
+  toBlock: number
+): Promise<providers.Log[]> {
+  const logs: providers.Log[] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) {
+    const end = Math.min(start + LOG_CHUNK_SIZE - 1, toBlock);
+    logs.push(...(await provider.getLogs({ ...filter, fromBlock: start, toBlock: end })));
+  }
+  return logs;
+}
+
+/**
+ * Find the Safes with an active strategy
+ * Safes come from StrategyStarted events, from the lpTokenIds of FeesCollected events
+ * through lpTokenToSafe, and from the Safes given on the command line
+ * @returns The active positions
+ */
+export async function discoverPositions(
+  provider: providers.Provider,
+  addresses: ContractAddresses,
+  config: Pick<KeeperConfig, 'lookbackBlocks' | 'safes'>
+): Promise<WatchedPosition[]> {
+  const manager: Contract = new ethers.Contract(
+    addresses.leveragedLPManager,
+    ABIs.LeveragedLPManager,
+    provider
+  );
+  const hook: Contract = new ethers.Contract(
+    addresses.feeCollectHook,
+    ABIs.FeeCollectHook,
+    provider
+  );
+
+  const toBlock = await provider.getBlockNumber();
+  const fromBlock = Math.max(0, toBlock - config.lookbackBlocks);
+
+  const [startedLogs, collectedLogs] = await Promise.all([
+    getLogs(
+      provider,
+      { address: manager.address, topics: [manager.interface.getEventTopic('StrategyStarted')] },
+      fromBlock,
+      toBlock
+    ),
+    getLogs(
+      provider,
+      { address: hook.address, topics: [hook.interface.getEventTopic('FeesCollected')] },
+      fromBlock,
+      toBlock
+    ),
+  ]);
+
+  const safes = new Set<string>(config.safes.map(safe => ethers.utils.getAddress(safe)));
+  for (const log of startedLogs) {
+    safes.add(manager.interface.parseLog(log).args.safe);
+  }
+
+  const lpTokenIds = new Set<string>(
+    collectedLogs.map(log => hook.interface.parseLog(log).args.lpTokenId.toString())
+  );
+  const tokenSafes: string[] = await Promise.all(
+    [...lpTokenIds].map(lpTokenId => manager.lpTokenToSafe(lpTokenId))
+  );
+  for (const safe of tokenSafes) {
+    if (safe !== ethers.constants.AddressZero) safes.add(safe);
+  }
+
+  // Keep the Safes whose position is still open
+  const positions = await Promise.all(
+    [...safes].map(async safe => {
+      const [positionSafe, lpTokenId]: [string, BigNumber] = await manager.userPositions(safe);
+      return positionSafe === ethers.constants.AddressZero
+        ? null
+        : { safe, lpTokenId: lpTokenId.toBigInt() };
+    })
+  );
+
+  return positions.filter((position): position is WatchedPosition => position !== null);
+}
+
+/**
+ * Read the health factor inputs and LP details of a position and plan its deleveraging
+ * @returns The plan, or null when the Safe is healthy
+ */
+export async function checkPosition(
+  provider: providers.Provider,
+  addresses: ContractAddresses,
+  position: WatchedPosition,
+  config: KeeperConfig
+): Promise<DeleveragePlan | null> {
+  const manager: Contract = new ethers.Contract(
+    addresses.leveragedLPManager,
+    ABIs.LeveragedLPManager,
+    provider
+  );
+  const aavePool: Contract = new ethers.Contract(addresses.aavePool, ABIs.AavePool, provider);
+
+  // Skip the remaining reads for healthy Safes
+  const accountData = await aavePool.getUserAccountData(position.safe);
+  if (Number(accountData.healthFactor) / 1e18 >= config.healthFactorThreshold) return null;
+
+  const addressesProvider: Contract = new ethers.Contract(
+    await aavePool.ADDRESSES_PROVIDER(),
+    ABIs.AaveAddressesProvider,
+    provider
+  );
+  const oracle: Contract = new ethers.Contract(
+    await addressesProvider.getPriceOracle(),
+    ABIs.AaveOracle,
+    provider
+  );
+  const positionManager: string = await manager.positionManager();
+  const positionManagerContract: Contract = new ethers.Contract(
+    positionManager,
+    ABIs.PositionManager,
+    provider
+  );
+
+  const [lp, usdcPrice, block] = await Promise.all([
+    positionManagerContract.positions(position.lpTokenId),
+    oracle.getAssetPrice(addresses.usdc),
+    provider.getBlock('latest'),
+  ]);
+
+  return planDeleverage({
+    position,
+    lp: {
+      token0: lp.token0,
+      token1: lp.token1,
+      tickLower: lp.tickLower,
+      tickUpper: lp.tickUpper,
+      tickCurrent: lp.tickCurrent,
+      liquidity: lp.liquidity.toBigInt(),
+    },
+    accountData: {
+      totalCollateralBase: accountData.totalCollateralBase.toBigInt(),
+      totalDebtBase: accountData.totalDebtBase.toBigInt(),
+      currentLiquidationThreshold: accountData.currentLiquidationThreshold.toBigInt(),
+      healthFactor: accountData.healthFactor.toBigInt(),
+    },
+    usdcPriceBase: usdcPrice.toBigInt(),
+    addresses,
+    positionManager,
+    config,
+    deadline: block.timestamp + 600,
+  });
+}
+
+/**
+ * Print a plan and check that its first call, the liquidity removal, succeeds from the Safe
+ * The later calls depend on its result, so they cannot be checked with a plain eth_call
+ */
+async function dryRunPlan(provider: providers.Provider, plan: DeleveragePlan): Promise<void> {
+  console.log(
+    `[dry-run] Safe ${plan.safe}: health factor ${plan.healthFactor.toFixed(3)}, ` +
+      `repaying ${ethers.utils.formatUnits(plan.repayUsdc, 6)} USDC`
+  );
+  plan.calls.forEach((call, i) => console.log(`  ${i + 1}. ${call.description} (${call.to})`));
+
+  const [removal] = plan.calls;
+  try {
+    await provider.call({ from: plan.safe, to: removal.to, data: removal.data });
+    console.log('  Liquidity removal simulates successfully');
+  } catch (error) {
+    console.warn(
+      `  Liquidity removal would revert: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Execute the plan when the keeper can sign alone, otherwise propose it to the Safe owners
+ * @returns The transaction hash or the proposed safeTxHash
+ */
+async function submitPlan(
+  signer: Signer,
+  chainId: number,
+  plan: DeleveragePlan,
+  config: KeeperConfig
+): Promise<string> {
+  const Safe = require('@safe-global/protocol-kit').default;
+  const { EthersAdapter } = require('@safe-global/protocol-kit');
+  const SafeApiKit = require('@safe-global/api-kit').default;
+
+  const ethAdapter = new EthersAdapter({ ethers, signerOrProvider: signer });
+  const safeSdk = await Safe.create({ ethAdapter, safeAddress: plan.safe });
+  const safeTransaction = await safeSdk.createTransaction({
+    safeTransactionData: plan.calls.map(({ to, data, value }) => ({ to, data, value })),
+  });
+  const keeperAddress = await signer.getAddress();
+
+  if ((await safeSdk.getThreshold()) === 1 && (await safeSdk.isOwner(keeperAddress))) {
+    const signedSafeTx = await safeSdk.signTransaction(safeTransaction);
+    const executeTxResponse = await safeSdk.executeTransaction(signedSafeTx);
+    await executeTxResponse.transactionResponse?.wait();
+    return executeTxResponse.hash;
+  }
+
+  const txServiceUrl = config.txServiceUrl || SAFE_SERVICES[chainId];
+  if (!txServiceUrl) {
+    throw new Error(`No Safe Transaction Service for chain ${chainId}, set SAFE_TX_SERVICE_URL`);
+  }
+
+  // The keeper must be an owner or a registered delegate of the Safe to propose
+  const safeService = new SafeApiKit({ txServiceUrl, ethAdapter });
+  const safeTxHash = await safeSdk.getTransactionHash(safeTransaction);
+  const signature = await safeSdk.signTransactionHash(safeTxHash);
+  await safeService.proposeTransaction({
+    safeAddress: plan.safe,
+    safeTransactionData: safeTransaction.data,
+    safeTxHash,
+    senderAddress: keeperAddress,
+    senderSignature: signature.data,
+    origin: 'Keeper deleverage',
+  });
+  return safeTxHash;
+}
+
+/**
+ * Check every watched Safe once and deleverage the unhealthy ones
+ * @param lastSubmitted - When a transaction was last sent per Safe, to respect the cooldown
+ * @returns The plans made in this round
+ */
+export async function runOnce(
+  provider: providers.Provider,
+  config: KeeperConfig,
+  lastSubmitted: Map<string, number> = new Map()
+): Promise<DeleveragePlan[]> {
+  const { chainId } = await provider.getNetwork();
+  const addresses: ContractAddresses | undefined = deployments.chains[chainId];
+  if (!addresses) {
+    throw new Error(`No deployment for chain ${chainId} in deployments.json`);
+  }
+
+  const positions = await discoverPositions(provider, addresses, config);
+  console.log(`Watching ${positions.length} active position(s)`);
+
+  const plans: DeleveragePlan[] = [];
+  for (const position of positions) {
+    try {
+      const plan = await checkPosition(provider, addresses, position, config);
+      if (!plan) continue;
+      plans.push(plan);
+
+      if (config.dryRun) {
+        await dryRunPlan(provider, plan);
+        continue;
+      }
+
+      const submittedAt = lastSubmitted.get(plan.safe) ?? 0;
+      if (Date.now() - submittedAt < config.cooldownSeconds * 1000) {
+        console.log(`Safe ${plan.safe} was deleveraged recently, waiting for the cooldown`);
+        continue;
+      }
+
+      const signer = new ethers.Wallet(config.privateKey, provider);
+      const hash = await submitPlan(signer, chainId, plan, config);
+      lastSubmitted.set(plan.safe, Date.now());
+      console.log(`Deleverage for Safe ${plan.safe} submitted: ${hash}`);
+    } catch (error) {
+      console.error(
+        `Error checking Safe ${position.safe}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return plans;
+}
+
+/**
+ * Main function that runs the keeper loop
+ */
+async function main() {
+  const config = parseConfig(process.argv.slice(2), process.env);
+  const provider = new ethers.providers.JsonRpcProvider(config.rpcUrl);
+  console.log(
+    `Keeper started on ${config.rpcUrl}: threshold ${config.healthFactorThreshold}, ` +
+      `target ${config.targetHealthFactor}${config.dryRun ? ', dry run' : ''}`
+  );
+
+  const lastSubmitted = new Map<string, number>();
+  for (;;) {
+    try {
+      await runOnce(provider, config, lastSubmitted);
+    } catch (error) {
+      console.error(`Keeper round failed: ${error instanceof Error ? error.message : error}`);
+    }
+    if (config.once) return;
+    await new Promise(resolve => setTimeout(resolve, config.intervalSeconds * 1000));
+  }
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
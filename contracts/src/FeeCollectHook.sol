@@ -57,7 +57,8 @@ struct BalanceDelta {
 
 /**
  * @title FeeCollectHook
- * @dev Uniswap V4 hook for collecting fees from LP positions after every 10th trade
+ * @dev Uniswap V4 hook for collecting fees from LP positions after every 10th trade,
+ * or on demand through collectFees
  * This contract implements the Uniswap V4 hook interface and tracks trades per LP position
  */
 contract FeeCollectHook is ReentrancyGuard, IUniswapV4Hook {
@@ -144,53 +145,74 @@ contract FeeCollectHook is ReentrancyGuard, IUniswapV4Hook {
         
         // Only collect fees every 10th trade
         if (tradeCounts[lpTokenId] % 10 == 0) {
-            // Verify that the LP token exists and get its owner
-            address lpOwner = IUniswapV4PositionManager(positionManager).ownerOf(lpTokenId);
-            address safeOwner = ILeveragedLPManager(leveragedLpManager).lpTokenToSafe(lpTokenId);
-            
-            // Verify that the LP token is owned by a Safe wallet managed by our system
-            require(lpOwner == safeOwner, "LP token not owned by Safe");
-            
-            // Collect fees from Uniswap for this LP NFT
-            // The Safe (owner) must have approved this contract for the NFT
-            (uint256 amount0, uint256 amount1) = IUniswapV4PositionManager(positionManager).collect(
-                lpTokenId,
-                address(this), // collect to hook contract
-                type(uint128).max,
-                type(uint128).max
-            );
-            
-            // Determine which token is USDC/ETH based on token0/token1 ordering in the pool
-            uint256 usdcAmount;
-            uint256 ethAmount;
-            
-            // For simplicity in this implementation, we assume token0 is USDC and token1 is WETH
-            // In a production environment, we would need to check the actual token addresses
-            usdcAmount = amount0;
-            ethAmount = amount1;
-            
-            // Log the fee collection event
-            emit FeesCollected(lpTokenId, usdcAmount, ethAmount, tradeCounts[lpTokenId]);
-            
-            // Only process fees if we collected something
-            if (usdcAmount > 0 || ethAmount > 0) {
-                // Approve LeveragedLPManager to spend the tokens
-                if (usdcAmount > 0) {
-                    IERC20(usdc).approve(leveragedLpManager, usdcAmount);
-                }
-                
-                if (ethAmount > 0) {
-                    IERC20(weth).approve(leveragedLpManager, ethAmount);
-                }
-                
-                // Process the fees through the LeveragedLPManager
-                ILeveragedLPManager(leveragedLpManager).processFees(safeOwner, usdcAmount, ethAmount);
-            }
+            _collectAndProcessFees(lpTokenId);
         }
         
         return this.afterSwap.selector;
     }
     
+    /**
+     * @dev Collect fees owed to an LP position between the automatic sweeps
+     * Lets a quiet pool's fees reach the strategy without waiting for the 10th trade
+     * @param lpTokenId The ID of the LP position to collect fees for
+     */
+    function collectFees(uint256 lpTokenId) external nonReentrant {
+        address safeOwner = ILeveragedLPManager(leveragedLpManager).lpTokenToSafe(lpTokenId);
+        require(safeOwner != address(0), "LP token not managed");
+        require(msg.sender == safeOwner || msg.sender == owner, "Only the Safe or owner can collect fees");
+
+        _collectAndProcessFees(lpTokenId);
+    }
+
+    /**
+     * @dev Collect the fees of an LP position and process them through the LeveragedLPManager
+     * @param lpTokenId The ID of the LP position to collect fees for
+     */
+    function _collectAndProcessFees(uint256 lpTokenId) internal {
+        // Verify that the LP token exists and get its owner
+        address lpOwner = IUniswapV4PositionManager(positionManager).ownerOf(lpTokenId);
+        address safeOwner = ILeveragedLPManager(leveragedLpManager).lpTokenToSafe(lpTokenId);
+        
+        // Verify that the LP token is owned by a Safe wallet managed by our system
+        require(lpOwner == safeOwner, "LP token not owned by Safe");
+        
+        // Collect fees from Uniswap for this LP NFT
+        // The Safe (owner) must have approved this contract for the NFT
+        (uint256 amount0, uint256 amount1) = IUniswapV4PositionManager(positionManager).collect(
+            lpTokenId,
+            address(this), // collect to hook contract
+            type(uint128).max,
+            type(uint128).max
+        );
+        
+        // Determine which token is USDC/ETH based on token0/token1 ordering in the pool
+        uint256 usdcAmount;
+        uint256 ethAmount;
+        
+        // For simplicity in this implementation, we assume token0 is USDC and token1 is WETH
+        // In a production environment, we would need to check the actual token addresses
+        usdcAmount = amount0;
+        ethAmount = amount1;
+        
+        // Log the fee collection event
+        emit FeesCollected(lpTokenId, usdcAmount, ethAmount, tradeCounts[lpTokenId]);
+        
+        // Only process fees if we collected something
+        if (usdcAmount > 0 || ethAmount > 0) {
+            // Approve LeveragedLPManager to spend the tokens
+            if (usdcAmount > 0) {
+                IERC20(usdc).approve(leveragedLpManager, usdcAmount);
+            }
+            
+            if (ethAmount > 0) {
+                IERC20(weth).approve(leveragedLpManager, ethAmount);
+            }
+            
+            // Process the fees through the LeveragedLPManager
+            ILeveragedLPManager(leveragedLpManager).processFees(safeOwner, usdcAmount, ethAmount);
+        }
+    }
+    
     // Implement the required hook interface functions
     function beforeInitialize(address, bytes calldata) external pure override returns (bytes4) {
         return this.beforeInitialize.selector;
@@ -86,6 +86,14 @@ interface IUniswapV4PositionManager {
     }
 
     function mint(MintParams calldata params) external returns (uint256 tokenId, uint128 liquidity, uint256 amount0, uint256 amount1);
+    function increaseLiquidity(
+        uint256 tokenId,
+        uint256 amount0Desired,
+        uint256 amount1Desired,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        uint256 deadline
+    ) external returns (uint128 liquidity, uint256 amount0, uint256 amount1);
     function safeTransferFrom(address from, address to, uint256 tokenId) external;
     function collect(uint256 tokenId, address recipient, uint128 amount0Max, uint128 amount1Max) external returns (uint256 amount0, uint256 amount1);
     function decreaseLiquidity(
@@ -139,8 +147,8 @@ contract LeveragedLPManager is IERC721Receiver, ReentrancyGuard, Ownable {
     address public immutable uniswapRouter;
     uint24 public immutable poolFee;
 
-    // Chainlink ETH/USD Price Feed address on Base
-    address public constant ETH_USD_PRICE_FEED = 0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70;
+    // Chainlink ETH/USD Price Feed of the chain the manager is deployed on
+    address public immutable ETH_USD_PRICE_FEED;
 
     // Constants
     uint16 public constant REFERRAL_CODE = 0;
@@ -157,6 +165,9 @@ contract LeveragedLPManager is IERC721Receiver, ReentrancyGuard, Ownable {
     event StrategyStarted(address indexed safe, uint256 indexed lpTokenId, uint256 ethSupplied, uint256 usdcBorrowed);
     event FeesProcessed(address indexed safe, uint256 indexed lpTokenId, uint256 usdcRepaid, uint256 ethAdded);
     event StrategyExited(address indexed safe, uint256 indexed lpTokenId, uint256 ethReturned, uint256 usdcRepaid);
+    event StrategyIncreased(address indexed safe, uint256 indexed lpTokenId, uint256 ethSupplied, uint256 usdcBorrowed, uint128 liquidityAdded);
+    event StrategyRebalanced(address indexed safe, uint256 indexed lpTokenId, uint256 targetLtv, uint256 usdcBorrowed, uint256 usdcRepaid);
+    event StrategyReduced(address indexed safe, uint256 indexed lpTokenId, uint256 percentage, uint256 ethReturned, uint256 usdcRepaid);
     event DebugLog(string message, uint256 value);
     event SlippageParamsUpdated(uint256 minEthAmount, uint256 minUsdcAmount);
 
@@ -169,6 +180,7 @@ contract LeveragedLPManager is IERC721Receiver, ReentrancyGuard, Ownable {
      * @param _feeHook Address of the fee collection hook
      * @param _uniswapRouter Address of the Uniswap V4 router
      * @param _poolFee The fee tier for the Uniswap V4 pool (e.g., 3000 for 0.3%)
+     * @param _ethUsdPriceFeed Address of the Chainlink ETH/USD price feed
      */
     constructor(
         address _aavePool,
@@ -177,13 +189,15 @@ contract LeveragedLPManager is IERC721Receiver, ReentrancyGuard, Ownable {
         address _weth,
         address _feeHook,
         address _uniswapRouter,
-        uint24 _poolFee
+        uint24 _poolFee,
+        address _ethUsdPriceFeed
     ) Ownable(msg.sender) {
         require(_aavePool != address(0), "Invalid Aave pool address");
         require(_positionManager != address(0), "Invalid position manager address");
         require(_usdc != address(0), "Invalid USDC address");
         require(_weth != address(0), "Invalid WETH address");
         require(_uniswapRouter != address(0), "Invalid Uniswap router address");
+        require(_ethUsdPriceFeed != address(0), "Invalid price feed address");
 
         aavePool = _aavePool;
         positionManager = _positionManager;
@@ -192,6 +206,7 @@ contract LeveragedLPManager is IERC721Receiver, ReentrancyGuard, Ownable {
         feeHook = _feeHook;
         uniswapRouter = _uniswapRouter;
         poolFee = _poolFee;
+        ETH_USD_PRICE_FEED = _ethUsdPriceFeed;
 
         // We now use slippageBps parameter directly for all slippage protection
     }
@@ -225,38 +240,7 @@ contract LeveragedLPManager is IERC721Receiver, ReentrancyGuard, Ownable {
         // [3] Borrow USDC against ETH collateral - NOW WITH PRICE AWARENESS
         // We need to get the current ETH/USD price to calculate a proper amount to borrow
         // This is critical for Aave's health factor calculation
-
-        // Get ETH price in USD terms using Chainlink Price Feed
-        AggregatorV3Interface priceFeed = AggregatorV3Interface(ETH_USD_PRICE_FEED);
-
-        // Get the latest price data from Chainlink
-        (
-            /* uint80 roundID */,
-            int256 price,
-            /* uint startedAt */,
-            /* uint timeStamp */,
-            /* uint80 answeredInRound */
-        ) = priceFeed.latestRoundData();
-
-        // Ensure the price is positive
-        require(price > 0, "Invalid ETH price");
-
-        // Get the number of decimals in the price feed
-        uint8 decimals = priceFeed.decimals();
-
-        // Convert the price to USDC terms (6 decimals)
-        // Chainlink typically returns price with 8 decimals, so we need to adjust
-        uint256 ethPriceInUsd = uint256(price);
-
-        // If decimals is not 6 (USDC decimals), adjust the price
-        if (decimals > 6) {
-            ethPriceInUsd = ethPriceInUsd / (10 ** (decimals - 6));
-        } else if (decimals < 6) {
-            ethPriceInUsd = ethPriceInUsd * (10 ** (6 - decimals));
-        }
-
-        // Use ethPriceInUsd as our price in USDC terms
-        uint256 ethPriceInUsdc = ethPriceInUsd;
+        uint256 ethPriceInUsdc = _getEthPriceInUsdc();
 
         // Calculate max borrowable USDC based on ETH value and LTV
         // ethAmount is in wei (18 decimals), ethPriceInUsdc is in USDC's native 6 decimals
@@ -358,6 +342,89 @@ contract LeveragedLPManager is IERC721Receiver, ReentrancyGuard, Ownable {
 
     }
 
+    /**
+     * @dev Add collateral, debt and liquidity to an active strategy without exiting it
+     * Supplies the ETH, borrows USDC at the LTV against it, swaps half of the USDC to ETH
+     * and adds both to the existing LP position
+     * @param safe The address of the user's Gnosis Safe wallet
+     * @param ethAmount The amount of ETH to add as collateral
+     * @param ltv The loan-to-value ratio for borrowing against the added ETH (as a percentage)
+     * @param slippageBps Slippage tolerance in basis points (e.g., 50 = 0.5%)
+     */
+    function increasePosition(address safe, uint256 ethAmount, uint256 ltv, uint16 slippageBps) external nonReentrant {
+        require(msg.sender == safe, "Only the Safe can increase its position");
+
+        UserPosition storage position = userPositions[safe];
+        require(position.safe != address(0), "No active strategy");
+        require(ethAmount > 0, "ETH amount must be > 0");
+        require(ltv > 0 && ltv <= MAX_LTV, "LTV must be <= 75%");
+
+        uint256 lpTokenId = position.lpTokenId;
+
+        // [1] Transfer the WETH from Safe to this contract and supply it on behalf of the Safe
+        IERC20(weth).transferFrom(safe, address(this), ethAmount);
+        IERC20(weth).approve(aavePool, ethAmount);
+        IAavePool(aavePool).supply(weth, ethAmount, safe, REFERRAL_CODE);
+
+        // [2] Borrow USDC at the LTV against the added ETH only
+        uint256 ethPriceInUsdc = _getEthPriceInUsdc();
+        uint256 usdcToBorrow = (((ethAmount * ethPriceInUsdc) / 1e18) * ltv) / 100;
+        IAavePool(aavePool).borrow(usdc, usdcToBorrow, INTEREST_RATE_MODE, REFERRAL_CODE, safe);
+
+        // [3] Add the borrowed USDC to the existing LP position, which stays in the Safe
+        uint128 liquidityAdded = _addLiquidity(safe, lpTokenId, usdcToBorrow, ethPriceInUsdc, slippageBps);
+
+        emit StrategyIncreased(safe, lpTokenId, ethAmount, usdcToBorrow, liquidityAdded);
+    }
+
+    /**
+     * @dev Bring the debt of an active strategy back to a target LTV of its collateral
+     * Below the target, borrows the difference and adds it to the LP position
+     * Above the target, pulls a share of the liquidity, swaps removed ETH for any USDC shortfall,
+     * repays the difference and supplies the remaining ETH as collateral
+     * @param safe The address of the user's Gnosis Safe wallet
+     * @param targetLtv The loan-to-value ratio to return to (as a percentage)
+     * @param lpPercentage Share of the liquidity to pull when repaying (1-99), worked out off-chain
+     * from the LP amounts, ignored when borrowing
+     * @param slippageBps Slippage tolerance in basis points (e.g., 50 = 0.5%)
+     */
+    function rebalancePosition(
+        address safe,
+        uint256 targetLtv,
+        uint256 lpPercentage,
+        uint16 slippageBps
+    ) external nonReentrant {
+        require(msg.sender == safe, "Only the Safe can rebalance its position");
+
+        UserPosition storage position = userPositions[safe];
+        require(position.safe != address(0), "No active strategy");
+        require(targetLtv > 0 && targetLtv <= MAX_LTV, "LTV must be <= 75%");
+
+        uint256 lpTokenId = position.lpTokenId;
+        uint256 usdcBorrowed = 0;
+        uint256 usdcRepaid = 0;
+
+        // [1] Work out the debt the target LTV allows against the current collateral
+        uint256 ethPriceInUsdc = _getEthPriceInUsdc();
+        uint256 ethCollateral = IAavePool(aavePool).getUserCollateral(safe, weth);
+        uint256 usdcDebt = IAavePool(aavePool).getUserDebt(safe, usdc, INTEREST_RATE_MODE);
+        uint256 targetDebt = (((ethCollateral * ethPriceInUsdc) / 1e18) * targetLtv) / 100;
+        require(usdcDebt != targetDebt, "Already at target LTV");
+
+        if (usdcDebt < targetDebt) {
+            // [2a] Borrow up to the target and add it to the LP position
+            usdcBorrowed = targetDebt - usdcDebt;
+            IAavePool(aavePool).borrow(usdc, usdcBorrowed, INTEREST_RATE_MODE, REFERRAL_CODE, safe);
+            _addLiquidity(safe, lpTokenId, usdcBorrowed, ethPriceInUsdc, slippageBps);
+        } else {
+            require(lpPercentage > 0 && lpPercentage < 100, "Percentage must be between 1 and 99");
+            // [2b] Pull liquidity and repay down to the target
+            usdcRepaid = _repayFromLiquidity(safe, lpTokenId, usdcDebt - targetDebt, lpPercentage, ethPriceInUsdc, slippageBps);
+        }
+
+        emit StrategyRebalanced(safe, lpTokenId, targetLtv, usdcBorrowed, usdcRepaid);
+    }
+
     /**
      * @dev Process fees collected from the LP position
      * @param safe The address of the user's Gnosis Safe wallet
@@ -559,6 +626,121 @@ contract LeveragedLPManager is IERC721Receiver, ReentrancyGuard, Ownable {
         delete userPositions[safe];
     }
 
+    /**
+     * @dev Reduce the strategy by a percentage without closing it
+     * Removes that share of the LP liquidity, repays the same share of the USDC debt and withdraws
+     * collateral in proportion to the debt actually repaid, so the position keeps its LTV
+     * The LP NFT goes back to the Safe and the position stays registered
+     * @param safe The address of the user's Gnosis Safe wallet
+     * @param percentage Share of the position to remove (1-99, use exitStrategy for 100)
+     * @param swapEthForDebt Whether to swap removed ETH for USDC when the removed USDC does not cover the debt share
+     * @param slippageBps Slippage tolerance of that swap in basis points (e.g., 50 = 0.5%)
+     */
+    function reducePosition(address safe, uint256 percentage, bool swapEthForDebt, uint16 slippageBps) external nonReentrant {
+        require(msg.sender == safe, "Only the Safe can reduce its position");
+        require(slippageBps <= 10000, "Slippage must be <= 100%");
+
+        UserPosition storage position = userPositions[safe];
+        require(position.safe != address(0), "No active strategy");
+        require(percentage > 0 && percentage < 100, "Percentage must be between 1 and 99");
+
+        uint256 lpTokenId = position.lpTokenId;
+        uint256 usdcRepaid = 0;
+
+        // [1] The Safe must have approved this contract to manage the LP NFT
+        IUniswapV4PositionManager(positionManager).safeTransferFrom(safe, address(this), lpTokenId);
+
+        // [2] Remove the chosen share of the liquidity
+        (address token0, , , , , , , , uint128 liquidity, , , , ) = IUniswapV4PositionManager(positionManager).positions(lpTokenId);
+        uint128 liquidityToRemove = uint128((uint256(liquidity) * percentage) / 100);
+
+        (uint256 amount0, uint256 amount1) = IUniswapV4PositionManager(positionManager).decreaseLiquidity(
+            lpTokenId,
+            liquidityToRemove,
+            0,  // Min USDC (we're unwinding, so accept any amount)
+            0,  // Min ETH (we're unwinding, so accept any amount)
+            block.timestamp + 15 minutes
+        );
+
+        // [3] Collect the removed tokens
+        (uint256 collected0, uint256 collected1) = IUniswapV4PositionManager(positionManager).collect(
+            lpTokenId,
+            address(this),
+            type(uint128).max,
+            type(uint128).max
+        );
+
+        uint256 collectedUsdc;
+        uint256 collectedEth;
+        if (token0 == usdc) {
+            collectedUsdc = amount0 + collected0;
+            collectedEth = amount1 + collected1;
+        } else {
+            collectedUsdc = amount1 + collected1;
+            collectedEth = amount0 + collected0;
+        }
+
+        // [4] Return the LP NFT with its remaining liquidity to the Safe
+        IUniswapV4PositionManager(positionManager).safeTransferFrom(address(this), safe, lpTokenId);
+
+        // [5] Repay the same share of the USDC debt
+        uint256 usdcDebt = IAavePool(aavePool).getUserDebt(safe, usdc, INTEREST_RATE_MODE);
+        uint256 debtShare = (usdcDebt * percentage) / 100;
+
+        // Half of the borrowed USDC was swapped to ETH at start, so the removed USDC usually
+        // covers only part of the share. Swap removed ETH for the shortfall, grossed up for the pool fee
+        if (swapEthForDebt && collectedUsdc < debtShare) {
+            uint256 ethPriceInUsdc = _getEthPriceInUsdc();
+            uint256 ethToSwap = ((debtShare - collectedUsdc) * 1e18 * 1e6) / ethPriceInUsdc / (1e6 - poolFee);
+            if (ethToSwap > collectedEth) {
+                ethToSwap = collectedEth;
+            }
+            if (ethToSwap > 0) {
+                uint256 expectedOutput = (ethToSwap * ethPriceInUsdc / 1e18) * (1e6 - poolFee) / 1e6;
+                IERC20(weth).approve(uniswapRouter, ethToSwap);
+                collectedUsdc += IUniswapV4Router(uniswapRouter).exactInputSingle(
+                    weth,
+                    usdc,
+                    poolFee,
+                    address(this),
+                    ethToSwap,
+                    expectedOutput - ((expectedOutput * slippageBps) / 10000),
+                    0   // No price limit
+                );
+            }
+        }
+
+        uint256 usdcToRepay = collectedUsdc < debtShare ? collectedUsdc : debtShare;
+
+        if (usdcToRepay > 0) {
+            IERC20(usdc).approve(aavePool, usdcToRepay);
+            usdcRepaid = IAavePool(aavePool).repay(usdc, usdcToRepay, INTEREST_RATE_MODE, safe);
+        }
+
+        uint256 usdcExcess = collectedUsdc - usdcRepaid;
+        if (usdcExcess > 1000) { // Small threshold to avoid dust transfers
+            IERC20(usdc).transfer(safe, usdcExcess);
+        }
+
+        // [6] Withdraw collateral matching the repaid debt, so the LTV does not rise
+        uint256 ethCollateral = IAavePool(aavePool).getUserCollateral(safe, weth);
+        uint256 ethToWithdraw = usdcDebt > 0
+            ? (ethCollateral * usdcRepaid) / usdcDebt
+            : (ethCollateral * percentage) / 100;
+        if (ethToWithdraw > 0) {
+            IAavePool(aavePool).withdraw(weth, ethToWithdraw, address(this));
+        }
+
+        // [7] Return the ETH from the LP and the withdrawn collateral to the Safe
+        uint256 ethReturned = IERC20(weth).balanceOf(address(this));
+        if (ethReturned > 1000) { // Small threshold to avoid dust transfers
+            IERC20(weth).transfer(safe, ethReturned);
+        }
+
+        // userPositions keeps the Safe and its LP NFT, which still holds the remaining liquidity
+        emit StrategyReduced(safe, lpTokenId, percentage, ethReturned, usdcRepaid);
+    }
+
     /**
      * @dev Get the user's position details
      * @param safe The address of the user's Gnosis Safe wallet
@@ -575,6 +757,202 @@ contract LeveragedLPManager is IERC721Receiver, ReentrancyGuard, Ownable {
         );
     }
 
+    /**
+     * @dev Pull a share of the liquidity and repay USDC debt with it, for rebalancePosition
+     * Removed ETH is swapped for any USDC shortfall, and what remains is supplied as collateral
+     * @param safe The Safe whose debt is repaid
+     * @param lpTokenId The position to pull the liquidity from
+     * @param usdcToRepay The debt to repay, less when the liquidity does not cover it
+     * @param lpPercentage Share of the liquidity to pull (1-99)
+     * @param ethPriceInUsdc The ETH price the swap is sized and protected with
+     * @param slippageBps Slippage tolerance in basis points
+     * @return usdcRepaid The USDC debt repaid
+     */
+    function _repayFromLiquidity(
+        address safe,
+        uint256 lpTokenId,
+        uint256 usdcToRepay,
+        uint256 lpPercentage,
+        uint256 ethPriceInUsdc,
+        uint16 slippageBps
+    ) internal returns (uint256 usdcRepaid) {
+        // [1] The Safe must have approved this contract to manage the LP NFT
+        IUniswapV4PositionManager(positionManager).safeTransferFrom(safe, address(this), lpTokenId);
+
+        (address token0, , , , , , , , uint128 liquidity, , , , ) = IUniswapV4PositionManager(positionManager).positions(lpTokenId);
+        (uint256 amount0, uint256 amount1) = IUniswapV4PositionManager(positionManager).decreaseLiquidity(
+            lpTokenId,
+            uint128((uint256(liquidity) * lpPercentage) / 100),
+            0,  // Min USDC, the swap below is slippage protected
+            0,  // Min ETH
+            block.timestamp + 15 minutes
+        );
+        (uint256 collected0, uint256 collected1) = IUniswapV4PositionManager(positionManager).collect(
+            lpTokenId,
+            address(this),
+            type(uint128).max,
+            type(uint128).max
+        );
+
+        uint256 collectedUsdc;
+        uint256 collectedEth;
+        if (token0 == usdc) {
+            collectedUsdc = amount0 + collected0;
+            collectedEth = amount1 + collected1;
+        } else {
+            collectedUsdc = amount1 + collected1;
+            collectedEth = amount0 + collected0;
+        }
+
+        IUniswapV4PositionManager(positionManager).safeTransferFrom(address(this), safe, lpTokenId);
+
+        // [2] Swap removed ETH for the USDC shortfall, grossed up for the pool fee
+        if (collectedUsdc < usdcToRepay) {
+            uint256 shortfall = usdcToRepay - collectedUsdc;
+            uint256 ethToSwap = (shortfall * 1e18 * 1e6) / ethPriceInUsdc / (1e6 - poolFee);
+            if (ethToSwap > collectedEth) {
+                ethToSwap = collectedEth;
+            }
+            if (ethToSwap > 0) {
+                uint256 expectedOutput = (ethToSwap * ethPriceInUsdc / 1e18) * (1e6 - poolFee) / 1e6;
+                IERC20(weth).approve(uniswapRouter, ethToSwap);
+                collectedUsdc += IUniswapV4Router(uniswapRouter).exactInputSingle(
+                    weth,
+                    usdc,
+                    poolFee,
+                    address(this),
+                    ethToSwap,
+                    expectedOutput - ((expectedOutput * slippageBps) / 10000),
+                    0  // No price limit
+                );
+                collectedEth -= ethToSwap;
+            }
+        }
+
+        // [3] Repay down to the target, the LP may not cover all of it
+        if (collectedUsdc < usdcToRepay) {
+            usdcToRepay = collectedUsdc;
+        }
+        if (usdcToRepay > 0) {
+            IERC20(usdc).approve(aavePool, usdcToRepay);
+            usdcRepaid = IAavePool(aavePool).repay(usdc, usdcToRepay, INTEREST_RATE_MODE, safe);
+        }
+
+        uint256 usdcExcess = collectedUsdc - usdcRepaid;
+        if (usdcExcess > 1000) { // Small threshold to avoid dust transfers
+            IERC20(usdc).transfer(safe, usdcExcess);
+        }
+
+        // [4] Keep the value in the position by supplying the remaining ETH as collateral
+        if (collectedEth > 0) {
+            IERC20(weth).approve(aavePool, collectedEth);
+            IAavePool(aavePool).supply(weth, collectedEth, safe, REFERRAL_CODE);
+        }
+    }
+
+    /**
+     * @dev Swap half of the USDC in this contract to ETH and add both to an existing LP position
+     * The LP NFT stays in the Safe, increasing liquidity does not need its approval
+     * @param safe The Safe that receives unused tokens
+     * @param lpTokenId The position to add the liquidity to
+     * @param usdcAmount The USDC to put into the position, already held by this contract
+     * @param ethPriceInUsdc The ETH price the swap's minimum output is based on
+     * @param slippageBps Slippage tolerance in basis points
+     * @return The liquidity added to the position
+     */
+    function _addLiquidity(
+        address safe,
+        uint256 lpTokenId,
+        uint256 usdcAmount,
+        uint256 ethPriceInUsdc,
+        uint16 slippageBps
+    ) internal returns (uint128) {
+        // Split USDC: 50% for LP, 50% to swap for more ETH
+        uint256 usdcForLp = usdcAmount / 2;
+        uint256 usdcToSwap = usdcAmount - usdcForLp;
+
+        uint256 expectedOutput = (usdcToSwap * 1e18) / ethPriceInUsdc;
+        uint256 amountOutMinimum = expectedOutput - ((expectedOutput * slippageBps) / 10000);
+
+        IERC20(usdc).approve(uniswapRouter, usdcToSwap);
+        uint256 ethFromSwap = IUniswapV4Router(uniswapRouter).exactInputSingle(
+            usdc,
+            weth,
+            poolFee,
+            address(this),
+            usdcToSwap,
+            amountOutMinimum,  // Minimum ETH to receive with slippage protection
+            0  // No price limit
+        );
+
+        // Add both tokens to the existing position
+        (address token0, , , , , , , , , , , , ) = IUniswapV4PositionManager(positionManager).positions(lpTokenId);
+        bool usdcIsToken0 = token0 == usdc;
+
+        IERC20(usdc).approve(positionManager, usdcForLp);
+        IERC20(weth).approve(positionManager, ethFromSwap);
+
+        (uint128 liquidity, uint256 amount0, uint256 amount1) = IUniswapV4PositionManager(positionManager).increaseLiquidity(
+            lpTokenId,
+            usdcIsToken0 ? usdcForLp : ethFromSwap,
+            usdcIsToken0 ? ethFromSwap : usdcForLp,
+            (usdcIsToken0 ? usdcForLp : ethFromSwap) * (10000 - slippageBps) / 10000,
+            (usdcIsToken0 ? ethFromSwap : usdcForLp) * (10000 - slippageBps) / 10000,
+            block.timestamp + 15 minutes
+        );
+
+        // Return any unused tokens to the Safe
+        uint256 remainingUsdc = usdcForLp - (usdcIsToken0 ? amount0 : amount1);
+        uint256 remainingEth = ethFromSwap - (usdcIsToken0 ? amount1 : amount0);
+
+        if (remainingUsdc > 1000) { // Small threshold to avoid dust transfers
+            IERC20(usdc).transfer(safe, remainingUsdc);
+        }
+
+        if (remainingEth > 1000) { // Small threshold to avoid dust transfers
+            IERC20(weth).transfer(safe, remainingEth);
+        }
+
+        return liquidity;
+    }
+
+    /**
+     * @dev Read the ETH/USD price from Chainlink in USDC terms
+     * @return The price of 1 ETH in USDC units (6 decimals)
+     */
+    function _getEthPriceInUsdc() internal view returns (uint256) {
+        // Get ETH price in USD terms using Chainlink Price Feed
+        AggregatorV3Interface priceFeed = AggregatorV3Interface(ETH_USD_PRICE_FEED);
+
+        // Get the latest price data from Chainlink
+        (
+            /* uint80 roundID */,
+            int256 price,
+            /* uint startedAt */,
+            /* uint timeStamp */,
+            /* uint80 answeredInRound */
+        ) = priceFeed.latestRoundData();
+
+        // Ensure the price is positive
+        require(price > 0, "Invalid ETH price");
+
+        // Get the number of decimals in the price feed
+        uint8 decimals = priceFeed.decimals();
+
+        // Convert the price to USDC terms (6 decimals)
+        // Chainlink typically returns price with 8 decimals, so we need to adjust
+        uint256 ethPriceInUsd = uint256(price);
+
+        // If decimals is not 6 (USDC decimals), adjust the price
+        if (decimals > 6) {
+            ethPriceInUsd = ethPriceInUsd / (10 ** (decimals - 6));
+        } else if (decimals < 6) {
+            ethPriceInUsd = ethPriceInUsd * (10 ** (6 - decimals));
+        }
+
+        return ethPriceInUsd;
+    }
+
     // Events for protocol fee changes
     event ProtocolFeeUpdated(uint8 oldFeeBps, uint8 newFeeBps);
 
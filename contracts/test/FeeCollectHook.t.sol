@@ -266,6 +266,45 @@ contract FeeCollectHookTest is Test {
         assertEq(manager.lastSafe(), safeWallet);
     }
     
+    function testCollectFees() public {
+        // The Safe harvests without any trades
+        vm.expectEmit(true, false, false, true);
+        emit FeesCollected(lpTokenId, 10, 5, 0);
+        
+        vm.startPrank(safeWallet);
+        hook.collectFees(lpTokenId);
+        vm.stopPrank();
+        
+        // The fees go through the same processing as the automatic sweep
+        assertEq(hook.tradeCounts(lpTokenId), 0);
+        assertTrue(manager.feesProcessed());
+        assertEq(manager.lastSafe(), safeWallet);
+        assertEq(manager.lastUsdcAmount(), 10);
+        assertEq(manager.lastEthAmount(), 5);
+    }
+    
+    function testCollectFeesByOwner() public {
+        vm.startPrank(owner);
+        hook.collectFees(lpTokenId);
+        vm.stopPrank();
+        
+        assertTrue(manager.feesProcessed());
+    }
+    
+    function testCollectFeesUnauthorized() public {
+        address stranger = makeAddr("stranger");
+        
+        vm.startPrank(stranger);
+        vm.expectRevert("Only the Safe or owner can collect fees");
+        hook.collectFees(lpTokenId);
+        vm.stopPrank();
+    }
+    
+    function testCollectFeesUnmanagedToken() public {
+        vm.expectRevert("LP token not managed");
+        hook.collectFees(999);
+    }
+    
     function testPoolAuthorization() public {
         address newPool = makeAddr("newPool");
         
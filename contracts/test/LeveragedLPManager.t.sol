@@ -47,11 +47,15 @@ contract MockAavePool {
     }
     
     function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf) external {
-        // Mock implementation
+        userDebts[onBehalfOf][asset] += amount;
     }
     
     function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) external returns (uint256) {
-        return amount; // Mock return value
+        // Like Aave, repay no more than the debt
+        uint256 debt = userDebts[onBehalfOf][asset];
+        uint256 repaid = amount < debt ? amount : debt;
+        userDebts[onBehalfOf][asset] = debt - repaid;
+        return repaid;
     }
     
     function withdraw(address asset, uint256 amount, address to) external returns (uint256) {
@@ -129,6 +133,21 @@ contract MockPositionManager {
         return (tokenId, liquidity, amount0, amount1);
     }
     
+    function increaseLiquidity(
+        uint256 tokenId,
+        uint256 amount0Desired,
+        uint256 amount1Desired,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        uint256 deadline
+    ) external returns (uint128 liquidity, uint256 amount0, uint256 amount1) {
+        liquidity = 500;
+        positionLiquidity[tokenId] = _liquidityOf(tokenId) + liquidity;
+        amount0 = amount0Desired - 10; // Mock some slippage
+        amount1 = amount1Desired - 5;  // Mock some slippage
+        return (liquidity, amount0, amount1);
+    }
+    
     function safeTransferFrom(address from, address to, uint256 tokenId) external {
         ownerOf[tokenId] = to;
     }
@@ -151,6 +170,7 @@ contract MockPositionManager {
         uint256 amount1Min,
         uint256 deadline
     ) external returns (uint256 amount0, uint256 amount1) {
+        positionLiquidity[tokenId] = _liquidityOf(tokenId) - liquidity;
         amount0 = 90; // Mock USDC returned
         amount1 = 45; // Mock ETH returned
         return (amount0, amount1);
@@ -184,7 +204,7 @@ contract MockPositionManager {
         tickCurrent = 0;
         feeGrowthInside0LastX128 = 0;
         feeGrowthInside1LastX128 = 0;
-        liquidity = positionLiquidity[tokenId] > 0 ? positionLiquidity[tokenId] : 1000; // Default or stored value
+        liquidity = _liquidityOf(tokenId);
         feeGrowthOutside0X128 = 0;
         feeGrowthOutside1X128 = 0;
         tokensOwed0 = 0;
@@ -195,6 +215,10 @@ contract MockPositionManager {
     function setPositionLiquidity(uint256 tokenId, uint128 liquidity) external {
         positionLiquidity[tokenId] = liquidity;
     }
+    
+    function _liquidityOf(uint256 tokenId) internal view returns (uint128) {
+        return positionLiquidity[tokenId] > 0 ? positionLiquidity[tokenId] : 1000; // Default or stored value
+    }
 }
 
 contract LeveragedLPManagerTest is Test {
@@ -207,16 +231,21 @@ contract LeveragedLPManagerTest is Test {
     MockToken public weth;
     
     address public safeWallet;
+    address public priceFeed;
     uint256 public constant ETH_AMOUNT = 1 ether;
     uint256 public constant LTV = 50; // 50% LTV
     uint256 public constant USDC_BORROW_AMOUNT = ETH_AMOUNT * LTV / 100;
     uint16 constant SLIPPAGE_BPS = 50; // 0.5% slippage
     uint24 public constant POOL_FEE = 3000; // 0.3%
+    int256 public constant ETH_PRICE = 2000e8; // $2000 with the 8 decimals of the Chainlink feed
     
     // Events for testing
     event StrategyStarted(address indexed safe, uint256 indexed lpTokenId, uint256 ethSupplied, uint256 usdcBorrowed);
     event FeesProcessed(address indexed safe, uint256 indexed lpTokenId, uint256 usdcRepaid, uint256 ethAdded);
     event StrategyExited(address indexed safe, uint256 indexed lpTokenId, uint256 ethReturned, uint256 usdcRepaid);
+    event StrategyIncreased(address indexed safe, uint256 indexed lpTokenId, uint256 ethSupplied, uint256 usdcBorrowed, uint128 liquidityAdded);
+    event StrategyRebalanced(address indexed safe, uint256 indexed lpTokenId, uint256 targetLtv, uint256 usdcBorrowed, uint256 usdcRepaid);
+    event StrategyReduced(address indexed safe, uint256 indexed lpTokenId, uint256 percentage, uint256 ethReturned, uint256 usdcRepaid);
     
     function setUp() public {
         // Deploy mock contracts
@@ -226,6 +255,8 @@ contract LeveragedLPManagerTest is Test {
         usdc = new MockToken();
         weth = new MockToken();
         
+        priceFeed = makeAddr("ethUsdPriceFeed");
+        
         // Create a mock Safe wallet
         safeWallet = makeAddr("safeWallet");
         
@@ -241,7 +272,8 @@ contract LeveragedLPManagerTest is Test {
             address(weth),
             address(0), // Will be set after hook deployment
             address(uniswapRouter),
-            POOL_FEE
+            POOL_FEE,
+            priceFeed
         );
         
         // Deploy the hook contract
@@ -265,8 +297,31 @@ contract LeveragedLPManagerTest is Test {
             address(weth),
             address(hook),
             address(uniswapRouter),
-            POOL_FEE
+            POOL_FEE,
+            priceFeed
+        );
+        
+        // Give the Chainlink feed code and a price
+        vm.etch(priceFeed, hex"00");
+        vm.mockCall(
+            priceFeed,
+            abi.encodeWithSignature("latestRoundData()"),
+            abi.encode(uint80(1), ETH_PRICE, block.timestamp, block.timestamp, uint80(1))
         );
+        vm.mockCall(priceFeed, abi.encodeWithSignature("decimals()"), abi.encode(uint8(8)));
+    }
+    
+    /**
+     * @dev Register a position for the Safe as startStrategy would, its mint step is commented out
+     * so the test writes userPositions (storage slot 2) directly
+     * @return lpTokenId The LP NFT of the position, held by the Safe
+     */
+    function _openPosition() internal returns (uint256 lpTokenId) {
+        lpTokenId = 1;
+        bytes32 slot = keccak256(abi.encode(safeWallet, uint256(2)));
+        vm.store(address(manager), slot, bytes32(uint256(uint160(safeWallet))));
+        vm.store(address(manager), bytes32(uint256(slot) + 1), bytes32(lpTokenId));
+        positionManager.safeTransferFrom(address(0), safeWallet, lpTokenId);
     }
     
     function testStartStrategy() public {
@@ -505,6 +560,214 @@ contract LeveragedLPManagerTest is Test {
         assertEq(manager.lpTokenToSafe(lpTokenId), address(0), "LP token mapping should be cleared");
     }
     
+    function testIncreasePosition() public {
+        // First start a strategy
+        testStartStrategy();
+        
+        (,uint256 lpTokenId) = manager.userPositions(safeWallet);
+        
+        vm.startPrank(safeWallet);
+        weth.approve(address(manager), ETH_AMOUNT);
+        vm.stopPrank();
+        
+        // The added liquidity goes into the existing LP NFT
+        vm.expectEmit(true, true, false, true);
+        emit StrategyIncreased(safeWallet, lpTokenId, ETH_AMOUNT, USDC_BORROW_AMOUNT, 500);
+        vm.prank(safeWallet);
+        manager.increasePosition(safeWallet, ETH_AMOUNT, LTV, SLIPPAGE_BPS);
+        
+        // The position keeps the same LP NFT
+        (address positionSafe, uint256 positionTokenId) = manager.userPositions(safeWallet);
+        assertEq(positionSafe, safeWallet, "Position should stay active");
+        assertEq(positionTokenId, lpTokenId, "LP token ID should not change");
+    }
+    
+    function testIncreasePositionInvalidLTV() public {
+        // First start a strategy
+        testStartStrategy();
+        
+        vm.prank(safeWallet);
+        vm.expectRevert("LTV must be <= 75%");
+        manager.increasePosition(safeWallet, ETH_AMOUNT, 80, SLIPPAGE_BPS);
+    }
+    
+    function testIncreasePositionNonExistent() public {
+        address noStrategySafe = makeAddr("noStrategySafe");
+        
+        vm.prank(noStrategySafe);
+        vm.expectRevert("No active strategy");
+        manager.increasePosition(noStrategySafe, ETH_AMOUNT, LTV, SLIPPAGE_BPS);
+    }
+    
+    function testIncreasePositionNotSafe() public {
+        // The Safe approved the manager, which must not let anyone else borrow against it
+        vm.prank(safeWallet);
+        weth.approve(address(manager), ETH_AMOUNT);
+        
+        address attacker = makeAddr("attacker");
+        
+        vm.startPrank(attacker);
+        vm.expectRevert("Only the Safe can increase its position");
+        manager.increasePosition(safeWallet, ETH_AMOUNT, LTV, SLIPPAGE_BPS);
+        vm.stopPrank();
+    }
+    
+    function testRebalancePositionRepay() public {
+        uint256 lpTokenId = _openPosition();
+        
+        // 600 USDC of debt against 1 ETH at $2000 is a 30% LTV
+        aavePool.setUserCollateral(safeWallet, address(weth), ETH_AMOUNT);
+        aavePool.setUserDebt(safeWallet, address(usdc), 600e6);
+        
+        // Rebalancing to a lower LTV pulls half of the liquidity and repays what it returned:
+        // 45 + 5 USDC from the mock position manager and 50 more from swapping its 100 wei of ETH
+        vm.expectEmit(true, true, false, true);
+        emit StrategyRebalanced(safeWallet, lpTokenId, 10, 0, 100);
+        vm.prank(safeWallet);
+        manager.rebalancePosition(safeWallet, 10, 50, SLIPPAGE_BPS);
+        
+        (, , , , , , , , uint128 liquidity, , , , ) = positionManager.positions(lpTokenId);
+        assertEq(liquidity, 500, "Half of the liquidity should be pulled");
+        assertEq(aavePool.getUserDebt(safeWallet, address(usdc), 2), 600e6 - 100, "Debt should drop by the repaid USDC");
+        assertEq(positionManager.ownerOf(lpTokenId), safeWallet, "LP NFT should be back in the Safe");
+    }
+    
+    function testRebalancePositionBorrow() public {
+        uint256 lpTokenId = _openPosition();
+        
+        // 200 USDC of debt against 1 ETH at $2000 is a 10% LTV
+        aavePool.setUserCollateral(safeWallet, address(weth), ETH_AMOUNT);
+        aavePool.setUserDebt(safeWallet, address(usdc), 200e6);
+        positionManager.setPositionLiquidity(lpTokenId, 1000);
+        
+        // Rebalancing to 30% borrows the 400 USDC up to 600 and adds them to the LP position
+        vm.expectEmit(true, true, false, true);
+        emit StrategyRebalanced(safeWallet, lpTokenId, 30, 400e6, 0);
+        vm.prank(safeWallet);
+        manager.rebalancePosition(safeWallet, 30, 0, SLIPPAGE_BPS);
+        
+        (, , , , , , , , uint128 liquidity, , , , ) = positionManager.positions(lpTokenId);
+        assertEq(liquidity, 1500, "The borrowed USDC should be added as liquidity");
+        assertEq(aavePool.getUserDebt(safeWallet, address(usdc), 2), 600e6, "Debt should reach the target");
+        assertEq(positionManager.ownerOf(lpTokenId), safeWallet, "LP NFT should stay in the Safe");
+    }
+    
+    function testRebalancePositionInvalidPercentage() public {
+        // First start a strategy
+        testStartStrategy();
+        
+        aavePool.setUserCollateral(safeWallet, address(weth), ETH_AMOUNT);
+        aavePool.setUserDebt(safeWallet, address(usdc), USDC_BORROW_AMOUNT);
+        
+        // Repaying needs a share of the liquidity to pull
+        vm.prank(safeWallet);
+        vm.expectRevert("Percentage must be between 1 and 99");
+        manager.rebalancePosition(safeWallet, 10, 0, SLIPPAGE_BPS);
+    }
+    
+    function testRebalancePositionInvalidLTV() public {
+        // First start a strategy
+        testStartStrategy();
+        
+        vm.prank(safeWallet);
+        vm.expectRevert("LTV must be <= 75%");
+        manager.rebalancePosition(safeWallet, 80, 50, SLIPPAGE_BPS);
+    }
+    
+    function testRebalancePositionNonExistent() public {
+        address noStrategySafe = makeAddr("noStrategySafe");
+        
+        vm.prank(noStrategySafe);
+        vm.expectRevert("No active strategy");
+        manager.rebalancePosition(noStrategySafe, LTV, 50, SLIPPAGE_BPS);
+    }
+    
+    function testRebalancePositionNotSafe() public {
+        address attacker = makeAddr("attacker");
+        
+        vm.startPrank(attacker);
+        vm.expectRevert("Only the Safe can rebalance its position");
+        manager.rebalancePosition(safeWallet, LTV, 50, SLIPPAGE_BPS);
+        vm.stopPrank();
+    }
+    
+    function testReducePosition() public {
+        // First start a strategy
+        testStartStrategy();
+        
+        (,uint256 lpTokenId) = manager.userPositions(safeWallet);
+        positionManager.setPositionLiquidity(lpTokenId, 1000);
+        aavePool.setUserCollateral(safeWallet, address(weth), ETH_AMOUNT);
+        aavePool.setUserDebt(safeWallet, address(usdc), USDC_BORROW_AMOUNT);
+        
+        // The mock position manager returns 45 + 5 USDC as token1, all of it goes to the 25% debt share
+        vm.expectEmit(true, true, false, false);
+        emit StrategyReduced(safeWallet, lpTokenId, 25, 0, 50);
+        vm.prank(safeWallet);
+        manager.reducePosition(safeWallet, 25, false, SLIPPAGE_BPS);
+        
+        // The position stays registered with the same LP NFT
+        (address positionSafe, uint256 positionTokenId) = manager.userPositions(safeWallet);
+        assertEq(positionSafe, safeWallet, "Position should stay active");
+        assertEq(positionTokenId, lpTokenId, "LP token ID should not change");
+        assertEq(manager.lpTokenToSafe(lpTokenId), safeWallet, "LP token mapping should be kept");
+        assertEq(positionManager.ownerOf(lpTokenId), safeWallet, "LP NFT should be back in the Safe");
+    }
+    
+    function testReducePositionSwapEthForDebt() public {
+        // First start a strategy
+        testStartStrategy();
+        
+        (,uint256 lpTokenId) = manager.userPositions(safeWallet);
+        positionManager.setPositionLiquidity(lpTokenId, 1000);
+        aavePool.setUserCollateral(safeWallet, address(weth), ETH_AMOUNT);
+        aavePool.setUserDebt(safeWallet, address(usdc), USDC_BORROW_AMOUNT);
+        
+        // The 50 collected USDC fall short of the debt share, so the removed ETH is swapped as well
+        vm.prank(safeWallet);
+        manager.reducePosition(safeWallet, 50, true, SLIPPAGE_BPS);
+        
+        (address positionSafe,) = manager.userPositions(safeWallet);
+        assertEq(positionSafe, safeWallet, "Position should stay active");
+    }
+    
+    function testReducePositionInvalidPercentage() public {
+        // First start a strategy
+        testStartStrategy();
+        
+        vm.startPrank(safeWallet);
+        vm.expectRevert("Percentage must be between 1 and 99");
+        manager.reducePosition(safeWallet, 0, false, SLIPPAGE_BPS);
+        
+        // A full reduction goes through exitStrategy
+        vm.expectRevert("Percentage must be between 1 and 99");
+        manager.reducePosition(safeWallet, 100, false, SLIPPAGE_BPS);
+        vm.stopPrank();
+    }
+    
+    function testReducePositionInvalidSlippage() public {
+        vm.prank(safeWallet);
+        vm.expectRevert("Slippage must be <= 100%");
+        manager.reducePosition(safeWallet, 25, true, 10001);
+    }
+    
+    function testReducePositionNonExistent() public {
+        address noStrategySafe = makeAddr("noStrategySafe");
+        
+        vm.prank(noStrategySafe);
+        vm.expectRevert("No active strategy");
+        manager.reducePosition(noStrategySafe, 25, false, SLIPPAGE_BPS);
+    }
+    
+    function testReducePositionNotSafe() public {
+        address attacker = makeAddr("attacker");
+        
+        vm.startPrank(attacker);
+        vm.expectRevert("Only the Safe can reduce its position");
+        manager.reducePosition(safeWallet, 25, true, 10000);
+        vm.stopPrank();
+    }
+    
     function testGetUserPosition() public {
         // First start a strategy
         testStartStrategy();
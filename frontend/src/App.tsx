@@ -1,5 +1,9 @@
 import React from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { WagmiProvider } from 'wagmi';
+import { wagmiConfig } from './constants/wagmi';
+import NotificationProvider from './contexts/NotificationContext';
 import WalletProvider from './contexts/WalletContext';
 import Layout from './components/Layout';
 import Home from './pages/Home';
@@ -7,23 +11,37 @@ import Funding from './pages/Funding';
 import Strategy from './pages/Strategy';
 import Dashboard from './pages/Dashboard';
 import Exit from './pages/Exit';
+import Watch from './pages/Watch';
+import Approvals from './pages/Approvals';
 import './App.css';
 
+// wagmi keeps its connection and chain queries in React Query
+const queryClient = new QueryClient();
+
 const App: React.FC = () => {
   return (
-    <WalletProvider>
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Layout />}>
-            <Route index element={<Home />} />
-            <Route path="funding" element={<Funding />} />
-            <Route path="strategy" element={<Strategy />} />
-            <Route path="dashboard" element={<Dashboard />} />
-            <Route path="exit" element={<Exit />} />
-          </Route>
-        </Routes>
-      </BrowserRouter>
-    </WalletProvider>
+    <WagmiProvider config={wagmiConfig}>
+      <QueryClientProvider client={queryClient}>
+        <NotificationProvider>
+          <WalletProvider>
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Layout />}>
+                  <Route index element={<Home />} />
+                  <Route path="funding" element={<Funding />} />
+                  <Route path="strategy" element={<Strategy />} />
+                  <Route path="dashboard" element={<Dashboard />} />
+                  <Route path="exit" element={<Exit />} />
+                  <Route path="approvals" element={<Approvals />} />
+                  <Route path="watch" element={<Watch />} />
+                  <Route path="watch/:safe" element={<Watch />} />
+                </Route>
+              </Routes>
+            </BrowserRouter>
+          </WalletProvider>
+        </NotificationProvider>
+      </QueryClientProvider>
+    </WagmiProvider>
   );
 };
 
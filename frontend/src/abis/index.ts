@@ -1,11 +1,27 @@
+import { feeCollectHookAbi, leveragedLPManagerAbi } from '../generated/deployments';
+
 export const ABIs = {
-  // LeveragedLPManager ABI - our main contract
-  LeveragedLPManager: [
-    'function startStrategy(address safe, uint256 ethAmount, uint256 ltv, uint16 slippageBps) external',
-    'function getUserPosition(address safe) external view returns (address safe, uint256 lpTokenId)',
-    'function owner() external view returns (address)',
-    'function protocolFeeBps() external view returns (uint8)',
-    'function feeHook() external view returns (address)',
+  // LeveragedLPManager ABI - our main contract, generated from the Foundry artifact
+  LeveragedLPManager: leveragedLPManagerAbi,
+
+  // FeeCollectHook ABI - Uniswap V4 hook that sweeps fees every 10th trade, generated from the Foundry artifact
+  FeeCollectHook: feeCollectHookAbi,
+
+  // Uniswap V4 Position Manager ABI (LP NFT approvals and position details)
+  PositionManager: [
+    'function ownerOf(uint256 tokenId) external view returns (address)',
+    'function getApproved(uint256 tokenId) external view returns (address)',
+    'function isApprovedForAll(address owner, address operator) external view returns (bool)',
+    'function approve(address to, uint256 tokenId) external',
+    'function setApprovalForAll(address operator, bool approved) external',
+    'function positions(uint256 tokenId) external view returns (address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, int24 tickCurrent, uint128 feeGrowthInside0LastX128, uint128 feeGrowthInside1LastX128, uint128 liquidity, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, uint256 tokensOwed0, uint256 tokensOwed1)',
+  ],
+
+  // Safe ABI (owner checks)
+  Safe: [
+    'function getOwners() external view returns (address[])',
+    'function isOwner(address owner) external view returns (bool)',
+    'function nonce() external view returns (uint256)',
   ],
 
   // WETH token ABI
@@ -32,8 +48,36 @@ export const ABIs = {
   // Aave V3 Data Provider ABI
   AaveDataProvider: [
     'function getReserveTokensAddresses(address asset) external view returns (address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)',
+    'function getUserReserveData(address asset, address user) external view returns (uint256 currentATokenBalance, uint256 currentStableDebt, uint256 currentVariableDebt, uint256 principalStableDebt, uint256 scaledVariableDebt, uint256 stableBorrowRate, uint256 liquidityRate, uint40 stableRateLastUpdated, bool usageAsCollateralEnabled)',
+    'function getReserveConfigurationData(address asset) external view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)',
+  ],
+
+  // Aave V3 Pool ABI (oracle lookup, account health and borrow rates)
+  AavePool: [
+    'function ADDRESSES_PROVIDER() external view returns (address)',
+    'function getUserAccountData(address user) external view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
+    // ReserveData is a struct of static fields, so it decodes the same as these flat outputs
+    'function getReserveData(address asset) external view returns (uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt)',
+  ],
+
+  // Aave V3 PoolAddressesProvider ABI
+  AaveAddressesProvider: ['function getPriceOracle() external view returns (address)'],
+
+  // Aave V3 Oracle ABI
+  AaveOracle: [
+    'function getAssetPrice(address asset) external view returns (uint256)',
+    'function BASE_CURRENCY_UNIT() external view returns (uint256)',
+  ],
+
+  // Chainlink AggregatorV3 ABI (ETH/USD feed used by LeveragedLPManager)
+  ChainlinkAggregator: [
+    'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+    'function decimals() external view returns (uint8)',
   ],
 
   // Aave V3 Debt Token ABI
-  AaveDebtToken: ['function approveDelegation(address delegatee, uint256 amount) external'],
-};
+  AaveDebtToken: [
+    'function approveDelegation(address delegatee, uint256 amount) external',
+    'function borrowAllowance(address fromUser, address toUser) external view returns (uint256)',
+  ],
+} as const;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { utils } from 'ethers';
+import type { PreparedSafeBatch } from '../utils/safeBatch';
+import { shortenAddress } from '../utils/address';
+
+interface BatchReviewProps {
+  batch: PreparedSafeBatch;
+  isProcessing: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const BatchReview: React.FC<BatchReviewProps> = ({ batch, isProcessing, onConfirm, onCancel }) => {
+  return (
+    <div className="bg-white p-4 rounded-md border border-gray-200 mb-4">
+      <h3 className="font-medium text-black mb-2">Review transaction</h3>
+      <p className="text-sm text-black mb-3">
+        {batch.calls.length > 1
+          ? `These ${batch.calls.length} calls run atomically in one Safe transaction. You sign once.`
+          : 'This call runs as one Safe transaction.'}
+      </p>
+
+      <ol className="list-decimal pl-5 text-black space-y-3 mb-4">
+        {batch.calls.map((call, index) => (
+          <li key={index}>
+            <div className="font-medium">{call.label}</div>
+            <div className="text-sm font-mono break-all">
+              {call.method} @ {shortenAddress(call.to)}
+              {call.value !== '0' && ` (value ${utils.formatEther(call.value)} ETH)`}
+            </div>
+            <ul className="text-xs font-mono text-gray-600 break-all">
+              {call.args.map(arg => (
+                <li key={arg.name}>
+                  {arg.name}: {arg.value}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex gap-3">
+        <button
+          onClick={onConfirm}
+          disabled={isProcessing}
+          className="flex-1 px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          {isProcessing ? 'Processing...' : 'Sign & Execute'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isProcessing}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchReview;
@@ -1,17 +1,66 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useWallet } from '../contexts/WalletContext';
 import { shortenAddress } from '../utils/address';
 
 const ConnectButton: React.FC = () => {
-  const { isConnected, isConnecting, safeAddress, connect, disconnect } = useWallet();
+  const {
+    isConnected,
+    isConnecting,
+    isLoading,
+    safeAddress,
+    availableSafes,
+    connectors,
+    connect,
+    switchSafe,
+    disconnect,
+  } = useWallet();
+
+  const [switchError, setSwitchError] = useState<string | null>(null);
+  const [isPickingWallet, setIsPickingWallet] = useState(false);
+
+  const handleConnect = async (connectorId: string) => {
+    setIsPickingWallet(false);
+    await connect(connectorId);
+  };
+
+  // Switching fails when the connected account is not an owner of the picked Safe
+  const handleSwitchSafe = async (address: string) => {
+    setSwitchError(null);
+    try {
+      await switchSafe(address);
+    } catch (error) {
+      setSwitchError(error instanceof Error ? error.message : 'Failed to open Safe');
+    }
+  };
 
   return (
     <div className="flex items-center">
-      {isConnected && safeAddress ? (
+      {isConnected && (safeAddress || availableSafes.length > 0) ? (
         <div className="flex items-center gap-2">
-          <span className="px-3 py-1 text-sm bg-green-100 text-green-800 rounded-full">
-            {shortenAddress(safeAddress)}
-          </span>
+          {availableSafes.length > 1 || !safeAddress ? (
+            <select
+              value={safeAddress}
+              onChange={e => handleSwitchSafe(e.target.value)}
+              disabled={isLoading}
+              className="px-3 py-1 text-sm bg-green-100 text-green-800 rounded-full border-none"
+            >
+              {!safeAddress && <option value="">Select Safe</option>}
+              {availableSafes.map(address => (
+                <option key={address} value={address}>
+                  {shortenAddress(address)}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className="px-3 py-1 text-sm bg-green-100 text-green-800 rounded-full">
+              {shortenAddress(safeAddress)}
+            </span>
+          )}
+          {switchError && (
+            <span className="text-sm text-red-600" title={switchError}>
+              Could not open Safe
+            </span>
+          )}
           <button
             onClick={disconnect}
             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
@@ -20,13 +69,28 @@ const ConnectButton: React.FC = () => {
           </button>
         </div>
       ) : (
-        <button
-          onClick={connect}
-          disabled={isConnecting}
-          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
-        >
-          {isConnecting ? 'Connecting...' : 'Connect Safe Wallet'}
-        </button>
+        <div className="relative">
+          <button
+            onClick={() => setIsPickingWallet(open => !open)}
+            disabled={isConnecting}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {isConnecting ? 'Connecting...' : 'Connect Safe Wallet'}
+          </button>
+          {isPickingWallet && (
+            <div className="absolute right-0 z-30 mt-2 w-56 bg-white border border-gray-200 rounded-md shadow">
+              {connectors.map(connector => (
+                <button
+                  key={connector.id}
+                  onClick={() => handleConnect(connector.id)}
+                  className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  {connector.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
       )}
     </div>
   );
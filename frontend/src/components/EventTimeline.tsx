@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useWallet } from '../contexts/WalletContext';
+import { getExplorerTxUrl } from '../constants/chains';
+import { formatEthBalance, formatUsdcBalance, shortenAddress } from '../utils/address';
+import type { StrategyEvent } from '../types';
+
+const PAGE_SIZE = 10;
+
+// How often new blocks are indexed while the Dashboard is open
+const SYNC_INTERVAL_MS = 30_000;
+
+const EVENT_STYLES: Record<StrategyEvent['kind'], { border: string; label: string }> = {
+  StrategyStarted: { border: 'border-blue-500', label: 'Strategy Started' },
+  FeesCollected: { border: 'border-green-500', label: 'Fee Collection' },
+  FeesProcessed: { border: 'border-purple-500', label: 'Fees Processed' },
+  StrategyIncreased: { border: 'border-blue-300', label: 'Position Increased' },
+  StrategyRebalanced: { border: 'border-indigo-500', label: 'Position Rebalanced' },
+  StrategyReduced: { border: 'border-yellow-500', label: 'Position Reduced' },
+  StrategyExited: { border: 'border-gray-500', label: 'Strategy Exited' },
+};
+
+/**
+ * Describes the amounts of an event
+ */
+function describeEvent(event: StrategyEvent): string {
+  switch (event.kind) {
+    case 'StrategyStarted':
+      return `Supplied ${formatEthBalance(event.ethSupplied)} ETH, borrowed ${formatUsdcBalance(event.usdcBorrowed)} USDC and created LP position ${event.lpTokenId}.`;
+    case 'FeesCollected':
+      return `Collected ${formatEthBalance(event.ethAmount)} ETH and ${formatUsdcBalance(event.usdcAmount)} USDC in fees after ${event.tradeCount} trades.`;
+    case 'FeesProcessed':
+      return `Repaid ${formatUsdcBalance(event.usdcRepaid)} USDC of debt and added ${formatEthBalance(event.ethAdded)} ETH collateral.`;
+    case 'StrategyIncreased':
+      return `Supplied ${formatEthBalance(event.ethSupplied)} ETH, borrowed ${formatUsdcBalance(event.usdcBorrowed)} USDC and added the liquidity to LP position ${event.lpTokenId}.`;
+    case 'StrategyRebalanced':
+      return event.usdcBorrowed > 0n
+        ? `Rebalanced to ${event.targetLtv}% LTV, borrowed ${formatUsdcBalance(event.usdcBorrowed)} USDC into the LP.`
+        : `Rebalanced to ${event.targetLtv}% LTV, repaid ${formatUsdcBalance(event.usdcRepaid)} USDC from the LP.`;
+    case 'StrategyReduced':
+      return `Removed ${event.percentage}% of the position, repaid ${formatUsdcBalance(event.usdcRepaid)} USDC and returned ${formatEthBalance(event.ethReturned)} ETH to the Safe.`;
+    case 'StrategyExited':
+      return `Repaid ${formatUsdcBalance(event.usdcRepaid)} USDC and returned ${formatEthBalance(event.ethReturned)} ETH to the Safe.`;
+  }
+}
+
+interface EventTimelineProps {
+  // Called when a sync finds events that were not shown before
+  onNewEvents?: () => void;
+}
+
+const EventTimeline: React.FC<EventTimelineProps> = ({ onNewEvents }) => {
+  const { isConnected, chainId, safeAddress, syncStrategyEvents } = useWallet();
+  const [events, setEvents] = useState<StrategyEvent[] | null>(null);
+  const [page, setPage] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const knownCount = useRef<number | null>(null);
+
+  // Backfill on mount, then follow new blocks
+  useEffect(() => {
+    if (!isConnected || !safeAddress) return;
+    knownCount.current = null;
+
+    const sync = async () => {
+      try {
+        const synced = await syncStrategyEvents();
+        if (knownCount.current !== null && synced.length > knownCount.current) {
+          onNewEvents?.();
+        }
+        knownCount.current = synced.length;
+        setEvents(synced);
+        setError(null);
+      } catch (err) {
+        console.error('Error indexing strategy events:', err);
+        setError('Failed to load strategy events.');
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isConnected, safeAddress]);
+
+  const pageCount = events ? Math.max(1, Math.ceil(events.length / PAGE_SIZE)) : 1;
+  const pageEvents = events?.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE) ?? [];
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h2 className="text-lg font-semibold mb-4">Recent Events</h2>
+
+      {error && <p className="text-red-700 mb-3">{error}</p>}
+
+      {!events && !error && <p className="text-gray-500">Indexing events...</p>}
+
+      {events && events.length === 0 && (
+        <p className="text-gray-500">No strategy events for this Safe yet.</p>
+      )}
+
+      <div className="space-y-3">
+        {pageEvents.map(event => (
+          <div key={event.id} className={`p-3 border-l-4 ${EVENT_STYLES[event.kind].border}`}>
+            <div className="flex justify-between">
+              <span className="font-medium">{EVENT_STYLES[event.kind].label}</span>
+              <span className="text-sm text-gray-500">
+                {new Date(event.timestamp).toLocaleString()}
+              </span>
+            </div>
+            <p className="text-sm text-gray-600">{describeEvent(event)}</p>
+            <a
+              href={getExplorerTxUrl(chainId, event.txHash)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-blue-600 hover:underline"
+            >
+              {shortenAddress(event.txHash, 6)}
+            </a>
+          </div>
+        ))}
+      </div>
+
+      {events && events.length > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="px-3 py-1 rounded border text-sm disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-500">
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+            className="px-3 py-1 rounded border text-sm disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventTimeline;
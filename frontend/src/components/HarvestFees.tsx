@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { useWallet } from '../contexts/WalletContext';
+import BatchReview from './BatchReview';
+import { formatEthBalance, formatUsdcBalance } from '../utils/address';
+import type { PreparedSafeBatch } from '../utils/safeBatch';
+import type { ClaimableFees, SafeExecutionResult } from '../types';
+
+interface HarvestFeesProps {
+  // Called after the harvest is executed, so the page can reload the position
+  onHarvested: () => void;
+}
+
+/**
+ * Shows the fees the LP position has accrued and collects them on demand, without waiting
+ * for the fee hook's next automatic sweep. Watched Safes only see the amounts
+ */
+const HarvestFees: React.FC<HarvestFeesProps> = ({ onHarvested }) => {
+  const {
+    isConnected,
+    isReadOnly,
+    safeAddress,
+    getClaimableFees,
+    prepareHarvestFees,
+    executeSafeBatch,
+  } = useWallet();
+  const [claimable, setClaimable] = useState<ClaimableFees | null>(null);
+  const [pendingBatch, setPendingBatch] = useState<PreparedSafeBatch | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SafeExecutionResult | null>(null);
+
+  const fetchClaimable = async () => {
+    try {
+      setClaimable(await getClaimableFees());
+    } catch (err) {
+      console.error('Error fetching claimable fees:', err);
+      setError('Failed to load the claimable fees.');
+    }
+  };
+
+  useEffect(() => {
+    if (isConnected && safeAddress) {
+      fetchClaimable();
+    }
+  }, [isConnected, safeAddress]);
+
+  const hasFees = claimable !== null && (claimable.usdc > 0n || claimable.eth > 0n);
+
+  const handleReview = async () => {
+    try {
+      setIsProcessing(true);
+      setError(null);
+      setResult(null);
+
+      setPendingBatch(await prepareHarvestFees());
+    } catch (err) {
+      console.error('Error preparing harvest:', err);
+      setError(err instanceof Error ? err.message : 'Failed to prepare the harvest.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleHarvest = async () => {
+    if (!pendingBatch) return;
+
+    try {
+      setIsProcessing(true);
+      setError(null);
+
+      setResult(await executeSafeBatch(pendingBatch));
+      setPendingBatch(null);
+      await fetchClaimable();
+      onHarvested();
+    } catch (err) {
+      console.error('Error harvesting fees:', err);
+      setError(err instanceof Error ? err.message : 'Failed to harvest the fees.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      {error && (
+        <div className="bg-red-50 p-4 rounded-md border border-red-200 mb-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {result?.status === 'executed' && (
+        <div className="bg-green-50 p-4 rounded-md border border-green-200 mb-4">
+          <p className="text-green-700">Fees harvested into the position.</p>
+        </div>
+      )}
+
+      {result?.status === 'proposed' && (
+        <div className="bg-blue-50 p-4 rounded-md border border-blue-200 mb-4">
+          <p className="text-blue-700">
+            Harvest proposed to the Safe's owners with {result.confirmations} of {result.threshold}{' '}
+            confirmations. Co-owners can confirm and execute it from the Dashboard.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-gray-50 p-4 rounded-md border border-gray-200 mb-4 text-sm">
+        <div className="flex justify-between gap-4">
+          <span>Claimable fees:</span>
+          <span className="font-mono text-right">
+            {claimable
+              ? `${formatUsdcBalance(claimable.usdc)} USDC + ${formatEthBalance(claimable.eth, 6)} ETH`
+              : '-'}
+          </span>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          As last settled by the position manager. Harvested USDC repays the debt and ETH is added
+          to the collateral.
+        </p>
+      </div>
+
+      {!isReadOnly &&
+        (pendingBatch ? (
+          <BatchReview
+            batch={pendingBatch}
+            isProcessing={isProcessing}
+            onConfirm={handleHarvest}
+            onCancel={() => setPendingBatch(null)}
+          />
+        ) : (
+          <button
+            onClick={handleReview}
+            disabled={isProcessing || !hasFees}
+            className="w-full px-4 py-3 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {isProcessing ? 'Preparing Harvest...' : 'Review Harvest Now'}
+          </button>
+        ))}
+    </div>
+  );
+};
+
+export default HarvestFees;
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { utils } from 'ethers';
+import { useWallet } from '../contexts/WalletContext';
+import {
+  HEALTH_FACTOR_DANGER,
+  HEALTH_FACTOR_WARNING,
+  HEALTH_POLL_INTERVAL_MS,
+} from '../utils/health';
+import type { AccountHealth, HealthLevel } from '../utils/health';
+
+const LEVEL_STYLES: Record<HealthLevel, { badge: string; label: string }> = {
+  safe: { badge: 'bg-green-100 text-green-800', label: 'Healthy' },
+  warning: { badge: 'bg-yellow-100 text-yellow-800', label: 'Warning' },
+  danger: { badge: 'bg-red-100 text-red-800', label: 'Liquidation risk' },
+};
+
+const HealthMonitor: React.FC = () => {
+  const { isConnected, safeAddress, getAccountHealth } = useWallet();
+  const [health, setHealth] = useState<AccountHealth | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Poll the Safe's Aave account data while the Dashboard is open
+  useEffect(() => {
+    if (!isConnected || !safeAddress) return;
+
+    const fetchHealth = async () => {
+      try {
+        setHealth(await getAccountHealth());
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching account health:', err);
+        setError('Failed to load the Aave health factor.');
+      }
+    };
+
+    fetchHealth();
+    const interval = setInterval(fetchHealth, HEALTH_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isConnected, safeAddress]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 p-4 rounded-md border border-red-200 mb-6">
+        <p className="text-red-700">{error}</p>
+      </div>
+    );
+  }
+
+  if (!health) return null;
+
+  const style = LEVEL_STYLES[health.level];
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Aave Position Health</h2>
+        <span className={`px-3 py-1 rounded-full text-sm ${style.badge}`}>{style.label}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-gray-50 p-4 rounded-md">
+          <h3 className="text-sm font-medium text-gray-500 mb-1">Health Factor</h3>
+          <span className="font-medium">
+            {Number.isFinite(health.healthFactor) ? health.healthFactor.toFixed(2) : '∞'}
+          </span>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <h3 className="text-sm font-medium text-gray-500 mb-1">Liquidation ETH Price</h3>
+          <span className="font-medium">
+            {health.liquidationEthPrice !== null
+              ? `$${parseFloat(utils.formatUnits(health.liquidationEthPrice, 6)).toFixed(2)}`
+              : 'No debt'}
+          </span>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <h3 className="text-sm font-medium text-gray-500 mb-1">Distance to Liquidation</h3>
+          <span className="font-medium">
+            {health.distanceToLiquidation !== null
+              ? `ETH -${(health.distanceToLiquidation * 100).toFixed(1)}%`
+              : 'No debt'}
+          </span>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-md">
+          <h3 className="text-sm font-medium text-gray-500 mb-1">Collateral / Debt</h3>
+          <span className="font-medium">
+            ${health.collateralUsd.toFixed(2)} / ${health.debtUsd.toFixed(2)}
+          </span>
+        </div>
+      </div>
+
+      {health.level !== 'safe' && (
+        <p
+          className={`mt-4 text-sm ${health.level === 'danger' ? 'text-red-700' : 'text-yellow-700'}`}
+        >
+          The health factor is below{' '}
+          {health.level === 'danger' ? HEALTH_FACTOR_DANGER : HEALTH_FACTOR_WARNING}. Add collateral
+          or repay debt to avoid liquidation at a {health.liquidationThresholdPct}% liquidation
+          threshold.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default HealthMonitor;
@@ -1,13 +1,16 @@
 import React, { useState } from 'react';
 import { Link, Outlet } from 'react-router-dom';
 import ConnectButton from './ConnectButton';
+import NotificationCenter from './NotificationCenter';
+import NetworkSwitcher from './NetworkSwitcher';
 import { useWallet } from '../contexts/WalletContext';
 import { shortenAddress } from '../utils/address';
-import { baseChain } from '../constants/chains';
+import { getChainProfile } from '../constants/chains';
 
 const Layout: React.FC = () => {
   const { isConnected, isLoading, safeAddress, balance, chainId, createSafeAccount } = useWallet();
   const [isCreating, setIsCreating] = useState(false);
+  const network = getChainProfile(chainId)?.chain;
 
   // Function to handle wallet creation
   const handleCreateWallet = async () => {
@@ -71,6 +74,8 @@ const Layout: React.FC = () => {
                 )}
               </button>
             )}
+            <NetworkSwitcher />
+            <NotificationCenter />
             <ConnectButton />
           </div>
         </div>
@@ -110,6 +115,18 @@ const Layout: React.FC = () => {
             >
               Exit Strategy
             </Link>
+            <Link
+              to="/approvals"
+              className="px-3 py-4 text-sm font-medium text-gray-700 hover:text-blue-600 border-b-2 border-transparent hover:border-blue-600"
+            >
+              Approvals
+            </Link>
+            <Link
+              to="/watch"
+              className="px-3 py-4 text-sm font-medium text-gray-700 hover:text-blue-600 border-b-2 border-transparent hover:border-blue-600"
+            >
+              Watch
+            </Link>
           </div>
         </div>
       </nav>
@@ -137,10 +154,8 @@ const Layout: React.FC = () => {
                 </div>
                 <div className="text-sm bg-white px-3 py-1 rounded-full shadow-sm border border-gray-200">
                   <span className="font-medium text-gray-800">Network: </span>
-                  <span
-                    className={`font-medium ${chainId === baseChain.id ? 'text-green-600' : 'text-red-600'}`}
-                  >
-                    {chainId === baseChain.id ? 'Base' : 'Wrong Network'}
+                  <span className={`font-medium ${network ? 'text-green-600' : 'text-red-600'}`}>
+                    {network?.name ?? 'Wrong Network'}
                   </span>
                 </div>
               </div>
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { useWallet } from '../contexts/WalletContext';
+import { CHAIN_PROFILES, isSupportedChain } from '../constants/chains';
+
+/**
+ * Picks the chain profile the wallet is connected to
+ */
+const NetworkSwitcher: React.FC = () => {
+  const { isConnected, isConnecting, chainId, switchNetwork } = useWallet();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [switchError, setSwitchError] = useState<string | null>(null);
+
+  if (!isConnected) return null;
+
+  const isSupported = isSupportedChain(chainId);
+
+  // The Safes of the new chain are loaded once the wallet reports the switch
+  const handleSwitch = async (targetChainId: number) => {
+    setSwitchError(null);
+    setIsSwitching(true);
+    try {
+      await switchNetwork(targetChainId);
+    } catch (error) {
+      setSwitchError(error instanceof Error ? error.message : 'Failed to switch network');
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={chainId}
+        onChange={e => handleSwitch(Number(e.target.value))}
+        disabled={isSwitching || isConnecting}
+        aria-label="Network"
+        className={`px-3 py-2 text-sm rounded-md border ${
+          isSupported
+            ? 'bg-white border-gray-300 text-gray-700'
+            : 'bg-red-50 border-red-200 text-red-700'
+        }`}
+      >
+        {!isSupported && <option value={chainId}>Wrong Network</option>}
+        {CHAIN_PROFILES.map(({ chain }) => (
+          <option key={chain.id} value={chain.id}>
+            {chain.name}
+          </option>
+        ))}
+      </select>
+      {switchError && (
+        <span className="text-sm text-red-600" title={switchError}>
+          Could not switch
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default NetworkSwitcher;
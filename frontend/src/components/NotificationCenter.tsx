@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { useNotifications } from '../contexts/NotificationContext';
+import { shortenAddress } from '../utils/address';
+import { getExplorerTxUrl } from '../constants/chains';
+import type { Notification, TransactionStatus } from '../types';
+
+const TOAST_STYLES: Record<Notification['type'], string> = {
+  success: 'bg-green-50 border-green-200 text-green-800',
+  error: 'bg-red-50 border-red-200 text-red-800',
+  info: 'bg-blue-50 border-blue-200 text-blue-800',
+  warning: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+};
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  signing: 'bg-gray-100 text-gray-800',
+  proposed: 'bg-purple-100 text-purple-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  mined: 'bg-green-100 text-green-800',
+  reverted: 'bg-red-100 text-red-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+/**
+ * One toast, dismissed by the user or once its duration has passed
+ */
+const Toast: React.FC<{ notification: Notification; onDismiss: (id: string) => void }> = ({
+  notification,
+  onDismiss,
+}) => {
+  useEffect(() => {
+    if (!notification.duration) return;
+
+    const timeout = setTimeout(() => onDismiss(notification.id), notification.duration);
+    return () => clearTimeout(timeout);
+  }, [notification.id, notification.duration]);
+
+  return (
+    <div
+      className={`w-80 p-3 rounded-md border shadow ${TOAST_STYLES[notification.type]}`}
+      role="status"
+    >
+      <div className="flex justify-between items-start gap-2">
+        <p className="font-medium">{notification.title}</p>
+        <button
+          onClick={() => onDismiss(notification.id)}
+          className="text-sm opacity-60 hover:opacity-100"
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="text-sm break-words">{notification.message}</p>
+    </div>
+  );
+};
+
+/**
+ * Toast queue and the transaction history drawer, opened from the header
+ */
+const NotificationCenter: React.FC = () => {
+  const { notifications, transactions, dismissNotification, clearHistory } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const inFlight = transactions.filter(
+    tx => tx.status === 'signing' || tx.status === 'pending'
+  ).length;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="relative px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+      >
+        Activity
+        {inFlight > 0 && (
+          <span className="absolute -top-2 -right-2 px-1.5 text-xs text-white bg-yellow-500 rounded-full">
+            {inFlight}
+          </span>
+        )}
+      </button>
+
+      {/* Toast queue */}
+      <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2">
+        {notifications.map(notification => (
+          <Toast
+            key={notification.id}
+            notification={notification}
+            onDismiss={dismissNotification}
+          />
+        ))}
+      </div>
+
+      {/* History drawer */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-40 flex justify-end bg-black/30"
+          onClick={() => setIsOpen(false)}
+        >
+          <aside
+            className="w-96 max-w-full h-full bg-white shadow-lg flex flex-col"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center p-4 border-b">
+              <h2 className="text-lg font-semibold">Transactions</h2>
+              <div className="flex gap-3">
+                <button
+                  onClick={clearHistory}
+                  disabled={transactions.length === inFlight}
+                  className="text-sm text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                >
+                  Clear
+                </button>
+                <button onClick={() => setIsOpen(false)} className="text-sm text-gray-600">
+                  Close
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              {transactions.length === 0 ? (
+                <p className="text-gray-500 text-center">No transactions yet</p>
+              ) : (
+                transactions.map(tx => (
+                  <div key={tx.id} className="p-3 border rounded-md text-sm">
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="font-medium">{tx.label}</span>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[tx.status]}`}
+                      >
+                        {tx.status}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Safe {shortenAddress(tx.safeAddress)} ·{' '}
+                      {new Date(tx.createdAt).toLocaleString()}
+                    </p>
+                    {tx.safeTxHash && (
+                      <p className="text-xs text-gray-500 font-mono">
+                        safeTxHash {shortenAddress(tx.safeTxHash)}
+                      </p>
+                    )}
+                    {tx.txHash && (
+                      <a
+                        href={getExplorerTxUrl(tx.chainId, tx.txHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:underline font-mono"
+                      >
+                        {shortenAddress(tx.txHash)}
+                      </a>
+                    )}
+                    {tx.gasUsed && (
+                      <p className="text-xs text-gray-500">
+                        Gas used {Number(tx.gasUsed).toLocaleString()}
+                      </p>
+                    )}
+                    {tx.error && <p className="text-xs text-red-700 break-words">{tx.error}</p>}
+                  </div>
+                ))
+              )}
+            </div>
+          </aside>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default NotificationCenter;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { useWallet } from '../contexts/WalletContext';
+import { shortenAddress } from '../utils/address';
+import type { PendingSafeTransaction } from '../types';
+
+// How often new proposals and confirmations are fetched while the Dashboard is open
+const PENDING_POLL_INTERVAL_MS = 15_000;
+
+interface PendingTransactionsProps {
+  // Called after a proposal is executed, so the page can refresh its reads
+  onExecuted?: () => void;
+}
+
+const PendingTransactions: React.FC<PendingTransactionsProps> = ({ onExecuted }) => {
+  const {
+    isConnected,
+    safeAddress,
+    getPendingSafeTransactions,
+    confirmSafeTransaction,
+    executePendingSafeTransaction,
+  } = useWallet();
+  const [pending, setPending] = useState<PendingSafeTransaction[]>([]);
+  const [processing, setProcessing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPending = async () => {
+    try {
+      setPending(await getPendingSafeTransactions());
+    } catch (err) {
+      console.error('Error fetching pending Safe transactions:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (!isConnected || !safeAddress) return;
+
+    fetchPending();
+    const interval = setInterval(fetchPending, PENDING_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isConnected, safeAddress]);
+
+  const handleAction = async (tx: PendingSafeTransaction, action: 'confirm' | 'execute') => {
+    try {
+      setProcessing(tx.safeTxHash);
+      setError(null);
+      if (action === 'confirm') {
+        await confirmSafeTransaction(tx.safeTxHash);
+      } else {
+        await executePendingSafeTransaction(tx.safeTxHash);
+        onExecuted?.();
+      }
+      await fetchPending();
+    } catch (err) {
+      console.error(`Error trying to ${action} Safe transaction:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} the transaction.`);
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-6">
+      <h2 className="text-lg font-semibold mb-4">Pending Safe Transactions</h2>
+
+      {error && <p className="text-red-700 mb-3">{error}</p>}
+
+      <div className="space-y-3">
+        {pending.map(tx => (
+          <div key={tx.safeTxHash} className="p-3 border rounded-md">
+            <div className="flex justify-between">
+              <span className="font-medium">{tx.description || shortenAddress(tx.to)}</span>
+              <span className="text-sm text-gray-500">Nonce {tx.nonce}</span>
+            </div>
+            <p className="text-sm text-gray-600">
+              {tx.confirmedBy.length} of {tx.threshold} confirmations:{' '}
+              {tx.confirmedBy.map(owner => shortenAddress(owner)).join(', ')}
+            </p>
+            <p className="text-xs text-gray-500 mb-2">
+              Proposed {tx.submissionDate.toLocaleString()}
+            </p>
+            <div className="flex gap-2">
+              {tx.canConfirm && (
+                <button
+                  onClick={() => handleAction(tx, 'confirm')}
+                  disabled={processing !== null}
+                  className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+                >
+                  {processing === tx.safeTxHash ? 'Signing...' : 'Confirm'}
+                </button>
+              )}
+              {tx.canExecute && (
+                <button
+                  onClick={() => handleAction(tx, 'execute')}
+                  disabled={processing !== null}
+                  className="px-3 py-1 text-sm text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-green-300"
+                >
+                  {processing === tx.safeTxHash ? 'Executing...' : 'Execute'}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PendingTransactions;
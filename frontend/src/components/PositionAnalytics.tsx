@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { useWallet } from '../contexts/WalletContext';
+import type { AnalyticsPoint } from '../utils/analytics';
+
+// How often the position is revalued while the Dashboard is open
+const ANALYTICS_POLL_INTERVAL_MS = 60_000;
+
+const formatUsd = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const formatPct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+interface Metric {
+  label: string;
+  value: (point: AnalyticsPoint) => number | null;
+  format: (value: number) => string;
+}
+
+const METRICS: Metric[] = [
+  { label: 'Net P&L vs holding ETH', value: point => point.pnlUsd, format: formatUsd },
+  { label: 'Impermanent Loss', value: point => point.impermanentLoss, format: formatPct },
+  { label: 'Fee APR', value: point => point.feeApr, format: formatPct },
+  { label: 'Borrow APR', value: point => point.borrowApr, format: formatPct },
+  { label: 'Net Value', value: point => point.netValueUsd, format: formatUsd },
+  { label: 'Accrued Interest', value: point => point.accruedInterestUsdc, format: formatUsd },
+];
+
+/**
+ * Line chart of one metric over the snapshots
+ */
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+  if (values.length < 2) {
+    return <p className="text-xs text-gray-400 h-10">Collecting history...</p>;
+  }
+
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const points = values
+    .map((value, i) => `${(i / (values.length - 1)) * 100},${38 - ((value - min) / range) * 36}`)
+    .join(' ');
+
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-10">
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="1.5"
+        vectorEffect="non-scaling-stroke"
+        className="text-blue-600"
+      />
+    </svg>
+  );
+};
+
+const PositionAnalytics: React.FC = () => {
+  const { isConnected, safeAddress, getPositionAnalytics } = useWallet();
+  const [points, setPoints] = useState<AnalyticsPoint[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Revalue the position and extend the time series while the Dashboard is open
+  useEffect(() => {
+    if (!isConnected || !safeAddress) return;
+
+    const fetchAnalytics = async () => {
+      try {
+        setPoints(await getPositionAnalytics());
+        setError(null);
+      } catch (err) {
+        console.error('Error computing position analytics:', err);
+        setError('Failed to compute position P&L.');
+      }
+    };
+
+    fetchAnalytics();
+    const interval = setInterval(fetchAnalytics, ANALYTICS_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isConnected, safeAddress]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 p-4 rounded-md border border-red-200 mb-6">
+        <p className="text-red-700">{error}</p>
+      </div>
+    );
+  }
+
+  if (points.length === 0) return null;
+
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-6">
+      <h2 className="text-lg font-semibold mb-4">Performance</h2>
+
+      <div className="grid grid-cols-2 gap-4">
+        {METRICS.map(metric => {
+          const value = metric.value(latest);
+          const history = points
+            .map(metric.value)
+            .filter((value): value is number => value !== null);
+
+          return (
+            <div key={metric.label} className="bg-gray-50 p-4 rounded-md">
+              <h3 className="text-sm font-medium text-gray-500 mb-1">{metric.label}</h3>
+              <span className="font-medium">{value !== null ? metric.format(value) : '—'}</span>
+              <Sparkline values={history} />
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500">
+        Since {new Date(points[0].timestamp).toLocaleString()}. Fees are valued at the pool price of
+        each snapshot.
+      </p>
+    </div>
+  );
+};
+
+export default PositionAnalytics;
@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import { useWallet } from '../contexts/WalletContext';
+import BatchReview from './BatchReview';
+import { formatEthBalance, formatUsdcBalance } from '../utils/address';
+import { getHealthLevel } from '../utils/health';
+import type { HealthLevel } from '../utils/health';
+import { previewRebalance } from '../utils/positionAdjustments';
+import type { PositionBalances } from '../utils/positionAdjustments';
+import { MAX_SLIPPAGE_BPS, MIN_SLIPPAGE_BPS } from '../utils/strategyValidation';
+import type { PreparedSafeBatch } from '../utils/safeBatch';
+import type { SafeExecutionResult } from '../types';
+
+const HEALTH_STYLES: Record<HealthLevel, string> = {
+  safe: 'text-green-700',
+  warning: 'text-yellow-700',
+  danger: 'text-red-700',
+};
+
+const formatHealthFactor = (healthFactor: number) =>
+  Number.isFinite(healthFactor) ? healthFactor.toFixed(2) : '∞';
+
+interface RebalancePositionProps {
+  // Called after the rebalance is executed, so the page can reload the position
+  onRebalanced: () => void;
+}
+
+/**
+ * Brings the position back to a target LTV after the ETH price moved: borrows more and adds
+ * it to the LP below the target, pulls liquidity and repays above it
+ */
+const RebalancePosition: React.FC<RebalancePositionProps> = ({ onRebalanced }) => {
+  const {
+    isConnected,
+    safeAddress,
+    getStrategyLimits,
+    getPositionBalances,
+    prepareRebalancePosition,
+    executeSafeBatch,
+  } = useWallet();
+  const [balances, setBalances] = useState<PositionBalances | null>(null);
+  const [maxLtv, setMaxLtv] = useState(75);
+  const [targetLtv, setTargetLtv] = useState(30);
+  const [slippage, setSlippage] = useState('0.5'); // Slippage tolerance in percent
+  const [pendingBatch, setPendingBatch] = useState<PreparedSafeBatch | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SafeExecutionResult | null>(null);
+
+  const fetchBalances = async () => {
+    try {
+      setBalances(await getPositionBalances());
+    } catch (err) {
+      console.error('Error fetching position balances:', err);
+      setError('Failed to load the position for the preview.');
+    }
+  };
+
+  const fetchMaxLtv = async () => {
+    try {
+      setMaxLtv((await getStrategyLimits()).maxLtv);
+    } catch (err) {
+      console.error('Error fetching strategy limits:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (isConnected && safeAddress) {
+      fetchBalances();
+      fetchMaxLtv();
+    }
+  }, [isConnected, safeAddress]);
+
+  const slippageBps = Math.round(Number(slippage) * 100);
+  const isSlippageValid = slippageBps >= MIN_SLIPPAGE_BPS && slippageBps <= MAX_SLIPPAGE_BPS;
+  const preview = balances ? previewRebalance(balances, targetLtv) : null;
+
+  const handleReview = async () => {
+    try {
+      setIsProcessing(true);
+      setError(null);
+      setResult(null);
+
+      setPendingBatch(await prepareRebalancePosition(targetLtv, slippageBps));
+    } catch (err) {
+      console.error('Error preparing rebalance:', err);
+      setError(err instanceof Error ? err.message : 'Failed to prepare the rebalance.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRebalance = async () => {
+    if (!pendingBatch) return;
+
+    try {
+      setIsProcessing(true);
+      setError(null);
+
+      setResult(await executeSafeBatch(pendingBatch));
+      setPendingBatch(null);
+      await fetchBalances();
+      onRebalanced();
+    } catch (err) {
+      console.error('Error rebalancing position:', err);
+      setError(err instanceof Error ? err.message : 'Failed to rebalance the position.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const isLocked = isProcessing || pendingBatch !== null;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-6">
+      <h2 className="text-lg font-semibold mb-4">Rebalance to Target LTV</h2>
+
+      {error && (
+        <div className="bg-red-50 p-4 rounded-md border border-red-200 mb-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {result?.status === 'executed' && (
+        <div className="bg-green-50 p-4 rounded-md border border-green-200 mb-4">
+          <p className="text-green-700">Position rebalanced to {targetLtv}% LTV.</p>
+        </div>
+      )}
+
+      {result?.status === 'proposed' && (
+        <div className="bg-blue-50 p-4 rounded-md border border-blue-200 mb-4">
+          <p className="text-blue-700">
+            Rebalance proposed to the Safe's owners with {result.confirmations} of{' '}
+            {result.threshold} confirmations. Co-owners can confirm and execute it from the
+            Dashboard.
+          </p>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <label htmlFor="targetLtv" className="block text-sm font-medium mb-1">
+          Target LTV: {targetLtv}%{preview && ` (currently ${preview.ltvBefore.toFixed(1)}%)`}
+        </label>
+        <input
+          id="targetLtv"
+          type="range"
+          min="1"
+          max={maxLtv}
+          value={targetLtv}
+          onChange={e => setTargetLtv(Number(e.target.value))}
+          disabled={isLocked}
+          className="w-full"
+        />
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="rebalanceSlippage" className="block text-sm font-medium mb-1">
+          Slippage Tolerance (%)
+        </label>
+        <input
+          id="rebalanceSlippage"
+          type="number"
+          min={MIN_SLIPPAGE_BPS / 100}
+          max={MAX_SLIPPAGE_BPS / 100}
+          step="0.1"
+          value={slippage}
+          onChange={e => setSlippage(e.target.value)}
+          disabled={isLocked}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+      </div>
+
+      {preview && (
+        <div className="bg-gray-50 p-4 rounded-md border border-gray-200 mb-4 text-sm">
+          <div className="flex justify-between font-medium">
+            <span>Health factor:</span>
+            <span className="font-mono">
+              <span className={HEALTH_STYLES[getHealthLevel(preview.healthFactorBefore)]}>
+                {formatHealthFactor(preview.healthFactorBefore)}
+              </span>
+              {' → '}
+              <span className={HEALTH_STYLES[getHealthLevel(preview.healthFactorAfter)]}>
+                {formatHealthFactor(preview.healthFactorAfter)}
+              </span>
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span>LTV:</span>
+            <span className="font-mono text-right">
+              {preview.ltvBefore.toFixed(1)}% → {preview.ltvAfter.toFixed(1)}%
+            </span>
+          </div>
+          {preview.direction === 'none' && (
+            <p className="mt-2 text-gray-600">The position is already at the target LTV.</p>
+          )}
+          {preview.direction === 'borrow' && (
+            <div className="flex justify-between gap-4">
+              <span>Borrowed and added to the LP:</span>
+              <span className="font-mono text-right">
+                {formatUsdcBalance(preview.usdcBorrowed)} USDC
+              </span>
+            </div>
+          )}
+          {preview.direction === 'repay' && (
+            <>
+              <div className="flex justify-between gap-4">
+                <span>Pulled from the LP ({preview.lpPercentage}%):</span>
+                <span className="font-mono text-right">
+                  {formatEthBalance(preview.lpEthRemoved, 6)} ETH +{' '}
+                  {formatUsdcBalance(preview.lpUsdcRemoved)} USDC
+                </span>
+              </div>
+              {preview.ethSwapped > 0n && (
+                <div className="flex justify-between gap-4">
+                  <span>ETH swapped for debt:</span>
+                  <span className="font-mono text-right">
+                    {formatEthBalance(preview.ethSwapped, 6)} ETH
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between gap-4">
+                <span>USDC debt repaid:</span>
+                <span className="font-mono text-right">
+                  {formatUsdcBalance(preview.usdcRepaid)} USDC
+                </span>
+              </div>
+              {preview.ethSupplied > 0n && (
+                <div className="flex justify-between gap-4">
+                  <span>ETH added to collateral:</span>
+                  <span className="font-mono text-right">
+                    {formatEthBalance(preview.ethSupplied, 6)} ETH
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+          <div className="flex justify-between gap-4">
+            <span>Collateral / debt after:</span>
+            <span className="font-mono text-right">
+              {formatEthBalance(preview.ethSuppliedAfter, 6)} ETH /{' '}
+              {formatUsdcBalance(preview.usdcBorrowedAfter)} USDC
+            </span>
+          </div>
+          {preview.warnings.map(warning => (
+            <p key={warning} className="mt-2 text-yellow-700">
+              {warning}
+            </p>
+          ))}
+          <p className="mt-2 text-xs text-gray-500">
+            Estimated at the feed price without price impact. On-chain amounts may differ slightly.
+          </p>
+        </div>
+      )}
+
+      {pendingBatch ? (
+        <BatchReview
+          batch={pendingBatch}
+          isProcessing={isProcessing}
+          onConfirm={handleRebalance}
+          onCancel={() => setPendingBatch(null)}
+        />
+      ) : (
+        <button
+          onClick={handleReview}
+          disabled={isProcessing || !isSlippageValid || preview?.direction === 'none'}
+          className="w-full px-4 py-3 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          {isProcessing ? 'Preparing Rebalance...' : `Review Rebalance to ${targetLtv}% LTV`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RebalancePosition;
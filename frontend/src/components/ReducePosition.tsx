@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import { useWallet } from '../contexts/WalletContext';
+import BatchReview from './BatchReview';
+import { formatEthBalance, formatUsdcBalance } from '../utils/address';
+import { getHealthLevel } from '../utils/health';
+import type { HealthLevel } from '../utils/health';
+import { previewReduction } from '../utils/positionAdjustments';
+import type { PositionBalances } from '../utils/positionAdjustments';
+import type { PreparedSafeBatch } from '../utils/safeBatch';
+import { MAX_SLIPPAGE_BPS, MIN_SLIPPAGE_BPS } from '../utils/strategyValidation';
+import type { SafeExecutionResult } from '../types';
+
+const HEALTH_STYLES: Record<HealthLevel, string> = {
+  safe: 'text-green-700',
+  warning: 'text-yellow-700',
+  danger: 'text-red-700',
+};
+
+const PRESET_PERCENTAGES = [25, 50, 75];
+
+const formatHealthFactor = (healthFactor: number) =>
+  Number.isFinite(healthFactor) ? healthFactor.toFixed(2) : '∞';
+
+interface ReducePositionProps {
+  // Called after the reduction is executed, so the page can reload the position
+  onReduced: () => void;
+}
+
+/**
+ * Takes a share of the active position off: removes that much liquidity, repays the
+ * same share of the debt and withdraws the matching collateral to the Safe
+ */
+const ReducePosition: React.FC<ReducePositionProps> = ({ onReduced }) => {
+  const { isConnected, safeAddress, getPositionBalances, prepareReducePosition, executeSafeBatch } =
+    useWallet();
+  const [balances, setBalances] = useState<PositionBalances | null>(null);
+  const [percentage, setPercentage] = useState(25);
+  const [swapEthForDebt, setSwapEthForDebt] = useState(true);
+  const [slippage, setSlippage] = useState('0.5'); // Slippage tolerance in percent
+  const [pendingBatch, setPendingBatch] = useState<PreparedSafeBatch | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SafeExecutionResult | null>(null);
+
+  const fetchBalances = async () => {
+    try {
+      setBalances(await getPositionBalances());
+    } catch (err) {
+      console.error('Error fetching position balances:', err);
+      setError('Failed to load the position for the preview.');
+    }
+  };
+
+  useEffect(() => {
+    if (isConnected && safeAddress) {
+      fetchBalances();
+    }
+  }, [isConnected, safeAddress]);
+
+  const preview = balances ? previewReduction(balances, percentage, swapEthForDebt) : null;
+  const slippageBps = Math.round(Number(slippage) * 100);
+  const isSlippageValid = slippageBps >= MIN_SLIPPAGE_BPS && slippageBps <= MAX_SLIPPAGE_BPS;
+
+  const handleReview = async () => {
+    try {
+      setIsProcessing(true);
+      setError(null);
+      setResult(null);
+
+      setPendingBatch(await prepareReducePosition(percentage, swapEthForDebt, slippageBps));
+    } catch (err) {
+      console.error('Error preparing reduction:', err);
+      setError(err instanceof Error ? err.message : 'Failed to prepare the reduction.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReduce = async () => {
+    if (!pendingBatch) return;
+
+    try {
+      setIsProcessing(true);
+      setError(null);
+
+      setResult(await executeSafeBatch(pendingBatch));
+      setPendingBatch(null);
+      await fetchBalances();
+      onReduced();
+    } catch (err) {
+      console.error('Error reducing position:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reduce the position.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const isLocked = isProcessing || pendingBatch !== null;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-6">
+      <h2 className="text-lg font-semibold mb-4">Reduce Position</h2>
+
+      {error && (
+        <div className="bg-red-50 p-4 rounded-md border border-red-200 mb-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {result?.status === 'executed' && (
+        <div className="bg-green-50 p-4 rounded-md border border-green-200 mb-4">
+          <p className="text-green-700">Position reduced. The removed assets are in your Safe.</p>
+        </div>
+      )}
+
+      {result?.status === 'proposed' && (
+        <div className="bg-blue-50 p-4 rounded-md border border-blue-200 mb-4">
+          <p className="text-blue-700">
+            Reduction proposed to the Safe's owners with {result.confirmations} of{' '}
+            {result.threshold} confirmations. Co-owners can confirm and execute it from the
+            Dashboard.
+          </p>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <label htmlFor="reducePercentage" className="block text-sm font-medium mb-1">
+          Remove {percentage}% of the position
+        </label>
+        <input
+          id="reducePercentage"
+          type="range"
+          min="1"
+          max="99"
+          value={percentage}
+          onChange={e => setPercentage(Number(e.target.value))}
+          disabled={isLocked}
+          className="w-full"
+        />
+        <div className="flex gap-2 mt-2">
+          {PRESET_PERCENTAGES.map(preset => (
+            <button
+              key={preset}
+              onClick={() => setPercentage(preset)}
+              disabled={isLocked}
+              className={`px-3 py-1 text-sm rounded-md border ${
+                percentage === preset
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {preset}%
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-start gap-2 mb-4">
+        <input
+          type="checkbox"
+          checked={swapEthForDebt}
+          onChange={e => setSwapEthForDebt(e.target.checked)}
+          disabled={isLocked}
+          className="mt-1"
+        />
+        <span className="text-gray-700">
+          Swap removed ETH for USDC when the removed USDC does not cover the debt share
+        </span>
+      </label>
+
+      {swapEthForDebt && (
+        <div className="mb-4">
+          <label htmlFor="reduceSlippage" className="block text-sm font-medium mb-1">
+            Slippage Tolerance (%)
+          </label>
+          <input
+            id="reduceSlippage"
+            type="number"
+            min={MIN_SLIPPAGE_BPS / 100}
+            max={MAX_SLIPPAGE_BPS / 100}
+            step="0.1"
+            value={slippage}
+            onChange={e => setSlippage(e.target.value)}
+            disabled={isLocked}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      )}
+
+      {preview && (
+        <div className="bg-gray-50 p-4 rounded-md border border-gray-200 mb-4 text-sm">
+          <div className="flex justify-between font-medium">
+            <span>Health factor:</span>
+            <span className="font-mono">
+              <span className={HEALTH_STYLES[getHealthLevel(preview.healthFactorBefore)]}>
+                {formatHealthFactor(preview.healthFactorBefore)}
+              </span>
+              {' → '}
+              <span className={HEALTH_STYLES[getHealthLevel(preview.healthFactorAfter)]}>
+                {formatHealthFactor(preview.healthFactorAfter)}
+              </span>
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span>Removed from the LP:</span>
+            <span className="font-mono text-right">
+              {formatEthBalance(preview.lpEthRemoved, 6)} ETH +{' '}
+              {formatUsdcBalance(preview.lpUsdcRemoved)} USDC
+            </span>
+          </div>
+          {preview.ethSwapped > 0n && (
+            <div className="flex justify-between gap-4">
+              <span>Swapped for debt:</span>
+              <span className="font-mono text-right">
+                {formatEthBalance(preview.ethSwapped, 6)} ETH →{' '}
+                {formatUsdcBalance(preview.usdcFromSwap)} USDC
+              </span>
+            </div>
+          )}
+          <div className="flex justify-between gap-4">
+            <span>USDC debt repaid:</span>
+            <span className="font-mono text-right">
+              {formatUsdcBalance(preview.usdcRepaid)} USDC
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span>Collateral withdrawn:</span>
+            <span className="font-mono text-right">
+              {formatEthBalance(preview.ethWithdrawn, 6)} ETH
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span>Returned to the Safe:</span>
+            <span className="font-mono text-right">
+              {formatEthBalance(preview.ethReturned, 6)} ETH
+              {preview.usdcReturned > 0n && ` + ${formatUsdcBalance(preview.usdcReturned)} USDC`}
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span>Remaining collateral / debt:</span>
+            <span className="font-mono text-right">
+              {formatEthBalance(preview.ethSuppliedAfter, 6)} ETH /{' '}
+              {formatUsdcBalance(preview.usdcBorrowedAfter)} USDC
+            </span>
+          </div>
+          {preview.warnings.map(warning => (
+            <p key={warning} className="mt-2 text-yellow-700">
+              {warning}
+            </p>
+          ))}
+          <p className="mt-2 text-xs text-gray-500">
+            Estimated at the feed price without price impact. On-chain amounts may differ slightly.
+          </p>
+        </div>
+      )}
+
+      {pendingBatch ? (
+        <BatchReview
+          batch={pendingBatch}
+          isProcessing={isProcessing}
+          onConfirm={handleReduce}
+          onCancel={() => setPendingBatch(null)}
+        />
+      ) : (
+        <button
+          onClick={handleReview}
+          disabled={isProcessing || (swapEthForDebt && !isSlippageValid)}
+          className="w-full px-4 py-3 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          {isProcessing ? 'Preparing Reduction...' : `Review ${percentage}% Reduction`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReducePosition;
@@ -0,0 +1,55 @@
+import React from 'react';
+import type { StrategyStep, StrategyStepStatus } from '../utils/strategySteps';
+
+const STATUS_STYLES: Record<StrategyStepStatus, { icon: string; className: string }> = {
+  done: { icon: '✓', className: 'bg-green-100 text-green-800' },
+  pending: { icon: '•', className: 'bg-blue-100 text-blue-800' },
+  blocked: { icon: '!', className: 'bg-red-100 text-red-800' },
+};
+
+interface StrategyChecklistProps {
+  steps: StrategyStep[] | null;
+  isRefreshing: boolean;
+}
+
+/**
+ * Setup steps of a new strategy with the status read from the chain
+ */
+const StrategyChecklist: React.FC<StrategyChecklistProps> = ({ steps, isRefreshing }) => {
+  if (!steps) {
+    return <p className="text-sm text-gray-500">Checking the Safe's setup on-chain...</p>;
+  }
+
+  const pending = steps.filter(({ status }) => status === 'pending').length;
+
+  return (
+    <div>
+      <p className="text-black mb-2">
+        {pending > 0
+          ? `The ${pending} remaining step${pending === 1 ? ' is' : 's are'} batched into a single Safe transaction:`
+          : 'Every setup step is complete on-chain.'}
+        {isRefreshing && <span className="ml-2 text-xs text-gray-500">Refreshing...</span>}
+      </p>
+      <ol className="space-y-2">
+        {steps.map(step => (
+          <li key={step.id} className="flex items-start gap-3">
+            <span
+              className={`flex-none w-6 h-6 flex items-center justify-center rounded-full text-sm ${STATUS_STYLES[step.status].className}`}
+            >
+              {STATUS_STYLES[step.status].icon}
+            </span>
+            <div className="flex-1">
+              <p className={step.status === 'done' ? 'text-gray-500' : 'text-black font-medium'}>
+                {step.label}
+                {step.status === 'done' && ' (skipped, already done)'}
+              </p>
+              <p className="text-xs text-gray-500">{step.detail}</p>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default StrategyChecklist;
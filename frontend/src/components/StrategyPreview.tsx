@@ -0,0 +1,86 @@
+import React from 'react';
+import { utils } from 'ethers';
+import { formatEthBalance, formatUsdcBalance } from '../utils/address';
+import { getHealthLevel } from '../utils/health';
+import type { HealthLevel } from '../utils/health';
+import { simulateStartStrategy } from '../utils/strategySimulator';
+import type { StrategyReserves } from '../utils/strategySimulator';
+import type { StrategyParams } from '../types';
+
+const HEALTH_STYLES: Record<HealthLevel, string> = {
+  safe: 'text-green-700',
+  warning: 'text-yellow-700',
+  danger: 'text-red-700',
+};
+
+interface StrategyPreviewProps {
+  params: StrategyParams;
+  usdcPerEth: bigint;
+  reserves: StrategyReserves;
+}
+
+/**
+ * Expected position for the parameters being entered, recomputed on every change
+ */
+const StrategyPreview: React.FC<StrategyPreviewProps> = ({ params, usdcPerEth, reserves }) => {
+  const simulation = simulateStartStrategy(params, usdcPerEth, reserves);
+
+  const rows: [string, string][] = [
+    ['USDC borrowed', `${formatUsdcBalance(simulation.usdcBorrowed)} USDC`],
+    [
+      'Swapped to ETH',
+      `${formatUsdcBalance(simulation.usdcToSwap)} USDC → ${formatEthBalance(simulation.ethFromSwap, 6)} ETH (min ${formatEthBalance(simulation.minEthFromSwap, 6)})`,
+    ],
+    ['Pool fee on the swap', `${formatUsdcBalance(simulation.swapFeeUsdc)} USDC`],
+    [
+      'LP position',
+      `${formatEthBalance(simulation.lpEth, 6)} ETH + ${formatUsdcBalance(simulation.lpUsdc)} USDC`,
+    ],
+    ['ETH collateral on Aave', `${formatEthBalance(simulation.ethSupplied, 6)} ETH`],
+  ];
+
+  if (simulation.refundEth > 0n || simulation.refundUsdc > 0n) {
+    rows.push([
+      'Returned to the Safe',
+      `${formatEthBalance(simulation.refundEth, 6)} ETH + ${formatUsdcBalance(simulation.refundUsdc)} USDC`,
+    ]);
+  }
+
+  rows.push(
+    [
+      'Liquidation ETH price',
+      simulation.liquidationEthPrice !== null
+        ? `$${parseFloat(utils.formatUnits(simulation.liquidationEthPrice, 6)).toFixed(2)}`
+        : 'No debt',
+    ],
+    ['Borrow interest per year', `${formatUsdcBalance(simulation.annualInterestUsdc)} USDC`],
+    ['LP fees used to deleverage', `${simulation.feeShareBps / 100}%`]
+  );
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200">
+      <div className="flex justify-between font-medium">
+        <span>Starting health factor:</span>
+        <span className={`font-mono ${HEALTH_STYLES[getHealthLevel(simulation.healthFactor)]}`}>
+          {Number.isFinite(simulation.healthFactor) ? simulation.healthFactor.toFixed(2) : '∞'}
+        </span>
+      </div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span>{label}:</span>
+          <span className="font-mono text-right">{value}</span>
+        </div>
+      ))}
+      {simulation.warnings.map(warning => (
+        <p key={warning} className="mt-2 text-yellow-700">
+          {warning}
+        </p>
+      ))}
+      <p className="mt-2 text-xs text-gray-500">
+        Estimated at the feed price without price impact. On-chain amounts may differ slightly.
+      </p>
+    </div>
+  );
+};
+
+export default StrategyPreview;
@@ -1,13 +0,0 @@
-// Contract addresses for the application
-const config = {
-  addresses: {
-    leveragedLPManager: '0x1234567890123456789012345678901234567890',
-    feeCollectHook: '0x0987654321098765432109876543210987654321',
-    usdc: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', // Base USDC
-    weth: '0x4200000000000000000000000000000000000006', // Base WETH
-    uniswapPositionManager: '0x8e2badc74a4560f7670d79fc67a5bf5b0d802a48',
-    aaveDataProvider: '0x69FA688f1Dc47d4B5d8029D5a35FB7a548310654',
-  },
-};
-
-export default config;
@@ -1,4 +1,5 @@
 import { defineChain } from 'viem';
+import type { Chain } from 'viem';
 
 // Base Chain configuration - network ID 8453 as specified in requirements
 export const baseChain = defineChain({
@@ -12,7 +13,7 @@ export const baseChain = defineChain({
   },
   rpcUrls: {
     default: {
-      http: ['https://mainnet.base.org'],
+      http: [import.meta.env.VITE_BASE_RPC_URL || 'https://mainnet.base.org'],
     },
     public: {
       http: ['https://mainnet.base.org'],
@@ -26,5 +27,84 @@ export const baseChain = defineChain({
   },
 });
 
-// Project requires Base only
-export const SUPPORTED_CHAINS = [baseChain];
+// Base Sepolia testnet, deployed to with `npm run deploy:base-sepolia` in contracts/
+export const baseSepoliaChain = defineChain({
+  id: 84532,
+  name: 'Base Sepolia',
+  network: 'base-sepolia',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Sepolia Ether',
+    symbol: 'ETH',
+  },
+  rpcUrls: {
+    default: {
+      http: [import.meta.env.VITE_BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org'],
+    },
+    public: {
+      http: ['https://sepolia.base.org'],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'BaseScan',
+      url: 'https://sepolia.basescan.org',
+    },
+  },
+  testnet: true,
+});
+
+// Local anvil fork of Base, started with `anvil --fork-url <base rpc> --chain-id 31337`
+export const anvilChain = defineChain({
+  id: 31337,
+  name: 'Anvil',
+  network: 'anvil',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Ether',
+    symbol: 'ETH',
+  },
+  rpcUrls: {
+    default: {
+      http: [import.meta.env.VITE_ANVIL_RPC_URL || 'http://127.0.0.1:8545'],
+    },
+  },
+  testnet: true,
+});
+
+/**
+ * A network the app can run on
+ * forkOf is the chain a local fork copies its state from, its deployment is used
+ * when the manifest has no addresses of the fork's own
+ */
+export interface ChainProfile {
+  chain: Chain;
+  forkOf?: number;
+}
+
+export const CHAIN_PROFILES: ChainProfile[] = [
+  { chain: baseChain },
+  { chain: baseSepoliaChain },
+  { chain: anvilChain, forkOf: baseChain.id },
+];
+
+export const SUPPORTED_CHAINS = CHAIN_PROFILES.map(({ chain }) => chain);
+
+// Chain the wallet is switched to when it is connected on an unsupported one
+export const DEFAULT_CHAIN_ID = baseChain.id;
+
+export const getChainProfile = (chainId: number): ChainProfile | undefined =>
+  CHAIN_PROFILES.find(({ chain }) => chain.id === chainId);
+
+export const isSupportedChain = (chainId: number): boolean => !!getChainProfile(chainId);
+
+/**
+ * Explorer page of a transaction
+ * @param chainId - Chain the transaction was sent on
+ * @param txHash - Transaction hash
+ * @returns The URL, or undefined on chains without an explorer such as a local fork
+ */
+export const getExplorerTxUrl = (chainId: number, txHash: string): string | undefined => {
+  const explorer = getChainProfile(chainId)?.chain.blockExplorers?.default;
+  return explorer && `${explorer.url}/tx/${txHash}`;
+};
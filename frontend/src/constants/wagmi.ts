@@ -0,0 +1,32 @@
+import { createConfig, fallback, http, unstable_connector } from 'wagmi';
+import { coinbaseWallet, injected, walletConnect } from 'wagmi/connectors';
+import { anvilChain, baseChain, baseSepoliaChain } from './chains';
+
+// WalletConnect needs a Reown Cloud project ID, the connector is left out without one
+const walletConnectProjectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
+
+// Reads go through an injected wallet when there is one, so transactions on a local fork
+// are found even when the fork reuses another chain's ID, and fall back to the profile's RPC
+const transport = (rpcUrl: string) => fallback([unstable_connector(injected), http(rpcUrl)]);
+
+export const wagmiConfig = createConfig({
+  chains: [baseChain, baseSepoliaChain, anvilChain],
+  connectors: [
+    injected(),
+    ...(walletConnectProjectId ? [walletConnect({ projectId: walletConnectProjectId })] : []),
+    coinbaseWallet({ appName: 'DeFi Safe Leveraged LP' }),
+  ],
+  transports: {
+    [baseChain.id]: transport(baseChain.rpcUrls.default.http[0]),
+    [baseSepoliaChain.id]: transport(baseSepoliaChain.rpcUrls.default.http[0]),
+    [anvilChain.id]: transport(anvilChain.rpcUrls.default.http[0]),
+  },
+});
+
+export type SupportedChainId = (typeof wagmiConfig)['chains'][number]['id'];
+
+declare module 'wagmi' {
+  interface Register {
+    config: typeof wagmiConfig;
+  }
+}
@@ -0,0 +1,262 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { readContract, waitForTransactionReceipt } from 'wagmi/actions';
+import { parseAbi } from 'viem';
+import type { Address, Hash } from 'viem';
+import type { ReactNode } from 'react';
+import { ABIs } from '../abis';
+import { isSupportedChain } from '../constants/chains';
+import { wagmiConfig } from '../constants/wagmi';
+import type { SupportedChainId } from '../constants/wagmi';
+import type { Notification, TrackedTransaction, TransactionStatus } from '../types';
+import { createSafeService } from '../utils/safeService';
+import { loadTransactions, saveTransactions, settleProposals } from '../utils/txHistory';
+
+// How long toasts stay on screen unless they set their own duration
+const DEFAULT_TOAST_DURATION_MS = 6_000;
+
+// How often proposals of multi-owner Safes are checked for their execution
+const PROPOSAL_POLL_INTERVAL_MS = 30_000;
+
+const safeAbi = parseAbi(ABIs.Safe);
+
+// Toast shown when a tracked transaction reaches a status
+const STATUS_TOASTS: Partial<Record<TransactionStatus, Omit<Notification, 'id' | 'timestamp'>>> = {
+  proposed: { type: 'info', title: 'Proposed', message: 'waits for the co-owners to confirm' },
+  pending: { type: 'info', title: 'Submitted', message: 'was broadcast' },
+  mined: { type: 'success', title: 'Confirmed', message: 'was mined' },
+  reverted: { type: 'error', title: 'Reverted', message: 'reverted on-chain' },
+  failed: { type: 'error', title: 'Failed', message: 'was not sent' },
+};
+
+interface NotificationContextProps {
+  notifications: Notification[];
+  transactions: TrackedTransaction[];
+  notify: (notification: Omit<Notification, 'id' | 'timestamp'>) => void;
+  dismissNotification: (id: string) => void;
+  trackTransaction: (label: string, chainId: number, safeAddress: string) => string;
+  updateTransaction: (id: string, update: Partial<TrackedTransaction>) => void;
+  watchTransaction: (id: string, txHash: string) => Promise<TransactionStatus>;
+  clearHistory: () => void;
+}
+
+const NotificationContext = createContext<NotificationContextProps>({
+  notifications: [],
+  transactions: [],
+  notify: () => {},
+  dismissNotification: () => {},
+  trackTransaction: () => '',
+  updateTransaction: () => {},
+  watchTransaction: async () => 'pending',
+  clearHistory: () => {},
+});
+
+interface NotificationProviderProps {
+  children: ReactNode;
+}
+
+const NotificationProvider: React.FC<NotificationProviderProps> = ({ children }) => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(loadTransactions);
+
+  // Latest history, updated synchronously so callbacks that outlive a render
+  // (receipt watchers, the Safe execution flow) never work on a stale copy
+  const transactionsRef = useRef(transactions);
+
+  useEffect(() => {
+    saveTransactions(transactions);
+  }, [transactions]);
+
+  /**
+   * Add a toast to the queue
+   * @param notification - Toast content, duration defaults to DEFAULT_TOAST_DURATION_MS
+   */
+  const notify = (notification: Omit<Notification, 'id' | 'timestamp'>) => {
+    setNotifications(prev => [
+      ...prev,
+      {
+        duration: DEFAULT_TOAST_DURATION_MS,
+        ...notification,
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+      },
+    ]);
+  };
+
+  const dismissNotification = (id: string) => {
+    setNotifications(prev => prev.filter(notification => notification.id !== id));
+  };
+
+  /**
+   * Update a tracked transaction and toast its new status
+   * @param id - ID returned by trackTransaction
+   * @param update - Fields to change
+   */
+  const updateTransaction = (id: string, update: Partial<TrackedTransaction>) => {
+    const current = transactionsRef.current.find(tx => tx.id === id);
+    if (!current) return;
+
+    const updated = { ...current, ...update, updatedAt: Date.now() };
+    transactionsRef.current = settleProposals(
+      transactionsRef.current.map(tx => (tx.id === id ? updated : tx)),
+      updated
+    );
+    setTransactions(transactionsRef.current);
+
+    const toast = update.status && current.status !== update.status && STATUS_TOASTS[update.status];
+    if (toast) {
+      notify({
+        type: toast.type,
+        title: toast.title,
+        message: update.error
+          ? `${current.label}: ${update.error}`
+          : `${current.label} ${toast.message}`,
+      });
+    }
+  };
+
+  /**
+   * Start recording a transaction, before the wallet asks for a signature
+   * @param label - Step label shown in the history
+   * @param chainId - Chain the transaction is sent on
+   * @param safeAddress - Safe the transaction belongs to
+   * @returns ID to update the entry with
+   */
+  const trackTransaction = (label: string, chainId: number, safeAddress: string): string => {
+    const now = Date.now();
+    const transaction: TrackedTransaction = {
+      id: crypto.randomUUID(),
+      label,
+      chainId,
+      safeAddress,
+      status: 'signing',
+      createdAt: now,
+      updatedAt: now,
+    };
+    transactionsRef.current = [transaction, ...transactionsRef.current];
+    setTransactions(transactionsRef.current);
+    return transaction.id;
+  };
+
+  /**
+   * Mark a transaction as broadcast and wait until it is mined
+   * @param id - ID returned by trackTransaction
+   * @param txHash - Hash of the broadcast transaction
+   * @returns Mined or reverted, or pending when no receipt could be fetched
+   */
+  const watchTransaction = async (id: string, txHash: string): Promise<TransactionStatus> => {
+    const tracked = transactionsRef.current.find(tx => tx.id === id);
+    if (tracked?.status !== 'pending' || tracked.txHash !== txHash) {
+      updateTransaction(id, { status: 'pending', txHash });
+    }
+
+    // Receipts are read through the wagmi transports, which prefer the injected wallet
+    const chainId = tracked?.chainId ?? 0;
+    if (!isSupportedChain(chainId)) return 'pending';
+
+    try {
+      const receipt = await waitForTransactionReceipt(wagmiConfig, {
+        chainId: chainId as SupportedChainId,
+        hash: txHash as Hash,
+      });
+      const status = receipt.status === 'success' ? 'mined' : 'reverted';
+      updateTransaction(id, { status, gasUsed: receipt.gasUsed.toString() });
+      return status;
+    } catch (error) {
+      console.error(`Error waiting for transaction ${txHash}:`, error);
+      return 'pending';
+    }
+  };
+
+  // Proposals whose nonce the Safe moved past while the service still had them unexecuted,
+  // settled as replaced only when the next poll agrees, so an indexing delay is not mistaken for it
+  const replacedProposalsRef = useRef(new Set<string>());
+
+  /**
+   * Move proposals of multi-owner Safes on once the co-owners executed or replaced them
+   * Executions sent from this browser settle them right away, see settleProposals
+   */
+  const pollProposals = async () => {
+    const proposals = transactionsRef.current.filter(
+      tx => tx.status === 'proposed' && tx.safeTxHash && isSupportedChain(tx.chainId)
+    );
+
+    for (const tx of proposals) {
+      try {
+        const proposal = await createSafeService(tx.chainId).getTransaction(tx.safeTxHash!);
+        if (proposal.isExecuted && proposal.transactionHash) {
+          watchTransaction(tx.id, proposal.transactionHash);
+          continue;
+        }
+
+        const nonce = await readContract(wagmiConfig, {
+          chainId: tx.chainId as SupportedChainId,
+          address: tx.safeAddress as Address,
+          abi: safeAbi,
+          functionName: 'nonce',
+        });
+        if (nonce <= BigInt(proposal.nonce)) {
+          replacedProposalsRef.current.delete(tx.id);
+        } else if (replacedProposalsRef.current.has(tx.id)) {
+          replacedProposalsRef.current.delete(tx.id);
+          updateTransaction(tx.id, {
+            status: 'failed',
+            error: 'Replaced by another transaction with the same nonce',
+          });
+        } else {
+          replacedProposalsRef.current.add(tx.id);
+        }
+      } catch (error) {
+        console.error(`Error checking proposal ${tx.safeTxHash}:`, error);
+      }
+    }
+  };
+
+  const clearHistory = () => {
+    // Transactions in flight stay, they are still being signed or watched
+    transactionsRef.current = transactionsRef.current.filter(
+      tx => tx.status === 'signing' || tx.status === 'pending'
+    );
+    setTransactions(transactionsRef.current);
+  };
+
+  // Resume watching transactions that were still pending when the page was closed
+  useEffect(() => {
+    for (const tx of transactionsRef.current) {
+      if (tx.status === 'pending' && tx.txHash) {
+        watchTransaction(tx.id, tx.txHash);
+      } else if (tx.status === 'signing') {
+        // The wallet prompt belonged to the closed page, nothing was broadcast from here
+        updateTransaction(tx.id, { status: 'failed', error: 'Interrupted by a page reload' });
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    pollProposals();
+    const interval = setInterval(pollProposals, PROPOSAL_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <NotificationContext.Provider
+      value={{
+        notifications,
+        transactions,
+        notify,
+        dismissNotification,
+        trackTransaction,
+        updateTransaction,
+        watchTransaction,
+        clearHistory,
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+// Custom hook to use the notification context
+export const useNotifications = () => useContext(NotificationContext);
+
+export default NotificationProvider;
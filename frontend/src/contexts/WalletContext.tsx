@@ -1,42 +1,141 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { createPublicClient, custom, http } from 'viem';
 import type { Address } from 'viem';
 import type { ReactNode } from 'react';
-import { baseChain } from '../constants/chains';
-import { ethers, providers, Signer, Contract, utils } from 'ethers';
+import { useAccount, useConnect, useDisconnect, useSwitchChain } from 'wagmi';
+import type { Connector } from 'wagmi';
+import {
+  DEFAULT_CHAIN_ID,
+  baseChain,
+  getChainProfile,
+  isSupportedChain,
+} from '../constants/chains';
+import type { SupportedChainId } from '../constants/wagmi';
+import { BigNumber, ethers, providers, Signer, Contract, utils } from 'ethers';
+import type { BigNumberish } from 'ethers';
 
 // Import Safe SDK for production-ready implementation
 import Safe from '@safe-global/protocol-kit';
 import type {
+  Eip1193Provider,
   PredictedSafeProps,
   SafeAccountConfig,
   SafeDeploymentConfig,
 } from '@safe-global/protocol-kit';
 import { getContractAddresses } from '../constants/contractAddresses';
+import { useNotifications } from './NotificationContext';
 import { ABIs } from '../abis';
-
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
+import type { MetaTransactionData, SafeTransaction } from '@safe-global/safe-core-sdk-types';
+import { prepareSafeBatch } from '../utils/safeBatch';
+import type { BatchInterfaces, BatchStep, PreparedSafeBatch } from '../utils/safeBatch';
+import type {
+  ClaimableFees,
+  GrantedApproval,
+  PendingSafeTransaction,
+  SafeExecutionResult,
+  StrategyEvent,
+  StrategyExitResult,
+  StrategyParams,
+  StrategyStatus,
+} from '../types';
+import { simulateSafeTransaction } from '../utils/simulation';
+import { estimateUsdcBorrow, fetchEthPrice } from '../utils/priceService';
+import type { EthPrice } from '../utils/priceService';
+import { createStrategyClient } from '../utils/strategyClient';
+import { createEventIndexer } from '../utils/eventIndexer';
+import { getFeedKey, getSnapshots, saveSnapshot } from '../utils/eventCache';
+import { computeAnalytics, createSnapshot, SNAPSHOT_INTERVAL_MS } from '../utils/analytics';
+import type { AnalyticsPoint } from '../utils/analytics';
+import { computeAccountHealth } from '../utils/health';
+import type { AccountHealth } from '../utils/health';
+import type { StrategyReserves } from '../utils/strategySimulator';
+import { previewRebalance } from '../utils/positionAdjustments';
+import type { PositionBalances } from '../utils/positionAdjustments';
+import { getEthToWrap, validateStrategyParams } from '../utils/strategyValidation';
+import {
+  EXACT_BORROW_BUFFER_BPS,
+  getExactApprovalAmounts,
+  getStrategySteps,
+} from '../utils/strategySteps';
+import type { StrategyAction, StrategyStep, StrategyStepId } from '../utils/strategySteps';
+import { createSafeService } from '../utils/safeService';
+import {
+  discoverSafes,
+  getRegisteredSafes,
+  getSelectedSafe,
+  isSafeOwner,
+  registerSafe,
+  selectSafe,
+} from '../utils/safeRegistry';
+import type { StrategyLimits } from '../utils/strategyValidation';
+
+// Single Safe address stored by earlier versions, migrated into the Safe registry on connect
+const LEGACY_SAFE_ADDRESS_KEY = 'safeAddress';
+
+// Ethers contract instances used to build Safe transactions
+interface StrategyContracts {
+  leveragedLPManager: Contract;
+  weth: Contract;
+  usdc: Contract;
+  aaveDataProvider: Contract;
 }
 
 // Define interface for WalletContext
 interface WalletContextProps {
   // Connection state
   isConnected: boolean;
+  isReadOnly: boolean; // Watching a Safe without a signer, every write throws
+  isConnecting: boolean;
   isLoading: boolean;
+  error: Error | null; // Last failure to connect, switch Safe or network, or create a Safe
   account: string;
   chainId: number;
   safeAddress: string;
+  availableSafes: string[];
 
   balance: string;
 
-  connect: () => Promise<boolean>;
-  createSafeAccount: () => Promise<string | null>;
+  connectors: readonly Pick<Connector, 'id' | 'name'>[];
+
+  connect: (connectorId?: string) => Promise<boolean>;
+  switchSafe: (address: string) => Promise<void>;
+  switchNetwork: (chainId: number) => Promise<void>;
+  createSafeAccount: (owners?: string[], threshold?: number) => Promise<string | null>;
   disconnect: () => void;
   fetchBalance: (address?: string | Address) => Promise<void>;
-  startStrategy: (ethAmount: string, ltv: number) => Promise<string>;
-  exitStrategy: (positionId: string) => Promise<string>;
+  getEthPrice: () => Promise<EthPrice>;
+  getAccountHealth: () => Promise<AccountHealth>;
+  getStrategyLimits: () => Promise<StrategyLimits>;
+  getStrategyReserves: () => Promise<StrategyReserves>;
+  getStrategyProgress: (params: StrategyParams) => Promise<StrategyStep[]>;
+  prepareStartStrategy: (
+    params: StrategyParams,
+    exactApprovals?: boolean
+  ) => Promise<PreparedSafeBatch>;
+  prepareIncreasePosition: (
+    params: StrategyParams,
+    exactApprovals?: boolean
+  ) => Promise<PreparedSafeBatch>;
+  executeSafeBatch: (batch: PreparedSafeBatch) => Promise<SafeExecutionResult>;
+  getPendingSafeTransactions: () => Promise<PendingSafeTransaction[]>;
+  confirmSafeTransaction: (safeTxHash: string) => Promise<void>;
+  executePendingSafeTransaction: (safeTxHash: string) => Promise<string>;
+  getStrategyStatus: () => Promise<StrategyStatus>;
+  prepareExitStrategy: (swapEthForDebt: boolean) => Promise<PreparedSafeBatch>;
+  getPositionBalances: () => Promise<PositionBalances>;
+  prepareReducePosition: (
+    percentage: number,
+    swapEthForDebt: boolean,
+    slippageBps: number
+  ) => Promise<PreparedSafeBatch>;
+  prepareRebalancePosition: (targetLtv: number, slippageBps: number) => Promise<PreparedSafeBatch>;
+  getClaimableFees: () => Promise<ClaimableFees>;
+  prepareHarvestFees: () => Promise<PreparedSafeBatch>;
+  getApprovals: () => Promise<GrantedApproval[]>;
+  prepareRevokeApprovals: (approvals: GrantedApproval[]) => Promise<PreparedSafeBatch>;
+  getStrategyExitResult: (txHash: string) => Promise<StrategyExitResult>;
+  syncStrategyEvents: () => Promise<StrategyEvent[]>;
+  getPositionAnalytics: () => Promise<AnalyticsPoint[]>;
   depositETH: (amount: string) => Promise<string>;
   convertEthToWeth: (amount: string) => Promise<string>;
   completeApprovalProcess: (ethAmount: string, ltv: number) => Promise<boolean>;
@@ -45,34 +144,112 @@ interface WalletContextProps {
 // Create context with default values
 const WalletContext = createContext<WalletContextProps>({
   isConnected: false,
+  isReadOnly: false,
+  isConnecting: false,
   isLoading: false,
+  error: null,
   account: '',
   chainId: 0,
   safeAddress: '',
+  availableSafes: [],
   balance: '0',
+  connectors: [],
   connect: async () => false,
+  switchSafe: async () => {},
+  switchNetwork: async () => {},
   createSafeAccount: async () => null,
   disconnect: () => {},
   depositETH: async () => '',
   fetchBalance: async () => {},
-  startStrategy: async () => '',
-  exitStrategy: async () => '',
+  getEthPrice: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getAccountHealth: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getStrategyLimits: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getStrategyReserves: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getStrategyProgress: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  prepareStartStrategy: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  prepareIncreasePosition: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  executeSafeBatch: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getPendingSafeTransactions: async () => [],
+  confirmSafeTransaction: async () => {},
+  executePendingSafeTransaction: async () => '',
+  getStrategyStatus: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  prepareExitStrategy: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getPositionBalances: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  prepareReducePosition: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  prepareRebalancePosition: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getClaimableFees: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  prepareHarvestFees: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getApprovals: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  prepareRevokeApprovals: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getStrategyExitResult: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  syncStrategyEvents: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
+  getPositionAnalytics: async () => {
+    throw new Error('WalletProvider not mounted');
+  },
   convertEthToWeth: async () => '',
-  completeApprovalProcess: async () => '',
+  completeApprovalProcess: async () => false,
 });
 
+// A Safe opened read-only, by address, without connecting a wallet
+export interface WatchedSafe {
+  address: string;
+  chainId: number;
+}
+
 // Define props for WalletProvider
 interface WalletProviderProps {
   children: ReactNode;
+  // Reads go through the chain's JSON-RPC endpoint and the wallet connection is ignored.
+  // Remount the provider (with a key) to watch another Safe
+  watchSafe?: WatchedSafe;
 }
 
 // Create WalletProvider component
-const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
-  // Connection state
-  const [isConnected, setIsConnected] = useState<boolean>(false);
+const WalletProvider: React.FC<WalletProviderProps> = ({ children, watchSafe }) => {
+  // Connection state, set up front when watching since there is nothing to connect
+  const [isConnected, setIsConnected] = useState<boolean>(!!watchSafe);
   const [account, setAccount] = useState<string>('');
-  const [chainId, setChainId] = useState<number>(0);
-  const [safeAddress, setSafeAddress] = useState<string>('');
+  const [chainId, setChainId] = useState<number>(watchSafe?.chainId ?? 0);
+  const [safeAddress, setSafeAddress] = useState<string>(watchSafe?.address ?? '');
+  const [availableSafes, setAvailableSafes] = useState<string[]>([]);
 
   // Error and loading state
   const [error, setError] = useState<Error | null>(null);
@@ -82,22 +259,36 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   // Balance
   const [balance, setBalance] = useState<string>('0');
 
+  // Wallet connection managed by wagmi, the state above follows it
+  const { address: walletAccount, chainId: walletChainId, connector, status } = useAccount();
+  const { connectAsync, connectors } = useConnect();
+  const { disconnect: disconnectWallet } = useDisconnect();
+  const { switchChainAsync } = useSwitchChain();
+
   // Provider and signer
-  const [provider, setProvider] = useState<providers.Web3Provider | null>(null);
+  const [walletProvider, setWalletProvider] = useState<Eip1193Provider | null>(null);
+  const [provider, setProvider] = useState<providers.JsonRpcProvider | null>(() =>
+    watchSafe
+      ? new providers.JsonRpcProvider(
+          getChainProfile(watchSafe.chainId)?.chain.rpcUrls.default.http[0],
+          watchSafe.chainId
+        )
+      : null
+  );
   const [signer, setSigner] = useState<Signer | null>(null);
-  const [safeSDK, setSafeSDK] = useState<any | null>(null);
+  const [safeSDK, setSafeSDK] = useState<Safe | null>(null);
 
-  // Contract instances
-  const [leveragedLPManager, setLeveragedLPManager] = useState<Contract | null>(null);
-  const [feeCollectHook, setFeeCollectHook] = useState<Contract | null>(null);
-  const [positionManager, setPositionManager] = useState<Contract | null>(null);
+  // Every transaction sent from here is recorded in the notification center
+  const { notify, trackTransaction, updateTransaction, watchTransaction } = useNotifications();
 
   /**
    * Initialize contract instances needed for the strategy
    * @param provider - Ethers provider
    * @returns Object containing contract instances
    */
-  const initializeContracts = (provider: providers.Web3Provider | providers.JsonRpcProvider) => {
+  const initializeContracts = (
+    provider: providers.Web3Provider | providers.JsonRpcProvider
+  ): StrategyContracts => {
     console.log('Initializing contract interfaces...');
 
     // Get contract addresses
@@ -129,44 +320,175 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   };
 
   /**
-   * Create and execute a Safe transaction
+   * Get the chain definition of a chain profile, Base when the chain is not supported
+   * @param id - Chain ID
+   */
+  const getChain = (id: number) => getChainProfile(id)?.chain ?? baseChain;
+
+  /**
+   * Create a viem client reading through the connected wallet, or the chain's RPC without one
+   */
+  const getPublicClient = () =>
+    createPublicClient({
+      chain: getChain(chainId),
+      transport: walletProvider ? custom(walletProvider) : http(),
+    });
+
+  /**
+   * Create the typed strategy client for the connected wallet and chain
+   * @returns Strategy client reading through the connected wallet
+   */
+  const getStrategyClient = () =>
+    createStrategyClient(getPublicClient(), getContractAddresses(chainId));
+
+  /**
+   * Sign and execute an already created Safe transaction
    * @param safeSdk - Safe SDK instance
-   * @param txData - Transaction data
+   * @param safeTransaction - Unsigned Safe transaction
    * @param description - Description of the transaction for logging
-   * @returns Transaction receipt
+   * @returns Transaction result
    */
-  const executeSafeTransaction = async (safeSdk: any, txData: any, description: string) => {
+  const signAndExecuteSafeTransaction = async (
+    safeSdk: Safe,
+    safeTransaction: SafeTransaction,
+    description: string
+  ): Promise<SafeExecutionResult> => {
+    const trackingId = trackTransaction(description, chainId, await safeSdk.getAddress());
+    let txHash: string | null = null;
+
     try {
-      console.log(`Creating Safe transaction for ${description}...`);
-      const safeTransaction = await safeSdk.createTransaction({ safeTransactionData: txData });
+      // Simulate first so a revert surfaces before the owner signs and pays for gas
+      if (provider && signer) {
+        console.log(`Simulating Safe transaction for ${description}...`);
+        const simulation = await simulateSafeTransaction(
+          provider,
+          await safeSdk.getAddress(),
+          await signer.getAddress(),
+          safeTransaction
+        );
+        if (!simulation.simulated) {
+          notify({
+            type: 'warning',
+            title: 'Not simulated',
+            message: `${description}: ${simulation.skipReason}`,
+          });
+        } else if (!simulation.success) {
+          throw new Error(`${description} would revert: ${simulation.revertReason}`);
+        }
+      }
+
+      // Safes that need several owners collect the signatures off-chain first
+      const threshold = await safeSdk.getThreshold();
+      if (threshold > 1) {
+        const result = await proposeSafeTransaction(
+          safeSdk,
+          safeTransaction,
+          description,
+          threshold
+        );
+        updateTransaction(trackingId, { status: 'proposed', safeTxHash: result.safeTxHash });
+        return result;
+      }
+
       const signedSafeTx = await safeSdk.signTransaction(safeTransaction);
+      updateTransaction(trackingId, {
+        safeTxHash: await safeSdk.getTransactionHash(signedSafeTx),
+      });
 
       console.log(`Executing Safe transaction for ${description}...`);
 
       // Use a higher gas limit for complex transactions like startStrategy
       const options = {
-        gasLimit: description === 'StartStrategy' ? 1500000 : 1000000,
-        maxFeePerGas: utils.parseUnits('0.002', 'gwei'),
-        maxPriorityFeePerGas: utils.parseUnits('0.0000001', 'gwei'),
+        gasLimit: [
+          'StartStrategy',
+          'IncreasePosition',
+          'ReducePosition',
+          'RebalancePosition',
+        ].includes(description)
+          ? 2000000
+          : 1000000,
+        maxFeePerGas: utils.parseUnits('0.002', 'gwei').toString(),
+        maxPriorityFeePerGas: utils.parseUnits('0.0000001', 'gwei').toString(),
       };
 
       const executeTxResponse = await safeSdk.executeTransaction(signedSafeTx, options);
-      if (executeTxResponse.transactionResponse) {
-        await executeTxResponse.transactionResponse.wait();
+      txHash = executeTxResponse.hash;
+      if ((await watchTransaction(trackingId, txHash)) === 'reverted') {
+        throw new Error(`${description} reverted on-chain`);
       }
 
-      console.log(
-        `${description} successful! Tx hash: ${executeTxResponse.transactionResponse?.hash}`
-      );
-      return executeTxResponse;
+      console.log(`${description} successful! Tx hash: ${txHash}`);
+      return { status: 'executed', txHash };
     } catch (error) {
       console.error(
         `Error executing Safe transaction for ${description}: ${error instanceof Error ? error.message : String(error)}`
       );
+      // Once broadcast, the receipt decides the status
+      if (!txHash) {
+        updateTransaction(trackingId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
       throw error;
     }
   };
 
+  /**
+   * Sign a Safe transaction and propose it to the Safe Transaction Service
+   * The co-owners confirm it from their own session, it is executed once the threshold is met
+   * @param safeSdk - Safe SDK instance
+   * @param safeTransaction - Transaction to propose
+   * @param description - Description shown to the co-owners
+   * @param threshold - Number of confirmations the Safe requires
+   * @returns The proposal, confirmed by the connected owner
+   */
+  const proposeSafeTransaction = async (
+    safeSdk: Safe,
+    safeTransaction: SafeTransaction,
+    description: string,
+    threshold: number
+  ): Promise<Extract<SafeExecutionResult, { status: 'proposed' }>> => {
+    const [safeTxHash, senderAddress] = await Promise.all([
+      safeSdk.getTransactionHash(safeTransaction),
+      safeSdk.getSafeProvider().getSignerAddress(),
+    ]);
+    if (!senderAddress) {
+      throw new Error('No signer available');
+    }
+    const signature = await safeSdk.signHash(safeTxHash);
+
+    console.log(`Proposing Safe transaction for ${description}...`);
+    await createSafeService(chainId).proposeTransaction({
+      safeAddress: await safeSdk.getAddress(),
+      safeTransactionData: safeTransaction.data,
+      safeTxHash,
+      senderAddress,
+      senderSignature: signature.data,
+      origin: description,
+    });
+
+    console.log(`${description} proposed, safeTxHash: ${safeTxHash}`);
+    return { status: 'proposed', safeTxHash, confirmations: 1, threshold };
+  };
+
+  /**
+   * Create and execute a Safe transaction
+   * @param safeSdk - Safe SDK instance
+   * @param txData - Transaction data
+   * @param description - Description of the transaction for logging
+   * @returns Transaction result
+   */
+  const executeSafeTransaction = async (
+    safeSdk: Safe,
+    txData: MetaTransactionData,
+    description: string
+  ) => {
+    console.log(`Creating Safe transaction for ${description}...`);
+    const safeTransaction = await safeSdk.createTransaction({ transactions: [txData] });
+    return signAndExecuteSafeTransaction(safeSdk, safeTransaction, description);
+  };
+
   /**
    * Fund the Safe with ETH
    * @param signer - Ethers signer
@@ -184,141 +506,191 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     console.log(`Successfully sent ETH to Safe. Tx hash: ${tx.hash}`);
     return tx;
   };
-  
-  // Connect wallet
-  const connect = async (): Promise<boolean> => {
-    setIsConnecting(true);
+
+  /**
+   * Connect a wallet through one of the wagmi connectors
+   * Account, chain and Safe state are loaded by the effect following the wagmi connection
+   * @param connectorId - ID of one of the connectors, the first one (injected) by default
+   * @returns Whether the wallet connected
+   */
+  const connect = async (connectorId?: string): Promise<boolean> => {
     setError(null);
 
     try {
-      // Check if ethereum is available
-      if (!window.ethereum) {
-        throw new Error(
-          'No Ethereum wallet detected. Please install MetaMask or another compatible wallet.'
-        );
+      const selected = connectors.find(({ id }) => id === connectorId) ?? connectors[0];
+      if (!selected) {
+        throw new Error('No wallet connector available');
       }
 
-      // Request accounts
-      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
-      const userAccount = accounts[0];
-      setAccount(userAccount);
-
-      // Create provider and signer
-      const web3Provider = new providers.Web3Provider(window.ethereum);
-      setProvider(web3Provider);
-
-      const userSigner = web3Provider.getSigner();
-      setSigner(userSigner);
-
-      // Get network
-      const network = await web3Provider.getNetwork();
-      const currentChainId = Number(network.chainId);
-      setChainId(currentChainId);
+      await connectAsync({ connector: selected });
+      return true;
+    } catch (error) {
+      console.error('Error connecting wallet:', error);
+      setError(error instanceof Error ? error : new Error('Unknown error connecting wallet'));
+      return false;
+    }
+  };
 
-      // Check if we're on Base
-      if (currentChainId !== baseChain.id) {
-        try {
-          // Try to switch to Base
-          await window.ethereum.request({
-            method: 'wallet_switchEthereumChain',
-            params: [{ chainId: `0x${baseChain.id.toString(16)}` }],
-          });
+  /**
+   * Load the provider, signer and Safes of the account and chain wagmi is connected to
+   * @param ownerAddress - Connected account
+   * @param connectedChainId - Chain the wallet is on
+   * @param activeConnector - Connector the wallet is connected through
+   * @param isCurrent - Whether wagmi is still on this account and chain, checked after every await
+   */
+  const loadConnection = async (
+    ownerAddress: string,
+    connectedChainId: number,
+    activeConnector: Connector,
+    isCurrent: () => boolean
+  ) => {
+    // Stay on any supported chain, otherwise move to the default one.
+    // The switch changes the wagmi chain, which loads the connection again
+    if (!isSupportedChain(connectedChainId)) {
+      await switchChainAsync({ chainId: DEFAULT_CHAIN_ID });
+      return;
+    }
 
-          // Update chain ID after switch
-          const updatedNetwork = await web3Provider.getNetwork();
-          setChainId(Number(updatedNetwork.chainId));
-        } catch (switchError: any) {
-          // This error code indicates that the chain has not been added to MetaMask
-          if (switchError.code === 4902) {
-            try {
-              await window.ethereum.request({
-                method: 'wallet_addEthereumChain',
-                params: [
-                  {
-                    chainId: `0x${baseChain.id.toString(16)}`,
-                    chainName: 'Base',
-                    nativeCurrency: {
-                      name: 'ETH',
-                      symbol: 'ETH',
-                      decimals: 18,
-                    },
-                    rpcUrls: ['https://mainnet.base.org'],
-                    blockExplorerUrls: ['https://basescan.org'],
-                  },
-                ],
-              });
-
-              // Update chain ID after adding
-              const updatedNetwork = await web3Provider.getNetwork();
-              setChainId(Number(updatedNetwork.chainId));
-            } catch (addError) {
-              throw new Error('Failed to add Base network to your wallet.');
-            }
-          } else {
-            throw new Error('Failed to switch to Base network.');
-          }
-        }
+    // Create provider and signer
+    const eip1193Provider = (await activeConnector.getProvider()) as Eip1193Provider;
+    if (!isCurrent()) return;
+
+    const web3Provider = new providers.Web3Provider(eip1193Provider as providers.ExternalProvider);
+    setWalletProvider(eip1193Provider);
+    setProvider(web3Provider);
+    setSigner(web3Provider.getSigner());
+    setAccount(ownerAddress);
+    setChainId(connectedChainId);
+
+    // Safe address stored by earlier versions, kept only if this account owns it
+    const legacySafeAddress = localStorage.getItem(LEGACY_SAFE_ADDRESS_KEY);
+    if (legacySafeAddress) {
+      if (await isSafeOwner(web3Provider, legacySafeAddress, ownerAddress)) {
+        registerSafe(ownerAddress, connectedChainId, legacySafeAddress);
       }
-      // Check for existing Safe address in localStorage
-      const savedSafeAddress = localStorage.getItem('safeAddress');
+      localStorage.removeItem(LEGACY_SAFE_ADDRESS_KEY);
+    }
 
-      if (savedSafeAddress) {
-        setSafeAddress(savedSafeAddress);
+    // Discover the owner's Safes and reopen the one picked last on this chain
+    const safes = await discoverSafes(
+      createSafeService(connectedChainId),
+      ownerAddress,
+      connectedChainId
+    );
+    if (!isCurrent()) return;
+    setAvailableSafes(safes);
+
+    const savedSafeAddress = getSelectedSafe(ownerAddress, connectedChainId) ?? safes[0];
+    if (savedSafeAddress) {
+      try {
+        await initializeSafe(web3Provider, ownerAddress, connectedChainId, savedSafeAddress);
+      } catch (error) {
+        console.error('Error initializing Safe SDK:', error);
+        // Forget the selection so the user can pick another Safe
+        selectSafe(ownerAddress, connectedChainId, null);
+        setSafeAddress('');
+        setSafeSDK(null);
+      }
+    } else {
+      // The account may have changed to one without a Safe
+      setSafeAddress('');
+      setSafeSDK(null);
+    }
 
-        try {
-          if (!userSigner) {
-            throw new Error('No signer available');
-          }
+    // The wallet is connected even when no Safe is open yet
+    setIsConnected(true);
+  };
 
-          console.log('Initializing Safe SDK with address:', savedSafeAddress);
+  /**
+   * Open a Safe after checking that the connected account is one of its owners
+   * @param web3Provider - Provider of the connected wallet
+   * @param ownerAddress - Connected account
+   * @param safeChainId - Chain the Safe is on
+   * @param address - Safe to open
+   */
+  const initializeSafe = async (
+    web3Provider: providers.Web3Provider,
+    ownerAddress: string,
+    safeChainId: number,
+    address: string
+  ) => {
+    if (!(await isSafeOwner(web3Provider, address, ownerAddress))) {
+      throw new Error(`${ownerAddress} is not an owner of Safe ${address}`);
+    }
 
-          const rpcUrl = process.env.BASE_RPC_URL || baseChain.rpcUrls.default.http[0];
+    console.log('Initializing Safe SDK with address:', address);
 
-          const signerAddress = await userSigner.getAddress();
+    // Initialize Safe SDK with the wallet's provider, so owners sign through their connector
+    const protocolKit = await Safe.init({
+      provider: web3Provider.provider as Eip1193Provider,
+      signer: ownerAddress,
+      safeAddress: address,
+    });
 
-          // Initialize Safe SDK with the provider and signer
-          const protocolKit = await Safe.init({
-            provider: rpcUrl,
-            signer: signerAddress,
-            safeAddress: savedSafeAddress,
-          });
+    setSafeSDK(protocolKit);
+    setSafeAddress(address);
+    selectSafe(ownerAddress, safeChainId, address);
 
-          // Set the Safe SDK instance
-          setSafeSDK(protocolKit);
+    console.log('Successfully initialized Safe SDK');
 
-          console.log('Successfully initialized Safe SDK');
+    // Fetch Safe balance
+    await fetchBalance(address);
+  };
 
-          setIsConnected(true);
+  /**
+   * Switch to another Safe of the connected account
+   * @param address - Safe to open, one of availableSafes
+   */
+  const switchSafe = async (address: string) => {
+    // A watched Safe is read through a plain RPC provider, which cannot sign for an owner
+    if (!(provider instanceof providers.Web3Provider) || !account) {
+      throw new Error('Wallet not connected');
+    }
 
-          // Fetch Safe balance
-          await fetchBalance(savedSafeAddress);
-        } catch (error) {
-          console.error('Error initializing Safe SDK:', error);
-          // If there's an error with the saved Safe address, clear it
-          localStorage.removeItem('safeAddress');
-          setSafeAddress('');
-        }
-      } else {
-        // No Safe address found, but wallet is connected
-        setIsConnected(true);
-      }
+    try {
+      setIsLoading(true);
+      setError(null);
+      await initializeSafe(provider, account, chainId, address);
+    } catch (error) {
+      console.error('Error switching Safe:', error);
+      setError(error instanceof Error ? error : new Error('Unknown error switching Safe'));
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      // Set up event listeners for account and chain changes
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', handleChainChanged);
+  /**
+   * Switch the wallet to another supported chain, adding it to the wallet first if needed
+   * The connection is loaded again for the new chain once wagmi reports the switch
+   * @param targetChainId - Chain ID of one of the chain profiles
+   */
+  const switchNetwork = async (targetChainId: number) => {
+    if (!isSupportedChain(targetChainId)) {
+      throw new Error(`Chain ID ${targetChainId} is not supported`);
+    }
+    if (targetChainId === chainId) return;
 
-      setIsConnecting(false);
-      return true;
+    try {
+      setError(null);
+      await switchChainAsync({ chainId: targetChainId as SupportedChainId });
     } catch (error) {
-      console.error('Error connecting wallet:', error);
-      setIsConnecting(false);
-      setError(error instanceof Error ? error : new Error('Unknown error connecting wallet'));
-      return false;
+      console.error('Error switching network:', error);
+      setError(error instanceof Error ? error : new Error('Unknown error switching network'));
+      throw error;
     }
   };
 
-  // Function to create a new Safe account using Gnosis Pay
-  const createSafeAccount = async (): Promise<string | null> => {
+  /**
+   * Deploy a new Safe, by default owned by the connected account alone
+   * @param owners - Co-owners, the connected account is always added
+   * @param threshold - Number of owner confirmations a transaction needs
+   * @returns The Safe address, or null when deployment failed
+   */
+  const createSafeAccount = async (
+    owners: string[] = [],
+    threshold = 1
+  ): Promise<string | null> => {
     try {
       setIsLoading(true);
 
@@ -331,12 +703,19 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
 
       // Use the Safe SDK to create a new Safe
       // Initialize the Safe SDK with the provider and signer
-      const rpcUrl = process.env.BASE_RPC_URL || baseChain.rpcUrls.default.http[0];
+      const rpcUrl = getChain(chainId).rpcUrls.default.http[0];
+
+      const safeOwners = [
+        ...new Set([signerAddress, ...owners].map(owner => utils.getAddress(owner))),
+      ];
+      if (threshold < 1 || threshold > safeOwners.length) {
+        throw new Error(`Threshold must be between 1 and ${safeOwners.length}`);
+      }
 
       // Create Safe account config
       const safeAccountConfig: SafeAccountConfig = {
-        owners: [signerAddress],
-        threshold: 1,
+        owners: safeOwners,
+        threshold,
       };
 
       // Create Safe deployment config
@@ -363,7 +742,6 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
       const deploymentTransaction = await protocolKit.createSafeDeploymentTransaction();
 
       // Execute the deployment transaction
-      const jsonRpcProvider = new providers.JsonRpcProvider(rpcUrl);
       const tx = await signer.sendTransaction({
         to: deploymentTransaction.to,
         data: deploymentTransaction.data,
@@ -379,8 +757,9 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         safeAddress: predictedSafeAddress,
       });
 
-      // Save the Safe address to localStorage
-      localStorage.setItem('safeAddress', predictedSafeAddress);
+      // Add the Safe to the owner's registry and select it
+      registerSafe(signerAddress, chainId, predictedSafeAddress);
+      setAvailableSafes(getRegisteredSafes(signerAddress, chainId));
       setSafeAddress(predictedSafeAddress);
       setIsConnected(true);
 
@@ -400,41 +779,24 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   };
 
-  // Handle account changes
-  const handleAccountsChanged = (accounts: string[]) => {
-    if (accounts.length === 0) {
-      // User disconnected their wallet
-      disconnect();
-    } else {
-      // User switched accounts
-      setAccount(accounts[0]);
-      // Reconnect with new account
-      connect();
-    }
-  };
-
-  // Handle chain changes
-  const handleChainChanged = () => {
-    // Reload the page on chain change as recommended by MetaMask
-    window.location.reload();
-  };
-
-  // Disconnect wallet
-  const disconnect = () => {
+  // Forget the account, chain and Safe of a connection that ended
+  const resetConnection = () => {
     setIsConnected(false);
     setAccount('');
     setChainId(0);
     setSafeAddress('');
+    setAvailableSafes([]);
     setSafeSDK(null);
+    setWalletProvider(null);
     setProvider(null);
     setSigner(null);
     setBalance('0');
-    setLeveragedLPManager(null);
-    setFeeCollectHook(null);
-    setPositionManager(null);
+  };
 
-    // Clear Safe address from localStorage
-    localStorage.removeItem('safeAddress');
+  // Disconnect wallet
+  const disconnect = () => {
+    // The Safe registry is kept, so reconnecting reopens the same Safe
+    disconnectWallet();
   };
 
   // Fetch ETH balance
@@ -470,17 +832,29 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
       }
 
       // Send ETH directly to Safe address
-      const tx = await signer.sendTransaction({
-        to: safeAddress,
-        value: utils.parseEther(amount),
-      });
+      const trackingId = trackTransaction('Deposit ETH', chainId, safeAddress);
+      let tx;
+      try {
+        tx = await signer.sendTransaction({
+          to: safeAddress,
+          value: utils.parseEther(amount),
+        });
+      } catch (error) {
+        updateTransaction(trackingId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
 
-      const receipt = await tx.wait();
+      if ((await watchTransaction(trackingId, tx.hash)) === 'reverted') {
+        throw new Error('ETH deposit reverted on-chain');
+      }
 
       // Refresh balance
       await fetchBalance();
 
-      return receipt.transactionHash;
+      return tx.hash;
     } catch (error) {
       console.error('ETH deposit error:', error);
       throw error;
@@ -508,12 +882,14 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         throw new Error('WETH address not found for this network');
       }
 
-      // Send ETH directly to the Safe first
-      await fundSafeWithEth(signer, safeAddress, amount);
-
-      // Check current ETH balance in the Safe
+      // Only send the ETH the Safe is missing, so a retry after a failed deposit
+      // wraps what is already there instead of funding the Safe again
+      const amountWei = utils.parseEther(amount);
       const ethBalance = await safeSDK.getBalance();
       console.log(`Current ETH balance in Safe: ${utils.formatEther(ethBalance)} ETH`);
+      if (amountWei.gt(ethBalance)) {
+        await fundSafeWithEth(signer, safeAddress, utils.formatEther(amountWei.sub(ethBalance)));
+      }
 
       // Initialize contracts
       const contracts = initializeContracts(provider!);
@@ -522,26 +898,25 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
       const wethDepositData = {
         to: addresses.weth,
         data: contracts.weth.interface.encodeFunctionData('deposit'),
-        value: utils.parseEther(amount).toString(),
+        value: amountWei.toString(),
       };
 
       // Execute the transaction through the Safe
       const result = await executeSafeTransaction(safeSDK, wethDepositData, 'Convert ETH to WETH');
+      if (result.status === 'proposed') {
+        // The deposit runs once the co-owners confirm it
+        return result.safeTxHash;
+      }
 
       // Verify WETH balance after conversion
       const wethBalance = await contracts.weth.balanceOf(safeAddress);
       console.log(`WETH balance after conversion: ${utils.formatEther(wethBalance)} WETH`);
 
       // Get transaction hash
-      let txHash = '';
-      if (result.transactionResponse && result.transactionResponse.hash) {
-        txHash = result.transactionResponse.hash;
-      }
-
       // Refresh balance
       await fetchBalance();
 
-      return txHash;
+      return result.txHash;
     } catch (error) {
       console.error(
         `Error converting ETH to WETH: ${error instanceof Error ? error.message : String(error)}`
@@ -551,417 +926,1121 @@ const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   };
 
   /**
-   * Approve WETH for the LeveragedLPManager contract
+   * Build the step that wraps ETH held by the Safe into WETH
+   * @param contracts - Object containing contract instances
+   * @param ethAmountWei - Amount of ETH to wrap in Wei (BigNumber)
+   * @returns Batch step calling WETH.deposit() with ETH value
+   */
+  const buildWrapEthStep = (contracts: StrategyContracts, ethAmountWei: BigNumber): BatchStep => ({
+    label: 'Convert ETH to WETH',
+    transaction: {
+      to: contracts.weth.address,
+      data: contracts.weth.interface.encodeFunctionData('deposit'),
+      value: ethAmountWei.toString(),
+    },
+  });
+
+  /**
+   * Build the WETH approval step for the LeveragedLPManager contract
+   * @param contracts - Object containing contract instances
+   * @param amount - Allowance to grant, the maximum amount by default
+   * @returns Batch step approving the amount
+   */
+  const buildWethApprovalStep = (
+    contracts: StrategyContracts,
+    amount: BigNumberish = ethers.constants.MaxUint256
+  ): BatchStep => ({
+    label: 'WETH approval',
+    transaction: {
+      to: contracts.weth.address,
+      data: contracts.weth.interface.encodeFunctionData('approve', [
+        contracts.leveragedLPManager.address,
+        amount,
+      ]),
+      value: '0',
+    },
+  });
+
+  /**
+   * Build the USDC approval step for the LeveragedLPManager contract
+   * @param contracts - Object containing contract instances
+   * @param amount - Allowance to grant, the maximum amount by default
+   * @returns Batch step approving the amount
+   */
+  const buildUsdcApprovalStep = (
+    contracts: StrategyContracts,
+    amount: BigNumberish = ethers.constants.MaxUint256
+  ): BatchStep => ({
+    label: 'USDC approval',
+    transaction: {
+      to: contracts.usdc.address,
+      data: contracts.usdc.interface.encodeFunctionData('approve', [
+        contracts.leveragedLPManager.address,
+        amount,
+      ]),
+      value: '0',
+    },
+  });
+
+  /**
+   * Build the Aave V3 debt token delegation step (critical for borrowing)
+   * @param contracts - Object containing contract instances
+   * @param amount - USDC credit to delegate, the maximum amount by default
+   * @returns Batch step and the debt token interface used to decode it
+   */
+  const buildDebtDelegationStep = async (
+    contracts: StrategyContracts,
+    amount: BigNumberish = ethers.constants.MaxUint256
+  ): Promise<{ step: BatchStep; debtToken: Contract }> => {
+    // Get the USDC debt token address from Aave
+    console.log('Fetching USDC variable debt token address from Aave...');
+    const usdcTokenData = await contracts.aaveDataProvider.getReserveTokensAddresses(
+      contracts.usdc.address
+    );
+    const variableDebtTokenAddress = usdcTokenData.variableDebtTokenAddress;
+
+    console.log(`USDC Variable Debt Token address: ${variableDebtTokenAddress}`);
+
+    const debtToken = new Contract(variableDebtTokenAddress, ABIs.AaveDebtToken);
+
+    // CRITICAL: The Safe must be the one calling approveDelegation
+    console.log(
+      `Setting up debt delegation from Safe to LeveragedLPManager (${contracts.leveragedLPManager.address})`
+    );
+
+    return {
+      debtToken,
+      step: {
+        label: 'Aave debt token delegation',
+        transaction: {
+          to: variableDebtTokenAddress,
+          data: debtToken.interface.encodeFunctionData('approveDelegation', [
+            contracts.leveragedLPManager.address,
+            amount,
+          ]),
+          value: '0',
+        },
+      },
+    };
+  };
+
+  /**
+   * Build the startStrategy call on the LeveragedLPManager contract
    * @param safeAddress - Address of the Safe
-   * @param safeSdk - Safe SDK instance
    * @param contracts - Object containing contract instances
-   * @param ethAmountWei - Amount of ETH to approve in Wei (BigNumber)
+   * @param params - Strategy parameters entered by the user
+   * @returns Batch step calling startStrategy
    */
-  const approveWethForLeveragedLPManager = async (
-    safeAddress: string,
-    safeSdk: any,
-    contracts: any,
-    ethAmountWei = utils.parseEther('0.0001')
-  ) => {
+  const buildStartStrategyStep = (
+    safeAddress: Address,
+    contracts: StrategyContracts,
+    params: StrategyParams
+  ): BatchStep => {
+    const { ethAmount, ltv, slippageBps } = params;
+
+    console.log('Creating startStrategy call with parameters:');
+    console.log(`- Safe address: ${safeAddress}`);
+    console.log(`- ETH amount: ${utils.formatEther(ethAmount)} ETH`);
+    console.log(`- LTV: ${ltv}%`);
+    console.log(`- Slippage: ${slippageBps / 100}%`);
+
+    return {
+      label: 'StartStrategy',
+      transaction: {
+        to: contracts.leveragedLPManager.address,
+        data: getStrategyClient().encodeStartStrategy(safeAddress, params),
+        value: '0',
+      },
+    };
+  };
+
+  /**
+   * Build the increasePosition call on the LeveragedLPManager contract
+   * @param safeAddress - Address of the Safe
+   * @param contracts - Object containing contract instances
+   * @param params - ETH to add, the LTV to borrow at against it and the slippage
+   * @returns Batch step calling increasePosition
+   */
+  const buildIncreasePositionStep = (
+    safeAddress: Address,
+    contracts: StrategyContracts,
+    params: StrategyParams
+  ): BatchStep => {
+    console.log(
+      `Creating increasePosition call adding ${utils.formatEther(params.ethAmount)} ETH at ${params.ltv}% LTV`
+    );
+
+    return {
+      label: 'IncreasePosition',
+      transaction: {
+        to: contracts.leveragedLPManager.address,
+        data: getStrategyClient().encodeIncreasePosition(safeAddress, params),
+        value: '0',
+      },
+    };
+  };
+
+  /**
+   * Collect the contract interfaces used to decode a batch for review
+   * @param contracts - Object containing contract instances
+   * @param extra - Additional contracts that are only known while building the batch
+   */
+  const getBatchInterfaces = (
+    contracts: StrategyContracts,
+    extra: Contract[] = []
+  ): BatchInterfaces => {
+    const interfaces: BatchInterfaces = {
+      [contracts.leveragedLPManager.address.toLowerCase()]: {
+        name: 'LeveragedLPManager',
+        iface: contracts.leveragedLPManager.interface,
+      },
+      [contracts.weth.address.toLowerCase()]: { name: 'WETH', iface: contracts.weth.interface },
+      [contracts.usdc.address.toLowerCase()]: { name: 'USDC', iface: contracts.usdc.interface },
+    };
+    for (const contract of extra) {
+      interfaces[contract.address.toLowerCase()] = {
+        name: 'AaveDebtToken',
+        iface: contract.interface,
+      };
+    }
+    return interfaces;
+  };
+
+  /**
+   * Verify the strategy was created successfully
+   * @param safeAddress - Address of the Safe
+   */
+  const verifyStrategyPosition = async (safeAddress: Address) => {
     try {
-      console.log('Checking if WETH allowance is needed...');
+      console.log('Verifying strategy position was created successfully...');
+      const position = await getStrategyClient().readPosition(safeAddress);
 
-      // Get contract addresses
-      const addresses = getContractAddresses(chainId);
-      if (!addresses) {
-        throw new Error('Contract addresses not found for this network');
+      if (position.isActive) {
+        console.log('Position successfully created!');
+        console.log(`LP Token ID: ${position.lpTokenId.toString()}`);
+        return true;
+      } else {
+        console.error('Position not found. Strategy initialization may have failed.');
+        return false;
       }
+    } catch (error) {
+      console.error(
+        `Error verifying position: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return false;
+    }
+  };
 
-      const wethAllowance = await contracts.weth.allowance(
-        safeAddress,
-        addresses.leveragedLPManager
+  // Complete the approval process for starting a strategy
+  // This batches approving WETH, USDC, and setting up Aave debt token delegation
+  // into a single Safe transaction
+  const completeApprovalProcess = async (ethAmount: string, ltv: number): Promise<boolean> => {
+    if (!safeAddress || !signer || !safeSDK || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
+
+    try {
+      const contracts = initializeContracts(provider);
+
+      // Slippage only matters to startStrategy, not to the approvals checked here
+      const progress = await getStrategyProgress({
+        ethAmount: utils.parseEther(ethAmount).toBigInt(),
+        ltv,
+        slippageBps: 0,
+      });
+      const pending = new Set(
+        progress.filter(({ status }) => status === 'pending').map(({ id }) => id)
       );
-      console.log(`Current WETH allowance: ${utils.formatEther(wethAllowance)} WETH`);
-      console.log(`Required WETH allowance: ${utils.formatEther(ethAmountWei)} WETH`);
-
-      // Only approve if current allowance is less than what we need
-      if (wethAllowance.lt(ethAmountWei)) {
-        // Create approval transaction data
-        const approveData = contracts.weth.interface.encodeFunctionData('approve', [
-          addresses.leveragedLPManager,
-          ethers.constants.MaxUint256, // Approve maximum amount
-        ]);
-
-        const approvalTxData = {
-          to: addresses.weth,
-          data: approveData,
-          value: '0',
-        };
 
-        // Execute the approval transaction
-        await executeSafeTransaction(safeSdk, approvalTxData, 'WETH approval');
-      } else {
-        console.log('WETH already approved for LeveragedLPManager.');
+      const delegation = await buildDebtDelegationStep(contracts);
+      const steps = [
+        pending.has('approveWeth') ? buildWethApprovalStep(contracts) : null,
+        pending.has('approveUsdc') ? buildUsdcApprovalStep(contracts) : null,
+        pending.has('delegateCredit') ? delegation.step : null,
+      ].filter((step): step is BatchStep => step !== null);
+
+      if (steps.length === 0) {
+        console.log('All approvals are already in place.');
+        return true;
+      }
+
+      const batch = await prepareSafeBatch(
+        safeSDK,
+        steps,
+        getBatchInterfaces(contracts, [delegation.debtToken]),
+        'Approvals'
+      );
+      const result = await signAndExecuteSafeTransaction(
+        safeSDK,
+        batch.safeTransaction,
+        batch.description
+      );
+      if (result.status === 'proposed') {
+        console.log('Approvals proposed, waiting for the co-owners to confirm');
+        return false;
       }
+
+      console.log('All approvals completed successfully!');
+      return true;
     } catch (error) {
       console.error(
-        `Error in WETH approval process: ${error instanceof Error ? error.message : String(error)}`
+        `Error in approval process: ${error instanceof Error ? error.message : String(error)}`
       );
       throw error;
     }
   };
 
   /**
-   * Approve USDC for the LeveragedLPManager contract
-   * @param safeAddress - Address of the Safe
-   * @param safeSdk - Safe SDK instance
-   * @param contracts - Object containing contract instances
-   * @param ethAmount - Amount of ETH as a string
-   * @param ltv - Loan-to-Value ratio as a number
-   */
-  const approveUsdcForLeveragedLPManager = async (
-    safeAddress: string,
-    safeSdk: any,
-    contracts: any,
-    ethAmount = '0.0001', // Default amount if not provided
-    ltv = 30 // Default LTV if not provided
-  ) => {
+   * Get the live ETH price from the Chainlink feed the contract uses, or the Aave oracle
+   * @returns The ETH price in USDC terms, flagged when the answer is stale
+   */
+  const getEthPrice = async (): Promise<EthPrice> => {
+    if (!provider) {
+      throw new Error('Provider not available');
+    }
+
+    return fetchEthPrice(provider, getContractAddresses(chainId));
+  };
+
+  /**
+   * Read the Safe's Aave health factor and liquidation price
+   * @returns The position health at the live ETH price
+   */
+  const getAccountHealth = async (): Promise<AccountHealth> => {
+    if (!safeAddress || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
+
+    const [accountData, ethPrice] = await Promise.all([
+      getStrategyClient().readAccountData(safeAddress as Address),
+      getEthPrice(),
+    ]);
+    return computeAccountHealth(accountData, ethPrice);
+  };
+
+  /**
+   * Record a snapshot of the active position and compute its performance over time
+   * A snapshot is stored at most every SNAPSHOT_INTERVAL_MS, the current one is always included
+   * @returns P&L, impermanent loss and APRs per snapshot, oldest first
+   */
+  const getPositionAnalytics = async (): Promise<AnalyticsPoint[]> => {
+    if (!safeAddress || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
+
+    const addresses = getContractAddresses(chainId);
+    const client = getStrategyClient();
+    const position = await client.readPosition(safeAddress as Address);
+    if (!position.isActive) return [];
+
+    const feed = getFeedKey(chainId, safeAddress);
+    const [lp, borrowRate, stored, events] = await Promise.all([
+      client.readLpPosition(position.lpTokenId),
+      client.readUsdcBorrowRate(),
+      getSnapshots(feed),
+      syncStrategyEvents(),
+    ]);
+
+    const snapshot = createSnapshot(position, lp, addresses.weth, borrowRate);
+    const snapshots = stored.filter(({ lpTokenId }) => lpTokenId === position.lpTokenId);
+    const latest = snapshots[snapshots.length - 1];
+    if (!latest || snapshot.timestamp - latest.timestamp >= SNAPSHOT_INTERVAL_MS) {
+      await saveSnapshot(feed, snapshot);
+    }
+
+    return computeAnalytics([...snapshots, snapshot], events);
+  };
+
+  /**
+   * Read the on-chain limits strategy parameters are validated against
+   * @returns The contract's MAX_LTV and the Safe's ETH and WETH balances
+   */
+  const getStrategyLimits = async (): Promise<StrategyLimits> => {
+    if (!safeAddress || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
+
+    const contracts = initializeContracts(provider);
+    const [maxLtv, safeEthBalance, safeWethBalance] = await Promise.all([
+      contracts.leveragedLPManager.MAX_LTV(),
+      provider.getBalance(safeAddress),
+      contracts.weth.balanceOf(safeAddress),
+    ]);
+
+    return {
+      maxLtv: maxLtv.toNumber(),
+      safeEthBalance: safeEthBalance.toBigInt(),
+      safeWethBalance: safeWethBalance.toBigInt(),
+    };
+  };
+
+  /**
+   * Read the fees and Aave reserve data used to preview a new strategy
+   * @returns Pool fee, protocol fee, WETH liquidation threshold and USDC borrow rate
+   */
+  const getStrategyReserves = async (): Promise<StrategyReserves> => {
+    if (!provider) {
+      throw new Error('Provider not available');
+    }
+
+    return getStrategyClient().readStrategyReserves();
+  };
+
+  /**
+   * Check every setup step of a new strategy against the Safe's on-chain state
+   * With a position already open the steps add to it through increasePosition instead
+   * @param params - Strategy parameters entered by the user
+   * @returns The setup steps in execution order, finished ones marked done
+   */
+  const getStrategyProgress = async (params: StrategyParams): Promise<StrategyStep[]> => {
+    if (!safeAddress || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
+
+    const [prerequisites, ethPrice] = await Promise.all([
+      getStrategyClient().readStrategyPrerequisites(safeAddress as Address),
+      getEthPrice(),
+    ]);
+
+    return getStrategySteps(
+      params,
+      estimateUsdcBorrow(params.ethAmount, params.ltv, ethPrice),
+      prerequisites,
+      prerequisites.isActive ? 'increase' : 'start'
+    );
+  };
+
+  /**
+   * Prepare the remaining setup and the strategy call as one Safe batch for review
+   * Wrapping ETH, the approvals, the Aave delegation and the strategy call are executed
+   * atomically, so the Safe is never left with approvals but no position.
+   * Steps already reflected on-chain are left out, so an earlier partial setup resumes
+   * @param params - Strategy parameters entered by the user
+   * @param exactApprovals - Approve only what this call needs instead of unlimited amounts
+   * @param action - Whether the batch opens the position or adds to the open one
+   * @returns The unsigned batch with its decoded calls
+   */
+  const prepareStrategyBatch = async (
+    params: StrategyParams,
+    exactApprovals: boolean,
+    action: StrategyAction
+  ): Promise<PreparedSafeBatch> => {
+    if (!safeAddress || !signer || !safeSDK || !provider) {
+      throw new Error('Wallet not connected, Safe not initialized, or provider not available');
+    }
+
     try {
-      console.log('Checking USDC approval for LeveragedLPManager...');
+      // Validate before building anything so invalid input never reaches the Safe
+      const limits = await getStrategyLimits();
+      const validationErrors = validateStrategyParams(params, limits);
+      if (validationErrors.length > 0) {
+        throw new Error(validationErrors.join('. '));
+      }
 
-      // Get contract addresses
-      const addresses = getContractAddresses(chainId);
-      if (!addresses) {
-        throw new Error('Contract addresses not found for this network');
+      const progress = await getStrategyProgress(params);
+      const blocked = progress.find(({ status }) => status === 'blocked');
+      const isActive = progress.some(({ id }) => id === 'increasePosition');
+      if (action === 'start' && isActive) {
+        throw new Error('A strategy is already active for this Safe');
+      }
+      if (action === 'increase' && !isActive) {
+        throw new Error('No active strategy to add to');
+      }
+      if (blocked) {
+        throw new Error(`${blocked.label} is blocked: ${blocked.detail}`);
       }
 
-      // Calculate approximately how much USDC might be borrowed for this strategy
-      const ethPriceInUsdc = 2339 * 1e6; // Same price as in the contract
-      const ethAmountInEth = parseFloat(ethAmount); // Use the provided ethAmount
-      const estimatedUsdcBorrow = Math.ceil(ethAmountInEth * ethPriceInUsdc * (ltv / 100));
+      const amounts = exactApprovals
+        ? getExactApprovalAmounts(
+            params,
+            estimateUsdcBorrow(params.ethAmount, params.ltv, await getEthPrice())
+          )
+        : undefined;
 
-      console.log(`ETH amount: ${ethAmount} ETH`);
-      console.log(`LTV: ${ltv}%`);
-      console.log(`Estimated USDC borrow: ${estimatedUsdcBorrow} USDC units`);
+      const contracts = initializeContracts(provider);
+      const delegation = await buildDebtDelegationStep(contracts, amounts?.credit);
+
+      const builders: Record<StrategyStepId, () => BatchStep> = {
+        wrapEth: () => buildWrapEthStep(contracts, BigNumber.from(getEthToWrap(params, limits))),
+        approveWeth: () => buildWethApprovalStep(contracts, amounts?.weth),
+        approveUsdc: () => buildUsdcApprovalStep(contracts, amounts?.usdc),
+        delegateCredit: () => delegation.step,
+        startStrategy: () => buildStartStrategyStep(safeAddress as Address, contracts, params),
+        increasePosition: () =>
+          buildIncreasePositionStep(safeAddress as Address, contracts, params),
+      };
 
-      const usdcAllowance = await contracts.usdc.allowance(
-        safeAddress,
-        addresses.leveragedLPManager
+      console.log(
+        `Preparing the strategy batch, done on-chain: ${
+          progress
+            .filter(({ status }) => status === 'done')
+            .map(({ id }) => id)
+            .join(', ') || 'none'
+        }`
       );
-      console.log(`Current USDC allowance: ${usdcAllowance.toString()} USDC units`);
-
-      // Only approve if current allowance is less than what we need
-      if (usdcAllowance.lt(ethers.BigNumber.from(estimatedUsdcBorrow))) {
-        // Create approval transaction data
-        const approveUsdcData = contracts.usdc.interface.encodeFunctionData('approve', [
-          addresses.leveragedLPManager,
-          ethers.constants.MaxUint256, // Approve maximum amount
-        ]);
-
-        const approveUsdcTxData = {
-          to: addresses.usdc,
-          data: approveUsdcData,
-          value: '0',
-        };
 
-        // Execute the approval transaction
-        await executeSafeTransaction(safeSdk, approveUsdcTxData, 'USDC approval');
-      } else {
-        console.log('USDC already approved for LeveragedLPManager.');
-      }
+      const steps = progress
+        .filter(({ status }) => status === 'pending')
+        .map(({ id }) => builders[id]());
+
+      return await prepareSafeBatch(
+        safeSDK,
+        steps,
+        getBatchInterfaces(contracts, [delegation.debtToken]),
+        action === 'increase' ? 'IncreasePosition' : 'StartStrategy'
+      );
     } catch (error) {
       console.error(
-        `Error in USDC approval process: ${error instanceof Error ? error.message : String(error)}`
+        `Error preparing strategy batch: ${error instanceof Error ? error.message : String(error)}`
       );
       throw error;
     }
   };
 
   /**
-   * Set up Aave V3 debt token delegation (critical for borrowing)
-   * @param safeAddress - Address of the Safe
-   * @param safeSdk - Safe SDK instance
-   * @param provider - Ethers provider
-   * @param contracts - Object containing contract instances
+   * Prepare opening the strategy as one Safe batch for review
+   * @param params - Strategy parameters entered by the user
+   * @param exactApprovals - Approve only what this startStrategy needs instead of unlimited amounts
+   * @returns The unsigned batch with its decoded calls
    */
-  const setupAaveDebtTokenDelegation = async (
-    safeAddress: string,
-    safeSdk: any,
-    provider: providers.Web3Provider | providers.JsonRpcProvider,
-    contracts: any
-  ) => {
+  const prepareStartStrategy = (params: StrategyParams, exactApprovals = false) =>
+    prepareStrategyBatch(params, exactApprovals, 'start');
+
+  /**
+   * Prepare adding ETH to the active position as one Safe batch for review
+   * The approvals are topped up first when the earlier ones were exact or spent
+   * @param params - ETH to add, the LTV to borrow at against it and the slippage
+   * @param exactApprovals - Approve only what this increasePosition needs instead of unlimited amounts
+   * @returns The unsigned batch with its decoded calls
+   */
+  const prepareIncreasePosition = (params: StrategyParams, exactApprovals = false) =>
+    prepareStrategyBatch(params, exactApprovals, 'increase');
+
+  /**
+   * Sign and execute a prepared Safe batch with a single signature,
+   * or propose it when the Safe needs more than one
+   * @param batch - Batch returned by one of the prepare functions
+   * @returns The transaction hash, or the proposal waiting for confirmations
+   */
+  const executeSafeBatch = async (batch: PreparedSafeBatch): Promise<SafeExecutionResult> => {
+    if (!safeAddress || !signer || !safeSDK || !provider) {
+      throw new Error('Wallet not connected, Safe not initialized, or provider not available');
+    }
+
     try {
-      console.log(
-        'Setting up Aave V3 debt token delegation - this is required for borrowing on behalf of another address'
+      const result = await signAndExecuteSafeTransaction(
+        safeSDK,
+        batch.safeTransaction,
+        batch.description
       );
 
-      // Get contract addresses
-      const addresses = getContractAddresses(chainId);
-      if (!addresses) {
-        throw new Error('Contract addresses not found for this network');
+      if (result.status === 'proposed') return result;
+
+      if (batch.description === 'StartStrategy') {
+        const success = await verifyStrategyPosition(safeAddress as Address);
+        if (!success) {
+          throw new Error('Strategy position verification failed');
+        }
       }
 
-      // Get the USDC debt token address from Aave
-      console.log('Fetching USDC variable debt token address from Aave...');
-      const usdcTokenData = await contracts.aaveDataProvider.getReserveTokensAddresses(
-        addresses.usdc
+      // Refresh balance
+      await fetchBalance();
+
+      return result;
+    } catch (error) {
+      console.error(
+        `Error executing ${batch.description} batch: ${error instanceof Error ? error.message : String(error)}`
       );
-      const variableDebtTokenAddress = usdcTokenData.variableDebtTokenAddress;
+      throw error;
+    }
+  };
 
-      console.log(`USDC Variable Debt Token address: ${variableDebtTokenAddress}`);
+  /**
+   * List the Safe's proposed transactions that have not been executed yet
+   * @returns Pending transactions in nonce order, with what the connected owner can do
+   */
+  const getPendingSafeTransactions = async (): Promise<PendingSafeTransaction[]> => {
+    if (!safeAddress || !safeSDK) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
 
-      // Set up the debt token contract
-      const variableDebtToken = new Contract(
-        variableDebtTokenAddress,
-        ['function approveDelegation(address delegatee, uint256 amount) external'],
-        provider
-      );
+    const [nonce, threshold, isOwner] = await Promise.all([
+      safeSDK.getNonce(),
+      safeSDK.getThreshold(),
+      safeSDK.isOwner(account),
+    ]);
+    const { results } = await createSafeService(chainId).getPendingTransactions(safeAddress, {
+      currentNonce: nonce,
+    });
 
-      // Skip checking for existing delegation and always set it up
-      console.log('Setting up debt delegation without checking current allowance');
-      console.log(`From Safe: ${safeAddress}`);
-      console.log(`To LeveragedLPManager: ${addresses.leveragedLPManager}`);
+    return results
+      .map(tx => {
+        const confirmedBy = (tx.confirmations ?? []).map(confirmation => confirmation.owner);
+        return {
+          safeTxHash: tx.safeTxHash,
+          nonce: Number(tx.nonce),
+          description: tx.origin,
+          to: tx.to,
+          confirmedBy,
+          threshold,
+          submissionDate: new Date(tx.submissionDate),
+          canConfirm:
+            isOwner && !confirmedBy.some(owner => owner.toLowerCase() === account.toLowerCase()),
+          canExecute: confirmedBy.length >= threshold && Number(tx.nonce) === nonce,
+        };
+      })
+      .sort((a, b) => a.nonce - b.nonce);
+  };
 
-      // Prepare delegation data - CRITICAL: The Safe must be the one calling approveDelegation
-      console.log(
-        `Setting up debt delegation from Safe (${safeAddress}) to LeveragedLPManager (${addresses.leveragedLPManager})`
-      );
+  /**
+   * Add the connected owner's signature to a proposed Safe transaction
+   * @param safeTxHash - Hash of the proposed transaction
+   */
+  const confirmSafeTransaction = async (safeTxHash: string): Promise<void> => {
+    if (!safeSDK) {
+      throw new Error('Safe not initialized');
+    }
 
-      const delegationData = variableDebtToken.interface.encodeFunctionData('approveDelegation', [
-        addresses.leveragedLPManager,
-        ethers.constants.MaxUint256, // Delegate maximum amount
-      ]);
+    const signature = await safeSDK.signHash(safeTxHash);
+    await createSafeService(chainId).confirmTransaction(safeTxHash, signature.data);
+  };
 
-      const delegationTxData = {
-        to: variableDebtTokenAddress,
-        data: delegationData,
-        value: '0',
-      };
+  /**
+   * Execute a proposed Safe transaction once it has enough confirmations
+   * @param safeTxHash - Hash of the proposed transaction
+   * @returns Transaction hash
+   */
+  const executePendingSafeTransaction = async (safeTxHash: string): Promise<string> => {
+    if (!safeSDK || !provider) {
+      throw new Error('Safe not initialized or provider not available');
+    }
+
+    const transaction = await createSafeService(chainId).getTransaction(safeTxHash);
+    const trackingId = trackTransaction(transaction.origin, chainId, transaction.safe);
+    updateTransaction(trackingId, { safeTxHash });
 
-      // Execute the debt token delegation transaction THROUGH the Safe
-      await executeSafeTransaction(safeSdk, delegationTxData, 'Aave debt token delegation');
+    let executeTxResponse;
+    try {
+      executeTxResponse = await safeSDK.executeTransaction(transaction);
     } catch (error) {
-      console.error(
-        `Error in debt token delegation: ${error instanceof Error ? error.message : String(error)}`
-      );
+      updateTransaction(trackingId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
       throw error;
     }
+    if ((await watchTransaction(trackingId, executeTxResponse.hash)) === 'reverted') {
+      throw new Error(`${transaction.origin} reverted on-chain`);
+    }
+
+    console.log(`${transaction.origin} executed! Tx hash: ${executeTxResponse.hash}`);
+    await fetchBalance();
+
+    return executeTxResponse.hash;
   };
 
   /**
-   * Execute the startStrategy function on the LeveragedLPManager contract
-   * @param safeAddress - Address of the Safe
-   * @param safeSdk - Safe SDK instance
+   * Read the Safe's strategy position together with its Aave balances and approvals
+   * @returns Current strategy status
+   */
+  const getStrategyStatus = async (): Promise<StrategyStatus> => {
+    if (!safeAddress || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
+
+    return getStrategyClient().readStrategyStatus(safeAddress as Address);
+  };
+
+  /**
+   * Start a batch that moves the LP NFT through the manager
+   * The NFT approval is cleared whenever the NFT is transferred, so it is added to the batch
+   * when missing, making the approval and the manager call atomic
    * @param contracts - Object containing contract instances
+   * @param status - Current strategy status of the Safe
+   * @returns The approval step if needed, and interfaces that decode it
    */
-  const executeStartStrategy = async (safeAddress: string, safeSdk: any, contracts: any) => {
+  const buildLpOperationSteps = async (
+    contracts: StrategyContracts,
+    status: StrategyStatus
+  ): Promise<{ steps: BatchStep[]; interfaces: BatchInterfaces }> => {
+    const client = getStrategyClient();
+    const { positionManager } = await client.readLpContracts();
+
+    const steps: BatchStep[] = [];
+    if (!status.approvals.managerApprovedForNFT && status.lpTokenId !== null) {
+      steps.push({
+        label: 'LP NFT approval',
+        transaction: {
+          to: positionManager,
+          data: client.encodeLpApproval(status.lpTokenId),
+          value: '0',
+        },
+      });
+    }
+
+    const interfaces = getBatchInterfaces(contracts);
+    interfaces[positionManager.toLowerCase()] = {
+      name: 'PositionManager',
+      iface: new utils.Interface(ABIs.PositionManager),
+    };
+
+    return { steps, interfaces };
+  };
+
+  /**
+   * Prepare exiting the strategy as one Safe batch for review
+   * The LP NFT approval to the manager is included when it is missing, so the
+   * approval and the unwind happen atomically
+   * @param swapEthForDebt - Whether the manager may swap ETH for USDC to repay remaining debt
+   * @returns The unsigned batch with its decoded calls
+   */
+  const prepareExitStrategy = async (swapEthForDebt: boolean): Promise<PreparedSafeBatch> => {
+    if (!safeAddress || !signer || !safeSDK || !provider) {
+      throw new Error('Wallet not connected, Safe not initialized, or provider not available');
+    }
+
     try {
-      // Default values - can be parameterized
-      const ethAmount = utils.parseEther('0.001');
-      const ltv = 30;
-      const slippageBps = 50;
-
-      console.log('Creating startStrategy transaction with parameters:');
-      console.log(`- Safe address: ${safeAddress}`);
-      console.log(`- ETH amount: ${utils.formatEther(ethAmount)} ETH`);
-      console.log(`- LTV: ${ltv}%`);
-      console.log(`- Slippage: ${slippageBps / 100}%`);
-
-      // Create startStrategy transaction data
-      const startStrategyData = contracts.leveragedLPManager.interface.encodeFunctionData(
-        'startStrategy',
-        [safeAddress, ethAmount, ltv, slippageBps]
-      );
+      const contracts = initializeContracts(provider);
+      const client = getStrategyClient();
+      const status = await client.readStrategyStatus(safeAddress as Address);
+      if (!status.isActive || status.lpTokenId === null) {
+        throw new Error('No active strategy to exit');
+      }
 
-      const startStrategyTxData = {
-        to: contracts.leveragedLPManager.address,
-        data: startStrategyData,
-        value: '0',
-      };
+      console.log(`Preparing exit for LP token ID: ${status.lpTokenId.toString()}`);
 
-      // Execute the startStrategy transaction
-      await executeSafeTransaction(safeSdk, startStrategyTxData, 'StartStrategy');
+      const { steps, interfaces } = await buildLpOperationSteps(contracts, status);
+      steps.push({
+        label: 'ExitStrategy',
+        transaction: {
+          to: contracts.leveragedLPManager.address,
+          data: client.encodeExit(safeAddress as Address, swapEthForDebt),
+          value: '0',
+        },
+      });
+
+      return await prepareSafeBatch(safeSDK, steps, interfaces, 'ExitStrategy');
     } catch (error) {
       console.error(
-        `Error executing startStrategy: ${error instanceof Error ? error.message : String(error)}`
+        `Error preparing exit batch: ${error instanceof Error ? error.message : String(error)}`
       );
       throw error;
     }
   };
 
   /**
-   * Verify the strategy was created successfully
-   * @param safeAddress - Address of the Safe
-   * @param contracts - Object containing contract instances
+   * Read the collateral, debt and LP amounts of the active position at the live ETH price
+   * @returns The balances changes to the position are previewed with
    */
-  const verifyStrategyPosition = async (safeAddress: string, contracts: any) => {
-    try {
-      console.log('Verifying strategy position was created successfully...');
-      const position = await contracts.leveragedLPManager.getUserPosition(safeAddress);
+  const getPositionBalances = async (): Promise<PositionBalances> => {
+    if (!safeAddress || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
 
-      if (position.safe === safeAddress) {
-        console.log('Position successfully created!');
-        console.log(`LP Token ID: ${position.lpTokenId.toString()}`);
-        return true;
-      } else {
-        console.error('Position not found. Strategy initialization may have failed.');
-        return false;
+    const ethPrice = await getEthPrice();
+    return getStrategyClient().readPositionBalances(safeAddress as Address, ethPrice.usdcPerEth);
+  };
+
+  /**
+   * Prepare reducing the position by a percentage as one Safe batch for review
+   * The LP NFT approval to the manager is included when it is missing
+   * @param percentage - Share of the position to remove, 1 to 99
+   * @param swapEthForDebt - Whether the manager may swap removed ETH for USDC to repay the debt share
+   * @param slippageBps - Slippage tolerance of that swap in basis points
+   * @returns The unsigned batch with its decoded calls
+   */
+  const prepareReducePosition = async (
+    percentage: number,
+    swapEthForDebt: boolean,
+    slippageBps: number
+  ): Promise<PreparedSafeBatch> => {
+    if (!safeAddress || !signer || !safeSDK || !provider) {
+      throw new Error('Wallet not connected, Safe not initialized, or provider not available');
+    }
+    if (!Number.isInteger(percentage) || percentage < 1 || percentage > 99) {
+      throw new Error('Reduce by a whole percentage between 1 and 99, or exit the strategy');
+    }
+
+    try {
+      const contracts = initializeContracts(provider);
+      const client = getStrategyClient();
+      const status = await client.readStrategyStatus(safeAddress as Address);
+      if (!status.isActive || status.lpTokenId === null) {
+        throw new Error('No active strategy to reduce');
       }
+
+      console.log(`Preparing a ${percentage}% reduction of LP token ID: ${status.lpTokenId}`);
+
+      const { steps, interfaces } = await buildLpOperationSteps(contracts, status);
+      steps.push({
+        label: 'ReducePosition',
+        transaction: {
+          to: contracts.leveragedLPManager.address,
+          data: client.encodeReducePosition(
+            safeAddress as Address,
+            percentage,
+            swapEthForDebt,
+            slippageBps
+          ),
+          value: '0',
+        },
+      });
+
+      return await prepareSafeBatch(safeSDK, steps, interfaces, 'ReducePosition');
     } catch (error) {
       console.error(
-        `Error verifying position: ${error instanceof Error ? error.message : String(error)}`
+        `Error preparing reduce batch: ${error instanceof Error ? error.message : String(error)}`
       );
-      return false;
+      throw error;
     }
   };
 
-  // Complete the approval process for starting a strategy
-  // This includes approving WETH, USDC, and setting up Aave debt token delegation
-  const completeApprovalProcess = async (ethAmount: string, ltv: number): Promise<boolean> => {
+  /**
+   * Prepare returning the position to a target LTV as one Safe batch for review
+   * Repaying pulls liquidity, so the LP NFT approval is included when it is missing.
+   * Borrowing tops up the Aave credit delegation when it does not cover the borrow
+   * @param targetLtv - Loan-to-value to return to, in percent
+   * @param slippageBps - Slippage tolerance in basis points
+   * @returns The unsigned batch with its decoded calls
+   */
+  const prepareRebalancePosition = async (
+    targetLtv: number,
+    slippageBps: number
+  ): Promise<PreparedSafeBatch> => {
     if (!safeAddress || !signer || !safeSDK || !provider) {
-      throw new Error('Wallet not connected or Safe not initialized');
+      throw new Error('Wallet not connected, Safe not initialized, or provider not available');
     }
 
     try {
       const contracts = initializeContracts(provider);
+      const client = getStrategyClient();
+      const [status, limits] = await Promise.all([
+        client.readStrategyStatus(safeAddress as Address),
+        getStrategyLimits(),
+      ]);
+      if (!status.isActive || status.lpTokenId === null) {
+        throw new Error('No active strategy to rebalance');
+      }
+      if (!Number.isInteger(targetLtv) || targetLtv < 1 || targetLtv > limits.maxLtv) {
+        throw new Error(`Target LTV must be a whole percentage between 1 and ${limits.maxLtv}`);
+      }
 
-      const ethAmountWei = utils.parseEther(ethAmount);
+      // The share of liquidity to pull is sized off-chain from the LP amounts
+      const preview = previewRebalance(await getPositionBalances(), targetLtv);
+      if (preview.direction === 'none') {
+        throw new Error('The position is already at the target LTV');
+      }
 
-      // Step 1: Approve WETH for LeveragedLPManager with the provided ethAmount
-      await approveWethForLeveragedLPManager(safeAddress, safeSDK, contracts, ethAmountWei);
+      console.log(
+        `Preparing a rebalance to ${targetLtv}% LTV: ${
+          preview.direction === 'borrow'
+            ? `borrow ${preview.usdcBorrowed} USDC units`
+            : `pull ${preview.lpPercentage}% of the liquidity to repay`
+        }`
+      );
 
-      // Step 2: Approve USDC for LeveragedLPManager with the provided ethAmount and ltv
-      await approveUsdcForLeveragedLPManager(safeAddress, safeSDK, contracts, ethAmount, ltv);
+      let steps: BatchStep[];
+      let interfaces: BatchInterfaces;
+      if (preview.direction === 'repay') {
+        ({ steps, interfaces } = await buildLpOperationSteps(contracts, status));
+      } else {
+        const { borrowAllowance } = await client.readStrategyPrerequisites(safeAddress as Address);
+        // The contract borrows at the price of the block it runs in, leave room for it to move
+        const credit = (preview.usdcBorrowed * (10_000n + EXACT_BORROW_BUFFER_BPS)) / 10_000n;
+        const delegation = await buildDebtDelegationStep(contracts, credit);
+        steps = borrowAllowance < credit ? [delegation.step] : [];
+        interfaces = getBatchInterfaces(contracts, [delegation.debtToken]);
+      }
 
-      // Step 3: Set up Aave debt token delegation (critical for borrowing)
-      await setupAaveDebtTokenDelegation(safeAddress, safeSDK, provider, contracts);
+      steps.push({
+        label: 'RebalancePosition',
+        transaction: {
+          to: contracts.leveragedLPManager.address,
+          data: client.encodeRebalancePosition(
+            safeAddress as Address,
+            targetLtv,
+            preview.lpPercentage,
+            slippageBps
+          ),
+          value: '0',
+        },
+      });
 
-      console.log('All approvals completed successfully!');
-      return true;
+      return await prepareSafeBatch(safeSDK, steps, interfaces, 'RebalancePosition');
     } catch (error) {
       console.error(
-        `Error in approval process: ${error instanceof Error ? error.message : String(error)}`
+        `Error preparing rebalance batch: ${error instanceof Error ? error.message : String(error)}`
       );
       throw error;
     }
   };
 
-  // Start a leveraged LP strategy
-  const startStrategy = async (ethAmount: string, ltv: number): Promise<string> => {
+  /**
+   * Read the fees the active position has accrued and not yet collected
+   * @returns The claimable USDC and ETH, zero when no strategy is active
+   */
+  const getClaimableFees = async (): Promise<ClaimableFees> => {
+    if (!safeAddress || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
+
+    const client = getStrategyClient();
+    const position = await client.readPosition(safeAddress as Address);
+    if (!position.isActive) {
+      return { usdc: 0n, eth: 0n };
+    }
+    return client.readClaimableFees(position.lpTokenId);
+  };
+
+  /**
+   * Prepare collecting the position's fees through the FeeCollectHook as one Safe batch for review
+   * The hook repays and supplies with them as it does on every 10th swap.
+   * The LP NFT operator approval to the hook is included when it is missing
+   * @returns The unsigned batch with its decoded calls
+   */
+  const prepareHarvestFees = async (): Promise<PreparedSafeBatch> => {
     if (!safeAddress || !signer || !safeSDK || !provider) {
       throw new Error('Wallet not connected, Safe not initialized, or provider not available');
     }
 
     try {
-      // Initialize contracts
       const contracts = initializeContracts(provider);
+      const client = getStrategyClient();
+      const [status, { positionManager, feeHook }] = await Promise.all([
+        client.readStrategyStatus(safeAddress as Address),
+        client.readLpContracts(),
+      ]);
+      if (!status.isActive || status.lpTokenId === null) {
+        throw new Error('No active strategy to harvest');
+      }
 
-      // Execute the complete flow as in TestEndToEnd.js
-      console.log('Starting the complete strategy flow...');
-
-      // Step 1: Convert ETH to WETH
-      await convertEthToWeth(ethAmount);
-
-      const ethAmountWei = utils.parseEther(ethAmount);
+      console.log(`Preparing a fee harvest for LP token ID: ${status.lpTokenId}`);
+
+      const steps: BatchStep[] = [];
+      if (!status.approvals.hookApprovedForNFT) {
+        steps.push({
+          label: 'LP NFT approval for the fee hook',
+          transaction: {
+            to: positionManager,
+            data: client.encodeHookApproval(feeHook),
+            value: '0',
+          },
+        });
+      }
+      steps.push({
+        label: 'CollectFees',
+        transaction: { to: feeHook, data: client.encodeCollectFees(status.lpTokenId), value: '0' },
+      });
 
-      // Step 2: Approve WETH for LeveragedLPManager
-      await approveWethForLeveragedLPManager(safeAddress, safeSDK, contracts, ethAmountWei);
+      const interfaces = getBatchInterfaces(contracts);
+      interfaces[positionManager.toLowerCase()] = {
+        name: 'PositionManager',
+        iface: new utils.Interface(ABIs.PositionManager),
+      };
+      interfaces[feeHook.toLowerCase()] = {
+        name: 'FeeCollectHook',
+        iface: new utils.Interface(ABIs.FeeCollectHook),
+      };
 
-      // Step 3: Approve USDC for LeveragedLPManager
-      await approveUsdcForLeveragedLPManager(safeAddress, safeSDK, contracts, ethAmount);
+      return await prepareSafeBatch(safeSDK, steps, interfaces, 'HarvestFees');
+    } catch (error) {
+      console.error(
+        `Error preparing harvest batch: ${error instanceof Error ? error.message : String(error)}`
+      );
+      throw error;
+    }
+  };
 
-      // Step 4: Set up Aave debt token delegation
-      await setupAaveDebtTokenDelegation(safeAddress, safeSDK, provider, contracts);
+  /**
+   * List the allowances, credit delegations and LP NFT approvals the Safe granted
+   * to the LeveragedLPManager and the FeeCollectHook
+   * @returns The approvals still in effect
+   */
+  const getApprovals = async (): Promise<GrantedApproval[]> => {
+    if (!safeAddress || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
+    }
 
-      // Step 5: Execute the startStrategy function
-      await executeStartStrategy(safeAddress, safeSDK, contracts);
+    return getStrategyClient().readApprovals(safeAddress as Address);
+  };
 
-      // Step 6: Verify the position was created
-      const success = await verifyStrategyPosition(safeAddress, contracts);
+  /**
+   * Prepare withdrawing approvals as one Safe batch for review
+   * @param approvals - Approvals returned by getApprovals
+   * @returns The unsigned batch with its decoded calls
+   */
+  const prepareRevokeApprovals = async (
+    approvals: GrantedApproval[]
+  ): Promise<PreparedSafeBatch> => {
+    if (!safeAddress || !signer || !safeSDK || !provider) {
+      throw new Error('Wallet not connected, Safe not initialized, or provider not available');
+    }
+    if (approvals.length === 0) {
+      throw new Error('There are no approvals to revoke');
+    }
 
-      if (!success) {
-        throw new Error('Strategy position verification failed');
+    try {
+      const contracts = initializeContracts(provider);
+      const client = getStrategyClient();
+
+      const steps: BatchStep[] = approvals.map(approval => ({
+        label: `Revoke ${approval.tokenName} ${
+          approval.kind === 'nftToken' ? `#${approval.tokenId} ` : ''
+        }for ${approval.spenderName}`,
+        transaction: { ...client.encodeRevocation(approval), value: '0' },
+      }));
+
+      const debtTokens = approvals
+        .filter(({ kind }) => kind === 'creditDelegation')
+        .map(({ token }) => new Contract(token, ABIs.AaveDebtToken));
+      const interfaces = getBatchInterfaces(contracts, debtTokens);
+      for (const { kind, token } of approvals) {
+        if (kind === 'nftOperator' || kind === 'nftToken') {
+          interfaces[token.toLowerCase()] = {
+            name: 'PositionManager',
+            iface: new utils.Interface(ABIs.PositionManager),
+          };
+        }
       }
 
-      // Refresh balance
-      await fetchBalance();
-
-      return 'Strategy started successfully!';
+      return await prepareSafeBatch(safeSDK, steps, interfaces, 'RevokeApprovals');
     } catch (error) {
       console.error(
-        `Error starting strategy: ${error instanceof Error ? error.message : String(error)}`
+        `Error preparing revocation batch: ${error instanceof Error ? error.message : String(error)}`
       );
       throw error;
     }
   };
 
-  // Exit a leveraged LP strategy
-  const exitStrategy = async (positionId: string): Promise<string> => {
-    if (!safeAddress || !signer || !safeSDK || !leveragedLPManager) {
-      throw new Error('Wallet not connected, Safe not initialized, or contracts not loaded');
+  /**
+   * Index new LeveragedLPManager and FeeCollectHook events of the Safe
+   * Events are cached in IndexedDB, so only blocks since the last sync are fetched
+   * @returns The Safe's strategy history, newest first
+   */
+  const syncStrategyEvents = async (): Promise<StrategyEvent[]> => {
+    if (!safeAddress || !provider) {
+      throw new Error('Wallet not connected or Safe not initialized');
     }
 
-    try {
-      console.log(`Exiting strategy for position ID: ${positionId}`);
-
-      // Create exitStrategy transaction data
-      const exitStrategyData = leveragedLPManager.interface.encodeFunctionData('exitStrategy', [
-        safeAddress,
-        positionId,
-      ]);
-
-      const exitStrategyTxData = {
-        to: leveragedLPManager.address,
-        data: exitStrategyData,
-        value: '0',
-      };
+    const client = getStrategyClient();
+    const position = await client.readPosition(safeAddress as Address);
 
-      // Execute the exitStrategy transaction
-      console.log('Executing exitStrategy transaction...');
-      const exitStrategyTx = await safeSDK.createTransaction({
-        safeTransactionData: exitStrategyTxData,
-      });
+    return createEventIndexer(
+      getPublicClient(),
+      getContractAddresses(chainId),
+      chainId,
+      safeAddress as Address
+    ).sync(position.isActive ? [position.lpTokenId] : []);
+  };
 
-      const exitStrategyTxResponse = await safeSDK.executeTransaction(exitStrategyTx);
+  /**
+   * Read the StrategyExited event emitted by an executed exit transaction
+   * @param txHash - Hash of the executed exit transaction
+   * @returns The amounts reported by the contract
+   */
+  const getStrategyExitResult = async (txHash: string): Promise<StrategyExitResult> => {
+    if (!provider) {
+      throw new Error('Provider not available');
+    }
 
-      // Wait for transaction to be mined
-      let txHash = '';
-      if (exitStrategyTxResponse.transactionResponse) {
-        await exitStrategyTxResponse.transactionResponse.wait();
-        txHash = exitStrategyTxResponse.transactionResponse.hash;
+    const contracts = initializeContracts(provider);
+    const receipt = await provider.getTransactionReceipt(txHash);
+    const managerAddress = contracts.leveragedLPManager.address.toLowerCase();
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== managerAddress) continue;
+
+      try {
+        const parsed = contracts.leveragedLPManager.interface.parseLog(log);
+        if (parsed.name === 'StrategyExited') {
+          return {
+            txHash,
+            lpTokenId: parsed.args.lpTokenId.toBigInt(),
+            ethReturned: parsed.args.ethReturned.toBigInt(),
+            usdcRepaid: parsed.args.usdcRepaid.toBigInt(),
+          };
+        }
+      } catch {
+        // Not an event from our ABI
       }
-
-      console.log(`Strategy exited successfully! Tx hash: ${txHash}`);
-
-      // Refresh balance
-      await fetchBalance();
-
-      return txHash;
-    } catch (error) {
-      console.error('Error exiting strategy:', error);
-      throw error;
     }
+
+    throw new Error('StrategyExited event not found in transaction');
   };
 
-  // Auto-connect on component mount
+  // Follow the wagmi connection: wagmi reconnects on mount and subscribes to the
+  // connector's account and chain events, so changes arrive here without a reload
   useEffect(() => {
-    // Only auto-connect if there's a saved Safe address
-    if (localStorage.getItem('safeAddress') && !isConnected && chainId !== baseChain.id) {
-      connect();
+    if (watchSafe) return;
+
+    if (!walletAccount || !walletChainId || !connector) {
+      resetConnection();
+      return;
     }
-  }, []);
+
+    // Results of a load that was overtaken by another account or chain change are dropped
+    let isCurrent = true;
+    setIsConnecting(true);
+    loadConnection(walletAccount, walletChainId, connector, () => isCurrent)
+      .catch(error => {
+        console.error('Error loading wallet connection:', error);
+        if (isCurrent) {
+          setError(error instanceof Error ? error : new Error('Unknown error connecting wallet'));
+        }
+      })
+      .finally(() => {
+        if (isCurrent) setIsConnecting(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [walletAccount, walletChainId, connector]);
 
   return (
     <WalletContext.Provider
       value={{
         isConnected,
+        isReadOnly: !!watchSafe,
+        isConnecting: isConnecting || status === 'connecting' || status === 'reconnecting',
         isLoading,
+        error,
         account,
         chainId,
         safeAddress,
+        availableSafes,
         balance,
+        connectors,
         connect,
+        switchSafe,
+        switchNetwork,
         createSafeAccount,
         depositETH,
         disconnect,
         fetchBalance,
-        startStrategy,
-        exitStrategy,
+        getEthPrice,
+        getAccountHealth,
+        getStrategyLimits,
+        getStrategyReserves,
+        getStrategyProgress,
+        prepareStartStrategy,
+        prepareIncreasePosition,
+        executeSafeBatch,
+        getPendingSafeTransactions,
+        confirmSafeTransaction,
+        executePendingSafeTransaction,
+        getStrategyStatus,
+        prepareExitStrategy,
+        getPositionBalances,
+        prepareReducePosition,
+        prepareRebalancePosition,
+        getClaimableFees,
+        prepareHarvestFees,
+        getApprovals,
+        prepareRevokeApprovals,
+        getStrategyExitResult,
+        syncStrategyEvents,
+        getPositionAnalytics,
         convertEthToWeth,
         completeApprovalProcess,
       }}
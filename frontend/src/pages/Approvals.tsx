@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { maxUint256 } from 'viem';
+import { useWallet } from '../contexts/WalletContext';
+import { formatEthBalance, formatUsdcBalance, shortenAddress } from '../utils/address';
+import BatchReview from '../components/BatchReview';
+import type { PreparedSafeBatch } from '../utils/safeBatch';
+import type { ApprovalKind, GrantedApproval, SafeExecutionResult } from '../types';
+
+const KIND_LABELS: Record<ApprovalKind, string> = {
+  allowance: 'Token allowance',
+  creditDelegation: 'Credit delegation',
+  nftOperator: 'All LP NFTs',
+  nftToken: 'LP NFT',
+};
+
+// Unlimited approvals decrease on some tokens as they are spent, so anything this large counts
+const UNLIMITED_THRESHOLD = maxUint256 / 2n;
+
+const formatApprovalAmount = (approval: GrantedApproval): string => {
+  if (approval.kind === 'nftOperator') return 'Every position';
+  if (approval.kind === 'nftToken') return `#${approval.tokenId?.toString()}`;
+  if (approval.amount === undefined) return '-';
+  if (approval.amount >= UNLIMITED_THRESHOLD) return 'Unlimited';
+  return approval.tokenName === 'WETH'
+    ? `${formatEthBalance(approval.amount, 6)} WETH`
+    : `${formatUsdcBalance(approval.amount)} USDC`;
+};
+
+/**
+ * Everything the Safe approved to the strategy contracts, with a batch that revokes it all
+ * Revoking is offered once no strategy is active, since an open position needs its approvals
+ */
+const Approvals: React.FC = () => {
+  const {
+    isConnected,
+    safeAddress,
+    getStrategyStatus,
+    getApprovals,
+    prepareRevokeApprovals,
+    executeSafeBatch,
+  } = useWallet();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [approvals, setApprovals] = useState<GrantedApproval[]>([]);
+  const [isActive, setIsActive] = useState(false);
+  const [pendingBatch, setPendingBatch] = useState<PreparedSafeBatch | null>(null);
+  const [result, setResult] = useState<SafeExecutionResult | null>(null);
+
+  const fetchApprovals = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [status, granted] = await Promise.all([getStrategyStatus(), getApprovals()]);
+      setIsActive(status.isActive);
+      setApprovals(granted);
+    } catch (err) {
+      console.error('Error fetching approvals:', err);
+      setError('Failed to fetch approvals. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isConnected && safeAddress) {
+      fetchApprovals();
+    }
+  }, [isConnected, safeAddress]);
+
+  const handleReviewRevoke = async () => {
+    try {
+      setIsRevoking(true);
+      setError(null);
+      setResult(null);
+
+      setPendingBatch(await prepareRevokeApprovals(approvals));
+    } catch (err) {
+      console.error('Error preparing revocation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to prepare the revocation.');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!pendingBatch) return;
+
+    try {
+      setIsRevoking(true);
+      setError(null);
+
+      setResult(await executeSafeBatch(pendingBatch));
+      setPendingBatch(null);
+      await fetchApprovals();
+    } catch (err) {
+      console.error('Error revoking approvals:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke approvals.');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="max-w-3xl mx-auto">
+        <div className="bg-yellow-50 p-4 rounded-md border border-yellow-200 mb-6">
+          <p className="text-yellow-700">
+            Please connect your Gnosis Pay wallet to manage its approvals.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h1 className="text-2xl font-bold mb-6">Approvals</h1>
+
+      {error && (
+        <div className="bg-red-50 p-4 rounded-md border border-red-200 mb-6">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {result?.status === 'executed' && (
+        <div className="bg-green-50 p-4 rounded-md border border-green-200 mb-6">
+          <p className="text-green-700">Approvals revoked.</p>
+        </div>
+      )}
+
+      {result?.status === 'proposed' && (
+        <div className="bg-blue-50 p-4 rounded-md border border-blue-200 mb-6">
+          <p className="text-blue-700">
+            Revocation proposed to the Safe's owners with {result.confirmations} of{' '}
+            {result.threshold} confirmations. Co-owners can confirm and execute it from the
+            Dashboard.
+          </p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center">
+          <p className="text-gray-600">Loading approvals...</p>
+        </div>
+      ) : (
+        <div className="bg-white p-6 rounded-lg shadow mb-6">
+          <h2 className="text-lg font-semibold mb-4">Granted to the Strategy Contracts</h2>
+
+          {approvals.length === 0 ? (
+            <p className="text-gray-600">The Safe has no approvals left to revoke.</p>
+          ) : (
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Token</th>
+                  <th className="py-2">Spender</th>
+                  <th className="py-2 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {approvals.map(approval => (
+                  <tr
+                    key={`${approval.kind}:${approval.token}:${approval.spender}`}
+                    className="border-b last:border-0"
+                  >
+                    <td className="py-2">{KIND_LABELS[approval.kind]}</td>
+                    <td className="py-2" title={approval.token}>
+                      {approval.tokenName}
+                    </td>
+                    <td className="py-2" title={approval.spender}>
+                      {approval.spenderName}{' '}
+                      <span className="font-mono text-gray-500">
+                        {shortenAddress(approval.spender)}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right font-mono">{formatApprovalAmount(approval)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {isActive && approvals.length > 0 && (
+            <p className="text-sm text-gray-500 mb-4">
+              The active strategy relies on these approvals. Revoke them after exiting the strategy.
+            </p>
+          )}
+
+          {pendingBatch ? (
+            <BatchReview
+              batch={pendingBatch}
+              isProcessing={isRevoking}
+              onConfirm={handleRevoke}
+              onCancel={() => setPendingBatch(null)}
+            />
+          ) : (
+            approvals.length > 0 && (
+              <button
+                onClick={handleReviewRevoke}
+                disabled={isRevoking || isActive}
+                className="w-full px-4 py-3 text-white bg-red-600 rounded-md hover:bg-red-700 disabled:bg-red-300"
+              >
+                {isRevoking ? 'Preparing Revocation...' : 'Review Revoke All'}
+              </button>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Approvals;
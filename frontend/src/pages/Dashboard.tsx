@@ -1,142 +1,40 @@
 import React, { useState, useEffect } from 'react';
 import { useWallet } from '../contexts/WalletContext';
-import { formatUsdcBalance } from '../utils/address';
-import { ethers } from 'ethers';
-
-// Contract addresses - in a real app, these would be imported from a config file
-const LEVERAGED_LP_MANAGER_ADDRESS = '0x1234567890123456789012345678901234567890';
-const FEE_COLLECT_HOOK_ADDRESS = '0x0987654321098765432109876543210987654321';
-const USDC_ADDRESS = '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA'; // Base USDC
-const WETH_ADDRESS = '0x4200000000000000000000000000000000000006'; // Base WETH
-const UNISWAP_POSITION_MANAGER_ADDRESS = '0x8e2badc74a4560f7670d79fc67a5bf5b0d802a48'; // Example address
-
-interface StrategyStatus {
-  isActive: boolean;
-  ethSupplied: string;
-  usdcBorrowed: string;
-  lpTokenId: string;
-  feeHookApproved: boolean;
-  managerApproved: boolean;
-  totalFees: {
-    eth: string;
-    usdc: string;
-  };
-  tradeCount: number;
-  lastFeeCollection: number;
-}
+import { formatEthBalance, formatUsdcBalance } from '../utils/address';
+import HealthMonitor from '../components/HealthMonitor';
+import RebalancePosition from '../components/RebalancePosition';
+import HarvestFees from '../components/HarvestFees';
+import EventTimeline from '../components/EventTimeline';
+import PositionAnalytics from '../components/PositionAnalytics';
+import PendingTransactions from '../components/PendingTransactions';
+import { formatEthInUsd } from '../utils/priceService';
+import type { EthPrice } from '../utils/priceService';
+import type { StrategyStatus } from '../types';
+
+// FeeCollectHook collects fees on every 10th trade of a position
+const FEE_COLLECTION_INTERVAL = 10;
 
 const Dashboard: React.FC = () => {
-  const { isConnected, gnosisSafeAddress, balance: ethBalance, provider, safeSDK } = useWallet();
+  const { isConnected, isReadOnly, safeAddress, getStrategyStatus, getEthPrice } = useWallet();
 
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [eventListenerActive, setEventListenerActive] = useState(false);
-
-  // Initialize strategy status
-  const [strategyStatus, setStrategyStatus] = useState<StrategyStatus>({
-    isActive: false,
-    ethSupplied: '0',
-    usdcBorrowed: '0',
-    lpTokenId: '',
-    feeHookApproved: false,
-    managerApproved: false,
-    totalFees: {
-      eth: '0',
-      usdc: '0',
-    },
-    tradeCount: 0,
-    lastFeeCollection: 0,
-  });
+  const [ethPrice, setEthPrice] = useState<EthPrice | null>(null);
+  const [strategyStatus, setStrategyStatus] = useState<StrategyStatus | null>(null);
 
-  // Function to fetch strategy status from the blockchain
+  // Read the position, trade count and approvals of the Safe
   const fetchStrategyStatus = async () => {
-    if (!isConnected || !gnosisSafeAddress || !provider) {
+    if (!isConnected || !safeAddress) {
       return;
     }
 
     try {
-      setIsLoading(true);
       setError(null);
-
-      // Create contract interface for LeveragedLPManager
-      const lpManagerInterface = new ethers.Interface([
-        'function userPositions(address) view returns (address safe, uint256 lpTokenId, uint256 ethSupplied, uint256 usdcBorrowed, bool isActive)',
-        'function getFeeStatus(address) view returns (uint256 tradeCount, uint256 lastCollection, uint256 ethCollected, uint256 usdcCollected)',
-      ]);
-
-      // Create contract instance
-      const lpManagerContract = new ethers.Contract(
-        LEVERAGED_LP_MANAGER_ADDRESS,
-        lpManagerInterface,
-        provider
-      );
-
-      // Fetch user position
-      const position = await lpManagerContract.userPositions(gnosisSafeAddress);
-
-      // Check if position is active
-      if (!position.isActive) {
-        setStrategyStatus(prev => ({ ...prev, isActive: false }));
-        setIsLoading(false);
-        return;
-      }
-
-      // Fetch fee status
-      const feeStatus = await lpManagerContract.getFeeStatus(gnosisSafeAddress);
-
-      // Check approvals
-      const erc721Interface = new ethers.Interface([
-        'function getApproved(uint256) view returns (address)',
-      ]);
-
-      const positionManagerContract = new ethers.Contract(
-        UNISWAP_POSITION_MANAGER_ADDRESS,
-        erc721Interface,
-        provider
-      );
-
-      const approvedForFeeHook = await positionManagerContract.getApproved(position.lpTokenId);
-      const approvedForManager = await positionManagerContract.getApproved(position.lpTokenId);
-
-      const feeHookApproved =
-        approvedForFeeHook.toLowerCase() === FEE_COLLECT_HOOK_ADDRESS.toLowerCase();
-      const managerApproved =
-        approvedForManager.toLowerCase() === LEVERAGED_LP_MANAGER_ADDRESS.toLowerCase();
-
-      // Update strategy status
-      setStrategyStatus({
-        isActive: position.isActive,
-        ethSupplied: ethers.formatEther(position.ethSupplied),
-        usdcBorrowed: formatUsdcBalance(position.usdcBorrowed),
-        lpTokenId: position.lpTokenId.toString(),
-        feeHookApproved,
-        managerApproved,
-        totalFees: {
-          eth: ethers.formatEther(feeStatus.ethCollected),
-          usdc: formatUsdcBalance(feeStatus.usdcCollected),
-        },
-        tradeCount: feeStatus.tradeCount.toNumber(),
-        lastFeeCollection: feeStatus.lastCollection.toNumber() * 1000, // Convert to milliseconds
-      });
+      setStrategyStatus(await getStrategyStatus());
     } catch (err) {
       console.error('Error fetching strategy status:', err);
       setError('Failed to fetch strategy status. Please try again.');
-
-      // For demo purposes, set mock data if there's an error
-      setStrategyStatus({
-        isActive: true,
-        ethSupplied: '1.0',
-        usdcBorrowed: '1.5',
-        lpTokenId: '12345',
-        feeHookApproved: true,
-        managerApproved: true,
-        totalFees: {
-          eth: '0.05',
-          usdc: '0.075',
-        },
-        tradeCount: 7,
-        lastFeeCollection: Date.now() - 3600000,
-      });
+      setStrategyStatus(null);
     } finally {
       setIsLoading(false);
     }
@@ -144,81 +42,25 @@ const Dashboard: React.FC = () => {
 
   // Fetch strategy status on component mount
   useEffect(() => {
-    if (isConnected && gnosisSafeAddress) {
+    if (isConnected && safeAddress) {
+      setIsLoading(true);
       fetchStrategyStatus();
+      getEthPrice()
+        .then(setEthPrice)
+        .catch(err => console.error('Error fetching ETH price:', err));
     }
-  }, [isConnected, gnosisSafeAddress]);
+  }, [isConnected, safeAddress]);
 
   // Refresh status every 30 seconds
   useEffect(() => {
-    if (!isConnected || !gnosisSafeAddress) return;
+    if (!isConnected || !safeAddress) return;
 
     const interval = setInterval(() => {
       fetchStrategyStatus();
     }, 30000);
 
     return () => clearInterval(interval);
-  }, [isConnected, gnosisSafeAddress]);
-
-  // Set up event listeners for real-time updates
-  useEffect(() => {
-    if (!isConnected || !gnosisSafeAddress || !provider || eventListenerActive) return;
-
-    try {
-      // Create contract interface for events
-      const lpManagerInterface = new ethers.Interface([
-        'event StrategyStarted(address indexed safe, uint256 ethAmount, uint256 usdcAmount, uint256 lpTokenId)',
-        'event FeesProcessed(address indexed safe, uint256 usdcRepaid, uint256 ethAdded)',
-        'event StrategyExited(address indexed safe, uint256 ethReturned, uint256 usdcReturned)',
-      ]);
-
-      // Create contract instance
-      const lpManagerContract = new ethers.Contract(
-        LEVERAGED_LP_MANAGER_ADDRESS,
-        lpManagerInterface,
-        provider
-      );
-
-      // Set up event listeners
-      const handleStrategyStarted = (safe, ethAmount, usdcAmount, lpTokenId) => {
-        if (safe.toLowerCase() === gnosisSafeAddress?.toLowerCase()) {
-          console.log('Strategy started event detected');
-          fetchStrategyStatus();
-        }
-      };
-
-      const handleFeesProcessed = (safe, usdcRepaid, ethAdded) => {
-        if (safe.toLowerCase() === gnosisSafeAddress?.toLowerCase()) {
-          console.log('Fees processed event detected');
-          fetchStrategyStatus();
-        }
-      };
-
-      const handleStrategyExited = (safe, ethReturned, usdcReturned) => {
-        if (safe.toLowerCase() === gnosisSafeAddress?.toLowerCase()) {
-          console.log('Strategy exited event detected');
-          fetchStrategyStatus();
-        }
-      };
-
-      // Register event listeners
-      lpManagerContract.on('StrategyStarted', handleStrategyStarted);
-      lpManagerContract.on('FeesProcessed', handleFeesProcessed);
-      lpManagerContract.on('StrategyExited', handleStrategyExited);
-
-      setEventListenerActive(true);
-
-      // Clean up event listeners
-      return () => {
-        lpManagerContract.off('StrategyStarted', handleStrategyStarted);
-        lpManagerContract.off('FeesProcessed', handleFeesProcessed);
-        lpManagerContract.off('StrategyExited', handleStrategyExited);
-        setEventListenerActive(false);
-      };
-    } catch (err) {
-      console.error('Error setting up event listeners:', err);
-    }
-  }, [isConnected, gnosisSafeAddress, provider, eventListenerActive]);
+  }, [isConnected, safeAddress]);
 
   if (!isConnected) {
     return (
@@ -248,15 +90,20 @@ const Dashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Confirming and executing proposals needs an owner's signature */}
+      {!isReadOnly && <PendingTransactions onExecuted={fetchStrategyStatus} />}
+
       {isLoading ? (
         <div className="bg-white p-8 rounded-lg shadow text-center">
           <p className="text-gray-600">Loading strategy data...</p>
         </div>
-      ) : !strategyStatus.isActive ? (
+      ) : !strategyStatus ? null : !strategyStatus.isActive ? (
         <div className="bg-white p-8 rounded-lg shadow">
           <h2 className="text-xl font-semibold mb-4">No Active Strategy</h2>
           <p className="text-gray-600 mb-4">
-            You don't have an active leveraged LP strategy. Start one from the Strategy page.
+            {isReadOnly
+              ? "This Safe doesn't have an active leveraged LP strategy."
+              : "You don't have an active leveraged LP strategy. Start one from the Strategy page."}
           </p>
         </div>
       ) : (
@@ -273,116 +120,98 @@ const Dashboard: React.FC = () => {
               </div>
               <div className="bg-gray-50 p-4 rounded-md">
                 <h3 className="text-sm font-medium text-gray-500 mb-1">LP Token ID</h3>
-                <span className="font-mono">{strategyStatus.lpTokenId}</span>
+                <span className="font-mono">{strategyStatus.lpTokenId?.toString()}</span>
               </div>
               <div className="bg-gray-50 p-4 rounded-md">
                 <h3 className="text-sm font-medium text-gray-500 mb-1">ETH Supplied</h3>
-                <span className="font-medium">{strategyStatus.ethSupplied} ETH</span>
+                <span className="font-medium">
+                  {formatEthBalance(strategyStatus.ethSupplied)} ETH
+                </span>
+                {ethPrice && (
+                  <p className="text-sm text-gray-500">
+                    ≈ ${formatEthInUsd(strategyStatus.ethSupplied, ethPrice)}
+                    {ethPrice.isStale && ' (stale price)'}
+                  </p>
+                )}
               </div>
               <div className="bg-gray-50 p-4 rounded-md">
                 <h3 className="text-sm font-medium text-gray-500 mb-1">USDC Borrowed</h3>
-                <span className="font-medium">{strategyStatus.usdcBorrowed} USDC</span>
+                <span className="font-medium">
+                  {formatUsdcBalance(strategyStatus.usdcBorrowed)} USDC
+                </span>
               </div>
             </div>
           </div>
 
+          <HealthMonitor />
+
+          {!isReadOnly && <RebalancePosition onRebalanced={fetchStrategyStatus} />}
+
+          <PositionAnalytics />
+
           <div className="bg-white p-6 rounded-lg shadow mb-6">
             <h2 className="text-lg font-semibold mb-4">Approval Status</h2>
             <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <span className="font-medium">FeeCollectHook</span>
-                  <p className="text-sm text-gray-500">For automated fee collection</p>
-                </div>
-                <div
-                  className={`px-3 py-1 rounded-full ${
-                    strategyStatus.feeHookApproved
-                      ? 'bg-green-100 text-green-800'
-                      : 'bg-red-100 text-red-800'
-                  }`}
-                >
-                  {strategyStatus.feeHookApproved ? 'Approved' : 'Not Approved'}
-                </div>
-              </div>
-
-              <div className="flex items-center justify-between">
-                <div>
-                  <span className="font-medium">LeveragedLPManager</span>
-                  <p className="text-sm text-gray-500">For strategy exit/unwind</p>
+              {[
+                {
+                  name: 'FeeCollectHook',
+                  purpose: 'LP NFT, for automated fee collection',
+                  approved: strategyStatus.approvals.hookApprovedForNFT,
+                },
+                {
+                  name: 'LeveragedLPManager',
+                  purpose: 'LP NFT, for strategy exit/unwind',
+                  approved: strategyStatus.approvals.managerApprovedForNFT,
+                },
+                {
+                  name: 'LeveragedLPManager',
+                  purpose: 'WETH and USDC, for fee processing',
+                  approved: strategyStatus.approvals.managerApprovedForTokens,
+                },
+              ].map(({ name, purpose, approved }) => (
+                <div key={purpose} className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium">{name}</span>
+                    <p className="text-sm text-gray-500">{purpose}</p>
+                  </div>
+                  <div
+                    className={`px-3 py-1 rounded-full ${
+                      approved ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}
+                  >
+                    {approved ? 'Approved' : 'Not Approved'}
+                  </div>
                 </div>
-                <div
-                  className={`px-3 py-1 rounded-full ${
-                    strategyStatus.managerApproved
-                      ? 'bg-green-100 text-green-800'
-                      : 'bg-red-100 text-red-800'
-                  }`}
-                >
-                  {strategyStatus.managerApproved ? 'Approved' : 'Not Approved'}
-                </div>
-              </div>
+              ))}
             </div>
           </div>
 
           <div className="bg-white p-6 rounded-lg shadow mb-6">
             <h2 className="text-lg font-semibold mb-4">Fee Collection</h2>
-            <div className="grid grid-cols-2 gap-4 mb-4">
-              <div className="bg-gray-50 p-4 rounded-md">
-                <h3 className="text-sm font-medium text-gray-500 mb-1">Total ETH Fees</h3>
-                <span className="font-medium">{strategyStatus.totalFees.eth} ETH</span>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-md">
-                <h3 className="text-sm font-medium text-gray-500 mb-1">Total USDC Fees</h3>
-                <span className="font-medium">{strategyStatus.totalFees.usdc} USDC</span>
-              </div>
-            </div>
-
             <div className="bg-blue-50 p-4 rounded-md">
               <div className="flex items-center justify-between mb-2">
                 <span className="font-medium text-blue-800">Trade Count</span>
-                <span className="font-medium">{strategyStatus.tradeCount} / 10</span>
+                <span className="font-medium">
+                  {strategyStatus.tradesSinceLastCollection} / {FEE_COLLECTION_INTERVAL}
+                </span>
               </div>
               <div className="w-full bg-blue-200 rounded-full h-2.5">
                 <div
                   className="bg-blue-600 h-2.5 rounded-full"
-                  style={{ width: `${(strategyStatus.tradeCount / 10) * 100}%` }}
+                  style={{
+                    width: `${(strategyStatus.tradesSinceLastCollection / FEE_COLLECTION_INTERVAL) * 100}%`,
+                  }}
                 ></div>
               </div>
               <p className="mt-2 text-sm text-blue-600">
-                Next fee collection at 10 trades. Currently at {strategyStatus.tradeCount} trades.
+                Next fee collection at {FEE_COLLECTION_INTERVAL} trades. Currently at{' '}
+                {strategyStatus.tradesSinceLastCollection} trades.
               </p>
             </div>
+            <HarvestFees onHarvested={fetchStrategyStatus} />
           </div>
 
-          <div className="bg-white p-6 rounded-lg shadow">
-            <h2 className="text-lg font-semibold mb-4">Recent Events</h2>
-            <div className="space-y-3">
-              <div className="p-3 border-l-4 border-green-500">
-                <div className="flex justify-between">
-                  <span className="font-medium">Fee Collection</span>
-                  <span className="text-sm text-gray-500">
-                    {new Date(strategyStatus.lastFeeCollection).toLocaleString()}
-                  </span>
-                </div>
-                <p className="text-sm text-gray-600">
-                  Collected 0.02 ETH and 0.03 USDC in fees. Repaid USDC debt and added ETH
-                  collateral.
-                </p>
-              </div>
-
-              <div className="p-3 border-l-4 border-blue-500">
-                <div className="flex justify-between">
-                  <span className="font-medium">Strategy Started</span>
-                  <span className="text-sm text-gray-500">
-                    {new Date(strategyStatus.lastFeeCollection - 86400000).toLocaleString()}
-                  </span>
-                </div>
-                <p className="text-sm text-gray-600">
-                  Deposited 1 ETH, borrowed 1.5 USDC, and created LP position with ID{' '}
-                  {strategyStatus.lpTokenId}.
-                </p>
-              </div>
-            </div>
-          </div>
+          <EventTimeline onNewEvents={fetchStrategyStatus} />
         </>
       )}
     </div>
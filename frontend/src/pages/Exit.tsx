@@ -1,52 +1,39 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useWallet } from '../contexts/WalletContext';
 import { formatEthBalance, formatUsdcBalance } from '../utils/address';
-
-interface StrategyStatus {
-  isActive: boolean;
-  ethSupplied: bigint;
-  usdcBorrowed: bigint;
-  lpTokenId: string;
-  managerApproved: boolean;
-}
+import BatchReview from '../components/BatchReview';
+import ReducePosition from '../components/ReducePosition';
+import { getExplorerTxUrl } from '../constants/chains';
+import type { PreparedSafeBatch } from '../utils/safeBatch';
+import type { SafeExecutionResult, StrategyExitResult, StrategyStatus } from '../types';
 
 const Exit: React.FC = () => {
-  const { isConnected, gnosisSafeAddress } = useWallet();
+  const {
+    isConnected,
+    chainId,
+    safeAddress,
+    getStrategyStatus,
+    prepareExitStrategy,
+    executeSafeBatch,
+    getStrategyExitResult,
+  } = useWallet();
   const [isLoading, setIsLoading] = useState(true);
   const [isExiting, setIsExiting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState<string | null>(null);
-
-  // Mock strategy status - in a real app, you would fetch this from the blockchain
-  const [strategyStatus, setStrategyStatus] = useState<StrategyStatus>({
-    isActive: false,
-    ethSupplied: BigInt(0),
-    usdcBorrowed: BigInt(0),
-    lpTokenId: '',
-    managerApproved: false,
-  });
-
-  // Mock function to fetch strategy status
+  const [strategyStatus, setStrategyStatus] = useState<StrategyStatus | null>(null);
+  const [swapEthForDebt, setSwapEthForDebt] = useState(true);
+  const [pendingBatch, setPendingBatch] = useState<PreparedSafeBatch | null>(null);
+  const [exitResult, setExitResult] = useState<StrategyExitResult | null>(null);
+  const [proposal, setProposal] = useState<SafeExecutionResult | null>(null);
+
+  // Fetch the Safe's position from the LeveragedLPManager
   const fetchStrategyStatus = async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      // In a real implementation, you would fetch the strategy status from the blockchain
-      // Example:
-      // const status = await leveragedLPManagerContract.userPositions(gnosisSafeAddress);
-
-      // For demo purposes, we'll simulate a strategy status
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      // Mock data
-      setStrategyStatus({
-        isActive: true,
-        ethSupplied: BigInt(1000000000000000000), // 1 ETH
-        usdcBorrowed: BigInt(1500000), // 1.5 USDC
-        lpTokenId: '12345',
-        managerApproved: true,
-      });
+      setStrategyStatus(await getStrategyStatus());
     } catch (err) {
       console.error('Error fetching strategy status:', err);
       setError('Failed to fetch strategy status. Please try again.');
@@ -55,78 +42,57 @@ const Exit: React.FC = () => {
     }
   };
 
+  // Reload the status after a reduction without replacing the page with the loading state
+  const refreshStrategyStatus = async () => {
+    try {
+      setStrategyStatus(await getStrategyStatus());
+    } catch (err) {
+      console.error('Error refreshing strategy status:', err);
+    }
+  };
+
   // Fetch strategy status on component mount
   useEffect(() => {
-    if (isConnected && gnosisSafeAddress) {
+    if (isConnected && safeAddress) {
       fetchStrategyStatus();
     }
-  }, [isConnected, gnosisSafeAddress]);
+  }, [isConnected, safeAddress]);
 
-  const handleApproveManager = async () => {
+  const handleReviewExit = async () => {
     try {
       setIsExiting(true);
       setError(null);
 
-      // In a real implementation, you would use the Gnosis Pay SDK to approve the manager
-      // Example:
-      // await gnosisPay.approveERC721(
-      //   positionManagerAddress,
-      //   leveragedLPManagerAddress,
-      //   strategyStatus.lpTokenId
-      // );
-
-      // For demo purposes, we'll simulate a successful approval
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      setStrategyStatus(prev => ({ ...prev, managerApproved: true }));
-      setSuccess('LP Manager approved successfully!');
-
-      // Reset success message after 3 seconds
-      setTimeout(() => {
-        setSuccess(null);
-      }, 3000);
+      setPendingBatch(await prepareExitStrategy(swapEthForDebt));
     } catch (err) {
-      console.error('Error approving LP Manager:', err);
-      setError('Failed to approve LP Manager. Please try again.');
+      console.error('Error preparing exit:', err);
+      setError(err instanceof Error ? err.message : 'Failed to prepare exit. Please try again.');
     } finally {
       setIsExiting(false);
     }
   };
 
   const handleExitStrategy = async () => {
+    if (!pendingBatch) return;
+
     try {
       setIsExiting(true);
       setError(null);
 
-      if (!strategyStatus.managerApproved) {
-        setError('Please approve the LP Manager before exiting the strategy');
-        setIsExiting(false);
+      const result = await executeSafeBatch(pendingBatch);
+      setPendingBatch(null);
+
+      // A multi-owner Safe exits once the co-owners confirm the proposal
+      if (result.status === 'proposed') {
+        setProposal(result);
         return;
       }
 
-      // In a real implementation, you would use the Gnosis Pay SDK to exit the strategy
-      // Example:
-      // await gnosisPay.executeTransaction(
-      //   leveragedLPManagerAddress,
-      //   'exitStrategy',
-      //   [gnosisSafeAddress]
-      // );
-
-      // For demo purposes, we'll simulate a successful exit
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      setStrategyStatus(prev => ({ ...prev, isActive: false }));
-      setSuccess(
-        'Strategy exited successfully! Assets have been returned to your Gnosis Pay wallet.'
-      );
-
-      // Reset success message after 5 seconds
-      setTimeout(() => {
-        setSuccess(null);
-      }, 5000);
+      setExitResult(await getStrategyExitResult(result.txHash));
+      await fetchStrategyStatus();
     } catch (err) {
       console.error('Error exiting strategy:', err);
-      setError('Failed to exit strategy. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to exit strategy. Please try again.');
     } finally {
       setIsExiting(false);
     }
@@ -154,9 +120,42 @@ const Exit: React.FC = () => {
         </div>
       )}
 
-      {success && (
+      {proposal?.status === 'proposed' && (
+        <div className="bg-blue-50 p-4 rounded-md border border-blue-200 mb-6">
+          <p className="text-blue-700">
+            Exit proposed to the Safe's owners with {proposal.confirmations} of {proposal.threshold}{' '}
+            confirmations. Co-owners can confirm and execute it from the Dashboard.
+          </p>
+        </div>
+      )}
+
+      {exitResult && (
         <div className="bg-green-50 p-4 rounded-md border border-green-200 mb-6">
-          <p className="text-green-700">{success}</p>
+          <p className="text-green-700 font-medium mb-2">
+            Strategy exited! Assets have been returned to your Gnosis Pay wallet.
+          </p>
+          <div className="grid grid-cols-2 gap-2 text-green-700 text-sm">
+            <span>ETH returned:</span>
+            <span className="font-mono">{formatEthBalance(exitResult.ethReturned, 6)} ETH</span>
+            <span>USDC debt repaid:</span>
+            <span className="font-mono">{formatUsdcBalance(exitResult.usdcRepaid)} USDC</span>
+            <span>LP Token ID:</span>
+            <span className="font-mono">{exitResult.lpTokenId.toString()}</span>
+          </div>
+          <a
+            href={getExplorerTxUrl(chainId, exitResult.txHash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-600 hover:underline font-mono break-all"
+          >
+            {exitResult.txHash}
+          </a>
+          <p className="text-sm text-green-700 mt-2">
+            The Safe's approvals to the strategy contracts stay in place.{' '}
+            <Link to="/approvals" className="text-blue-600 hover:underline">
+              Revoke them
+            </Link>
+          </p>
         </div>
       )}
 
@@ -164,7 +163,7 @@ const Exit: React.FC = () => {
         <div className="bg-white p-8 rounded-lg shadow text-center">
           <p className="text-gray-600">Loading strategy data...</p>
         </div>
-      ) : !strategyStatus.isActive ? (
+      ) : !strategyStatus?.isActive ? (
         <div className="bg-white p-8 rounded-lg shadow">
           <h2 className="text-xl font-semibold mb-4">No Active Strategy</h2>
           <p className="text-gray-600 mb-4">
@@ -172,77 +171,112 @@ const Exit: React.FC = () => {
           </p>
         </div>
       ) : (
-        <div className="bg-white p-6 rounded-lg shadow">
-          <h2 className="text-lg font-semibold mb-4">Exit Your Leveraged LP Strategy</h2>
-
-          <div className="bg-yellow-50 p-4 rounded-md border border-yellow-200 mb-6">
-            <p className="text-yellow-700 font-medium">Important: Exiting the strategy will:</p>
-            <ol className="list-decimal pl-5 mt-2 space-y-1 text-yellow-700">
-              <li>Withdraw your LP position from Uniswap V4</li>
-              <li>Repay your USDC debt on Aave</li>
-              <li>Return your ETH collateral to your Gnosis Pay wallet</li>
-            </ol>
-          </div>
+        <>
+          <ReducePosition onReduced={refreshStrategyStatus} />
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h2 className="text-lg font-semibold mb-4">Exit Your Leveraged LP Strategy</h2>
 
-          <div className="mb-6">
-            <h3 className="text-md font-medium mb-3">Strategy Summary</h3>
-            <div className="bg-gray-50 p-4 rounded-md border border-gray-200">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <span className="text-gray-500 text-sm">ETH Supplied:</span>
-                  <p className="font-medium">{formatEthBalance(strategyStatus.ethSupplied)} ETH</p>
-                </div>
-                <div>
-                  <span className="text-gray-500 text-sm">USDC Borrowed:</span>
-                  <p className="font-medium">
-                    {formatUsdcBalance(strategyStatus.usdcBorrowed)} USDC
-                  </p>
-                </div>
-                <div>
-                  <span className="text-gray-500 text-sm">LP Token ID:</span>
-                  <p className="font-mono">{strategyStatus.lpTokenId}</p>
-                </div>
-                <div>
-                  <span className="text-gray-500 text-sm">LP Manager Approved:</span>
-                  <p className={strategyStatus.managerApproved ? 'text-green-600' : 'text-red-600'}>
-                    {strategyStatus.managerApproved ? 'Yes' : 'No'}
-                  </p>
+            <div className="bg-yellow-50 p-4 rounded-md border border-yellow-200 mb-6">
+              <p className="text-yellow-700 font-medium">Important: Exiting the strategy will:</p>
+              <ol className="list-decimal pl-5 mt-2 space-y-1 text-yellow-700">
+                <li>Withdraw your LP position from Uniswap V4</li>
+                <li>Repay your USDC debt on Aave</li>
+                <li>Return your ETH collateral to your Gnosis Pay wallet</li>
+              </ol>
+            </div>
+
+            <div className="mb-6">
+              <h3 className="text-md font-medium mb-3">Strategy Summary</h3>
+              <div className="bg-gray-50 p-4 rounded-md border border-gray-200">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <span className="text-gray-500 text-sm">ETH Supplied:</span>
+                    <p className="font-medium">
+                      {formatEthBalance(strategyStatus.ethSupplied)} ETH
+                    </p>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 text-sm">USDC Borrowed:</span>
+                    <p className="font-medium">
+                      {formatUsdcBalance(strategyStatus.usdcBorrowed)} USDC
+                    </p>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 text-sm">LP Token ID:</span>
+                    <p className="font-mono">{strategyStatus.lpTokenId?.toString()}</p>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 text-sm">LP Manager Approved:</span>
+                    <p
+                      className={
+                        strategyStatus.approvals.managerApprovedForNFT
+                          ? 'text-green-600'
+                          : 'text-red-600'
+                      }
+                    >
+                      {strategyStatus.approvals.managerApprovedForNFT ? 'Yes' : 'No'}
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
 
-          {!strategyStatus.managerApproved && (
             <div className="mb-6">
-              <h3 className="text-md font-medium mb-3">Required Approval</h3>
-              <div className="bg-gray-50 p-4 rounded-md border border-gray-200">
-                <p className="mb-3 text-gray-700">
-                  Before exiting, you need to approve the LeveragedLPManager contract to use your LP
-                  NFT.
-                </p>
-                <button
-                  onClick={handleApproveManager}
-                  disabled={isExiting}
-                  className="w-full px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
-                >
-                  {isExiting ? 'Processing...' : 'Approve LP Manager'}
-                </button>
+              <h3 className="text-md font-medium mb-3">Remaining Debt</h3>
+              <div className="bg-gray-50 p-4 rounded-md border border-gray-200 space-y-2">
+                <label className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    name="swapEthForDebt"
+                    checked={swapEthForDebt}
+                    onChange={() => setSwapEthForDebt(true)}
+                    disabled={isExiting || pendingBatch !== null}
+                    className="mt-1"
+                  />
+                  <span className="text-gray-700">
+                    Swap ETH for USDC if the LP's USDC does not cover the debt
+                  </span>
+                </label>
+                <label className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    name="swapEthForDebt"
+                    checked={!swapEthForDebt}
+                    onChange={() => setSwapEthForDebt(false)}
+                    disabled={isExiting || pendingBatch !== null}
+                    className="mt-1"
+                  />
+                  <span className="text-gray-700">
+                    Don't swap. I will repay any remaining USDC debt myself
+                  </span>
+                </label>
               </div>
             </div>
-          )}
 
-          <button
-            onClick={handleExitStrategy}
-            disabled={isExiting || !strategyStatus.managerApproved}
-            className="w-full px-4 py-3 text-white bg-red-600 rounded-md hover:bg-red-700 disabled:bg-red-300"
-          >
-            {isExiting ? 'Processing Exit...' : 'Exit Strategy'}
-          </button>
+            {pendingBatch ? (
+              <BatchReview
+                batch={pendingBatch}
+                isProcessing={isExiting}
+                onConfirm={handleExitStrategy}
+                onCancel={() => setPendingBatch(null)}
+              />
+            ) : (
+              <button
+                onClick={handleReviewExit}
+                disabled={isExiting}
+                className="w-full px-4 py-3 text-white bg-red-600 rounded-md hover:bg-red-700 disabled:bg-red-300"
+              >
+                {isExiting ? 'Preparing Exit...' : 'Review Exit'}
+              </button>
+            )}
 
-          <p className="mt-4 text-sm text-gray-500 text-center">
-            Make sure you have approved the LP Manager before exiting the strategy.
-          </p>
-        </div>
+            {!strategyStatus.approvals.managerApprovedForNFT && (
+              <p className="mt-4 text-sm text-gray-500 text-center">
+                The LP NFT approval for the LP Manager is added to the exit transaction.
+              </p>
+            )}
+          </div>
+        </>
       )}
     </div>
   );
@@ -1,14 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useWallet } from '../contexts/WalletContext';
+import { useNotifications } from '../contexts/NotificationContext';
 
 const Funding: React.FC = () => {
   const { isConnected, safeAddress, depositETH, balance: safeBalance, fetchBalance } = useWallet();
+  const { notify } = useNotifications();
 
   const [amount, setAmount] = useState('');
   const [isDepositing, setIsDepositing] = useState(false);
-  const [depositSuccess, setDepositSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [txHash, setTxHash] = useState<string | null>(null);
 
   // Fetch balance when component mounts and when connected state changes
   useEffect(() => {
@@ -33,21 +33,14 @@ const Funding: React.FC = () => {
     try {
       setIsDepositing(true);
       setError(null);
-      setTxHash(null);
 
-      const hash = await depositETH(amount);
+      await depositETH(amount);
 
-      setTxHash(hash);
-      setDepositSuccess(true);
+      notify({ type: 'success', title: 'Deposit complete', message: `${amount} ETH deposited` });
       setAmount('');
 
       // Refresh balance
       await fetchBalance();
-
-      // Reset success message after 5 seconds
-      setTimeout(() => {
-        setDepositSuccess(false);
-      }, 5000);
     } catch (err) {
       console.error('Error depositing ETH:', err);
       setError(err instanceof Error ? err.message : 'Failed to deposit ETH. Please try again.');
@@ -83,25 +76,6 @@ const Funding: React.FC = () => {
       <div className="bg-white p-6 rounded-lg shadow">
         <h2 className="text-lg font-semibold mb-4 text-black">Deposit ETH</h2>
 
-        {depositSuccess && (
-          <div className="bg-white p-4 rounded-md border border-gray-200 mb-4">
-            <p className="text-black">ETH deposited successfully!</p>
-            {txHash && (
-              <p className="text-sm mt-2 text-black">
-                Transaction hash:{' '}
-                <a
-                  href={`https://basescan.org/tx/${txHash}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-blue-600 hover:underline font-mono break-all"
-                >
-                  {txHash}
-                </a>
-              </p>
-            )}
-          </div>
-        )}
-
         {error && (
           <div className="bg-white p-4 rounded-md border border-gray-200 mb-4">
             <p className="text-black">{error}</p>
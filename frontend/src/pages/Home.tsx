@@ -39,7 +39,7 @@ const Home: React.FC = () => {
               guided through the creation process.
             </p>
             <button
-              onClick={connect}
+              onClick={() => connect()}
               disabled={isLoading}
               className="w-full px-4 py-3 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
             >
@@ -1,49 +1,179 @@
 import React, { useState, useEffect } from 'react';
 import { useWallet } from '../contexts/WalletContext';
 import { ethers } from 'ethers';
-import config from '../config';
-import * as ABIs from '../abis';
+import { erc20Abi, formatUnits } from 'viem';
+import type { Address } from 'viem';
+import { readContract } from 'wagmi/actions';
+import { getContractAddresses } from '../constants/contractAddresses';
+import { wagmiConfig } from '../constants/wagmi';
+import type { SupportedChainId } from '../constants/wagmi';
+import BatchReview from '../components/BatchReview';
+import StrategyPreview from '../components/StrategyPreview';
+import StrategyChecklist from '../components/StrategyChecklist';
+import type { PreparedSafeBatch } from '../utils/safeBatch';
+import type { StrategyParams } from '../types';
+import {
+  MAX_SLIPPAGE_BPS,
+  MIN_SLIPPAGE_BPS,
+  validateStrategyParams,
+} from '../utils/strategyValidation';
+import type { StrategyLimits } from '../utils/strategyValidation';
+import { estimateUsdcBorrow, formatEthInUsd } from '../utils/priceService';
+import type { EthPrice } from '../utils/priceService';
+import type { StrategyReserves } from '../utils/strategySimulator';
+import { EXACT_BORROW_BUFFER_BPS } from '../utils/strategySteps';
+import type { StrategyStep } from '../utils/strategySteps';
+import { previewIncrease } from '../utils/positionAdjustments';
+import type { PositionBalances } from '../utils/positionAdjustments';
+import { getHealthLevel } from '../utils/health';
+import type { HealthLevel } from '../utils/health';
 
-// Define types for our component state
-interface StrategyStatusType {
-  isApproved: boolean;
-  isStarted: boolean;
-  positionId: string | null;
-}
+const HEALTH_STYLES: Record<HealthLevel, string> = {
+  safe: 'text-green-700',
+  warning: 'text-yellow-700',
+  danger: 'text-red-700',
+};
+
+const formatHealthFactor = (healthFactor: number) =>
+  Number.isFinite(healthFactor) ? healthFactor.toFixed(2) : '∞';
+
+// Wait for the inputs to settle before reading the setup state from the chain again
+const PROGRESS_REFRESH_DELAY_MS = 500;
 
 const Strategy: React.FC = () => {
   const {
     isConnected,
+    chainId,
     safeAddress,
     balance: ethBalance,
     fetchBalance,
-    convertEthToWeth,
-    startStrategy,
+    getEthPrice,
+    getStrategyLimits,
+    getStrategyReserves,
+    getStrategyProgress,
+    prepareStartStrategy,
+    prepareIncreasePosition,
+    getPositionBalances,
+    executeSafeBatch,
   } = useWallet();
 
   const [usdcBalance, setUsdcBalance] = useState<string>('0');
   const [isLoadingBalances, setIsLoadingBalances] = useState<boolean>(false);
-  const [amount, setAmount] = useState('');
-  const [ltv, setLtv] = useState('50'); // Default to 50% LTV
+  const [amount, setAmount] = useState('0.001');
+  const [ltv, setLtv] = useState('30'); // Default to 30% LTV
+  const [slippage, setSlippage] = useState('0.5'); // Slippage tolerance in percent
+  const [exactApprovals, setExactApprovals] = useState(false);
+  const [limits, setLimits] = useState<StrategyLimits | null>(null);
+  const [ethPrice, setEthPrice] = useState<EthPrice | null>(null);
+  const [reserves, setReserves] = useState<StrategyReserves | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-
-  // State for strategy status
-  const [strategyStatus, setStrategyStatus] = useState<StrategyStatusType>({
-    isApproved: false,
-    isStarted: false,
-    positionId: null,
-  });
+  const [pendingBatch, setPendingBatch] = useState<PreparedSafeBatch | null>(null);
+  const [steps, setSteps] = useState<StrategyStep[] | null>(null);
+  const [isRefreshingSteps, setIsRefreshingSteps] = useState(false);
+  const [positionBalances, setPositionBalances] = useState<PositionBalances | null>(null);
 
   // Fetch balances on component mount and when wallet connection changes
   useEffect(() => {
     if (isConnected && safeAddress) {
       fetchBalance();
       fetchUsdcBalance();
+      fetchLimits();
+      fetchEthPrice();
+      fetchReserves();
     }
   }, [isConnected, safeAddress, fetchBalance]);
 
+  // Function to fetch the live ETH price used for the borrow preview
+  const fetchEthPrice = async () => {
+    try {
+      setEthPrice(await getEthPrice());
+    } catch (error) {
+      console.error('Error fetching ETH price:', error);
+    }
+  };
+
+  // Function to fetch the fees and Aave reserve data the preview simulates with
+  const fetchReserves = async () => {
+    try {
+      setReserves(await getStrategyReserves());
+    } catch (error) {
+      console.error('Error fetching strategy reserves:', error);
+    }
+  };
+
+  // Function to check which setup steps are already done on-chain for the entered parameters
+  const fetchProgress = async (strategyParams: StrategyParams) => {
+    try {
+      setIsRefreshingSteps(true);
+      setSteps(await getStrategyProgress(strategyParams));
+    } catch (error) {
+      console.error('Error fetching strategy progress:', error);
+    } finally {
+      setIsRefreshingSteps(false);
+    }
+  };
+
+  // Function to fetch the open position the added ETH is previewed against
+  const fetchPositionBalances = async () => {
+    try {
+      setPositionBalances(await getPositionBalances());
+    } catch (error) {
+      console.error('Error fetching position balances:', error);
+    }
+  };
+
+  // Function to fetch the on-chain limits the inputs are validated against
+  const fetchLimits = async () => {
+    try {
+      setLimits(await getStrategyLimits());
+    } catch (error) {
+      console.error('Error fetching strategy limits:', error);
+    }
+  };
+
+  // Parse the form inputs, returns null when the amount is not a valid ETH value
+  const parseStrategyParams = (): StrategyParams | null => {
+    try {
+      return {
+        ethAmount: ethers.utils.parseEther(amount || '0').toBigInt(),
+        ltv: Number(ltv),
+        slippageBps: Math.round(Number(slippage) * 100),
+      };
+    } catch {
+      return null;
+    }
+  };
+
+  const params = parseStrategyParams();
+  const validationErrors = !params
+    ? ['ETH amount must be a valid number']
+    : limits
+      ? validateStrategyParams(params, limits)
+      : [];
+  // With a position open the form adds to it instead of starting a new one
+  const isIncrease = steps?.some(({ id }) => id === 'increasePosition') ?? false;
+  const increasePreview =
+    isIncrease && positionBalances && params
+      ? previewIncrease(positionBalances, params.ethAmount, params.ltv)
+      : null;
+
+  // Re-check the setup steps once the amount or LTV stop changing, the allowances
+  // and the WETH to wrap they are compared against depend on both
+  useEffect(() => {
+    if (!isConnected || !safeAddress || !params) return;
+
+    const timeout = setTimeout(() => fetchProgress(params), PROGRESS_REFRESH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isConnected, safeAddress, amount, ltv]);
+
+  useEffect(() => {
+    if (isIncrease) {
+      fetchPositionBalances();
+    }
+  }, [isIncrease]);
+
   // Function to fetch USDC balance
   const fetchUsdcBalance = async () => {
     if (!isConnected || !safeAddress) return;
@@ -51,11 +181,15 @@ const Strategy: React.FC = () => {
     try {
       setIsLoadingBalances(true);
 
-      const provider = new ethers.providers.Web3Provider(window.ethereum);
-      const usdcContract = new ethers.Contract(config.addresses.usdc, ABIs.ERC20, provider);
-      const balance = await usdcContract.balanceOf(safeAddress);
+      const balance = await readContract(wagmiConfig, {
+        chainId: chainId as SupportedChainId,
+        address: getContractAddresses(chainId).usdc,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [safeAddress as Address],
+      });
 
-      const formattedBalance = ethers.utils.formatUnits(balance, 6);
+      const formattedBalance = formatUnits(balance, 6);
       setUsdcBalance(formattedBalance);
     } catch (error) {
       console.error('Error fetching USDC balance:', error);
@@ -70,40 +204,74 @@ const Strategy: React.FC = () => {
       return;
     }
 
+    if (!params || validationErrors.length > 0) {
+      setError(validationErrors.join('. '));
+      return;
+    }
+
     try {
       setIsProcessing(true);
       setError(null);
-      setSuccess('Starting approval process...');
+      setSuccess('Preparing strategy transaction...');
 
-      const ethAmount = '0.0001'; // 0.0001 ETH
-      const ltvValue = 50; // 50% LTV
+      const batch = isIncrease
+        ? await prepareIncreasePosition(params, exactApprovals)
+        : await prepareStartStrategy(params, exactApprovals);
+      setPendingBatch(batch);
+      setSuccess('Review the batched calls below, then sign once to execute them.');
+    } catch (err) {
+      console.error('Error preparing strategy transaction:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to prepare the strategy. Please try again.'
+      );
+      setSuccess(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-      setSuccess('Step 1/4: Converting ETH to WETH...');
-      await convertEthToWeth(ethAmount);
+  const handleExecuteBatch = async () => {
+    if (!pendingBatch) return;
 
-      setSuccess('Steps 2-4: Completing approvals for WETH, USDC, and Aave delegation...');
-      const approvalResult = await startStrategy(ethAmount, ltvValue);
+    try {
+      setIsProcessing(true);
+      setError(null);
+      setSuccess('Waiting for signature and execution...');
 
-      if (approvalResult) {
-        setStrategyStatus(prev => ({ ...prev, isApproved: true }));
-        setSuccess(`All approvals completed successfully!`);
+      const result = await executeSafeBatch(pendingBatch);
 
-        // Refresh balances
-        await fetchBalance();
-        await fetchUsdcBalance();
+      setPendingBatch(null);
 
-        // Reset success message after 5 seconds
-        setTimeout(() => {
-          setSuccess('All approvals completed! You can now start the strategy.');
-        }, 5000);
+      // A multi-owner Safe runs the batch once the co-owners confirm the proposal
+      if (result.status === 'proposed') {
+        setSuccess(
+          `Proposed to the Safe's owners with ${result.confirmations} of ${result.threshold} confirmations. Co-owners can confirm and execute it from the Dashboard.`
+        );
+        return;
       }
+      setSuccess(
+        pendingBatch.description === 'IncreasePosition'
+          ? 'Added to the position! You can follow it on the Dashboard.'
+          : 'Strategy started! You can follow the position on the Dashboard.'
+      );
+
+      // Refresh balances
+      await fetchBalance();
+      await fetchUsdcBalance();
+      await fetchLimits();
+      if (pendingBatch.description === 'IncreasePosition') await fetchPositionBalances();
     } catch (err) {
-      console.error('Error completing approvals:', err);
+      console.error('Error executing strategy batch:', err);
       setError(
-        err instanceof Error ? err.message : 'Failed to complete approvals. Please try again.'
+        err instanceof Error
+          ? `${err.message}. Steps that completed are skipped when you retry.`
+          : 'Failed to execute the strategy. Please try again.'
       );
+      setSuccess(null);
     } finally {
       setIsProcessing(false);
+      // Whatever happened, the checklist shows what is on-chain now
+      if (params) await fetchProgress(params);
     }
   };
 
@@ -119,7 +287,9 @@ const Strategy: React.FC = () => {
 
   return (
     <div className="max-w-2xl mx-auto">
-      <h1 className="text-2xl text-black font-bold mb-6">Start Leveraged LP Strategy</h1>
+      <h1 className="text-2xl text-black font-bold mb-6">
+        {isIncrease ? 'Add to Leveraged LP Position' : 'Start Leveraged LP Strategy'}
+      </h1>
 
       <div className="bg-white p-6 rounded-lg shadow mb-6">
         <h2 className="text-lg font-semibold mb-4 text-black">Current Balances</h2>
@@ -134,10 +304,19 @@ const Strategy: React.FC = () => {
                 <span>ETH Balance:</span>
                 <span className="font-mono font-medium text-black">{ethBalance} ETH</span>
               </div>
-              <div className="flex justify-between items-center">
+              <div className="flex justify-between items-center mb-2">
                 <span>USDC Balance:</span>
                 <span className="font-mono font-medium text-black">{usdcBalance} USDC</span>
               </div>
+              {limits && (
+                <div className="flex justify-between items-center">
+                  <span>Safe ETH / WETH:</span>
+                  <span className="font-mono font-medium text-black">
+                    {ethers.utils.formatEther(limits.safeEthBalance)} /{' '}
+                    {ethers.utils.formatEther(limits.safeWethBalance)}
+                  </span>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -158,43 +337,186 @@ const Strategy: React.FC = () => {
           </div>
         )}
 
+        <div className="space-y-4 mb-4">
+          <div>
+            <label htmlFor="ethAmount" className="block text-sm font-medium text-black mb-1">
+              ETH Amount
+            </label>
+            <input
+              id="ethAmount"
+              type="number"
+              min="0"
+              step="0.0001"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              disabled={isProcessing || pendingBatch !== null}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-black"
+            />
+          </div>
+          <div>
+            <label htmlFor="ltv" className="block text-sm font-medium text-black mb-1">
+              Loan-to-Value: {ltv}%{limits && ` (max ${limits.maxLtv}%)`}
+            </label>
+            <input
+              id="ltv"
+              type="range"
+              min="1"
+              max={limits?.maxLtv ?? 75}
+              step="1"
+              value={ltv}
+              onChange={e => setLtv(e.target.value)}
+              disabled={isProcessing || pendingBatch !== null}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label htmlFor="slippage" className="block text-sm font-medium text-black mb-1">
+              Slippage Tolerance (%)
+            </label>
+            <input
+              id="slippage"
+              type="number"
+              min={MIN_SLIPPAGE_BPS / 100}
+              max={MAX_SLIPPAGE_BPS / 100}
+              step="0.1"
+              value={slippage}
+              onChange={e => setSlippage(e.target.value)}
+              disabled={isProcessing || pendingBatch !== null}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-black"
+            />
+          </div>
+          <label className="flex items-start gap-2 text-sm text-black">
+            <input
+              type="checkbox"
+              checked={exactApprovals}
+              onChange={e => setExactApprovals(e.target.checked)}
+              disabled={isProcessing || pendingBatch !== null}
+              className="mt-1"
+            />
+            <span>
+              Approve exact amounts only. The WETH deposit and the estimated USDC borrow plus{' '}
+              {Number(EXACT_BORROW_BUFFER_BPS) / 100}% for price movement, instead of unlimited
+              approvals.
+            </span>
+          </label>
+          {ethPrice && params && (
+            <div className="bg-gray-50 p-3 rounded-md border border-gray-200 text-sm text-black">
+              <div className="flex justify-between">
+                <span>
+                  ETH price ({ethPrice.source === 'chainlink' ? 'Chainlink' : 'Aave oracle'}):
+                </span>
+                <span className="font-mono">
+                  ${ethers.utils.formatUnits(ethPrice.usdcPerEth, 6)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Collateral value:</span>
+                <span className="font-mono">${formatEthInUsd(params.ethAmount, ethPrice)}</span>
+              </div>
+              {reserves ? (
+                <StrategyPreview
+                  params={params}
+                  usdcPerEth={ethPrice.usdcPerEth}
+                  reserves={reserves}
+                />
+              ) : (
+                <div className="flex justify-between">
+                  <span>Estimated USDC borrow:</span>
+                  <span className="font-mono">
+                    {ethers.utils.formatUnits(
+                      estimateUsdcBorrow(params.ethAmount, Number(ltv), ethPrice),
+                      6
+                    )}{' '}
+                    USDC
+                  </span>
+                </div>
+              )}
+              {increasePreview && (
+                <div className="mt-2 pt-2 border-t border-gray-200">
+                  <div className="flex justify-between font-medium">
+                    <span>Health factor:</span>
+                    <span className="font-mono">
+                      <span
+                        className={
+                          HEALTH_STYLES[getHealthLevel(increasePreview.healthFactorBefore)]
+                        }
+                      >
+                        {formatHealthFactor(increasePreview.healthFactorBefore)}
+                      </span>
+                      {' → '}
+                      <span
+                        className={HEALTH_STYLES[getHealthLevel(increasePreview.healthFactorAfter)]}
+                      >
+                        {formatHealthFactor(increasePreview.healthFactorAfter)}
+                      </span>
+                    </span>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <span>Collateral / debt after:</span>
+                    <span className="font-mono text-right">
+                      {ethers.utils.formatEther(increasePreview.ethSuppliedAfter)} ETH /{' '}
+                      {ethers.utils.formatUnits(increasePreview.usdcBorrowedAfter, 6)} USDC
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Position LTV after:</span>
+                    <span className="font-mono">{increasePreview.ltvAfter.toFixed(1)}%</span>
+                  </div>
+                </div>
+              )}
+              {ethPrice.isStale && (
+                <p className="mt-2 text-yellow-700">
+                  The price feed has not updated recently. The amount borrowed on-chain may differ.
+                </p>
+              )}
+            </div>
+          )}
+          {validationErrors.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-red-600">
+              {validationErrors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
         <div className="bg-white p-4 rounded-md border border-gray-200 mb-4">
-          <p className="text-black mb-2">
-            This single button will perform all required setup steps:
-          </p>
-          <ol className="list-decimal pl-5 text-black space-y-1 mb-4">
-            <li>Convert ETH to WETH</li>
-            <li>Approve WETH for LeveragedLPManager</li>
-            <li>Approve USDC for LeveragedLPManager</li>
-          </ol>
+          <StrategyChecklist steps={steps} isRefreshing={isRefreshingSteps} />
         </div>
 
+        {pendingBatch && (
+          <BatchReview
+            batch={pendingBatch}
+            isProcessing={isProcessing}
+            onConfirm={handleExecuteBatch}
+            onCancel={() => {
+              setPendingBatch(null);
+              setSuccess(null);
+            }}
+          />
+        )}
+
         <button
           onClick={handleCompleteApproval}
-          disabled={isProcessing || strategyStatus.isApproved}
-          className={`w-full px-4 py-3 rounded-md ${
-            strategyStatus.isApproved
-              ? 'bg-green-100 text-green-800'
-              : 'bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300'
-          }`}
+          disabled={isProcessing || pendingBatch !== null || !limits || validationErrors.length > 0}
+          className="w-full px-4 py-3 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300"
         >
-          {strategyStatus.isApproved
-            ? 'All Approvals Complete ✓'
-            : isProcessing
-              ? 'Processing...'
-              : 'Complete All Approvals'}
+          {isProcessing
+            ? 'Processing...'
+            : isIncrease
+              ? 'Review Add to Position'
+              : 'Review Strategy Transaction'}
         </button>
       </div>
 
-      {strategyStatus.isStarted && strategyStatus.positionId && (
+      {isIncrease && (
         <div className="bg-white p-6 rounded-lg shadow">
-          <h2 className="text-lg font-semibold mb-4 text-black">3. Strategy Active</h2>
+          <h2 className="text-lg font-semibold mb-4 text-black">2. Strategy Active</h2>
           <div className="bg-white p-4 rounded-md border border-gray-200 mb-4">
-            <p className="text-black font-medium mb-2">
-              Your strategy is now active with position ID: {strategyStatus.positionId}
-            </p>
+            <p className="text-black font-medium mb-2">This Safe has an active strategy.</p>
             <p className="text-black">
-              You can view your position details and performance on the Dashboard page.
+              The form above adds collateral, debt and liquidity to it. The LTV applies to the added
+              ETH only. You can view your position details and performance on the Dashboard page.
             </p>
           </div>
         </div>
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { isAddress } from 'viem';
+import WalletProvider from '../contexts/WalletContext';
+import Dashboard from './Dashboard';
+import { CHAIN_PROFILES, DEFAULT_CHAIN_ID, getChainProfile } from '../constants/chains';
+import { shortenAddress } from '../utils/address';
+
+/**
+ * Read-only Dashboard of any Safe, for looking at a strategy without connecting a signer
+ * The chain is taken from the ?chain= query parameter and defaults to Base
+ */
+const Watch: React.FC = () => {
+  const { safe = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const chainId = Number(searchParams.get('chain') ?? DEFAULT_CHAIN_ID);
+  const chain = getChainProfile(chainId)?.chain;
+
+  const [addressInput, setAddressInput] = useState(safe);
+  const [chainInput, setChainInput] = useState(chain ? chainId : DEFAULT_CHAIN_ID);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate(`/watch/${addressInput.trim()}?chain=${chainInput}`);
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow mb-6">
+      <h2 className="text-lg font-semibold mb-4">Watch a Safe</h2>
+      <div className="flex flex-wrap gap-2">
+        <input
+          value={addressInput}
+          onChange={e => setAddressInput(e.target.value)}
+          placeholder="Safe address (0x...)"
+          aria-label="Safe address"
+          className="flex-1 min-w-64 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+        />
+        <select
+          value={chainInput}
+          onChange={e => setChainInput(Number(e.target.value))}
+          aria-label="Network"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {CHAIN_PROFILES.map(({ chain: profileChain }) => (
+            <option key={profileChain.id} value={profileChain.id}>
+              {profileChain.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!isAddress(addressInput.trim())}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          Watch
+        </button>
+      </div>
+    </form>
+  );
+
+  if (!safe) {
+    return <div className="max-w-3xl mx-auto">{form}</div>;
+  }
+
+  if (!isAddress(safe) || !chain) {
+    return (
+      <div className="max-w-3xl mx-auto">
+        <div className="bg-red-50 p-4 rounded-md border border-red-200 mb-6">
+          <p className="text-red-700">
+            {!isAddress(safe)
+              ? `${safe} is not a valid address.`
+              : `Chain ID ${chainId} is not supported.`}
+          </p>
+        </div>
+        {form}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="max-w-3xl mx-auto">
+        <div className="bg-blue-50 p-4 rounded-md border border-blue-200 mb-6">
+          <p className="text-blue-800">
+            Read-only view of Safe{' '}
+            <span className="font-mono" title={safe}>
+              {shortenAddress(safe)}
+            </span>{' '}
+            on {chain.name}. Actions that need a signature are disabled.
+          </p>
+        </div>
+      </div>
+      {/* Keyed so the reads start over for another Safe or chain */}
+      <WalletProvider key={`${chainId}:${safe}`} watchSafe={{ address: safe, chainId }}>
+        <Dashboard />
+      </WalletProvider>
+    </>
+  );
+};
+
+export default Watch;
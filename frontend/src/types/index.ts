@@ -1,6 +1,6 @@
-import { Address } from 'viem';
+import type { Address } from 'viem';
 
-// User position type matching the contract struct
+// User position from LeveragedLPManager.getUserPosition with the Safe's Aave collateral and debt
 export interface UserPosition {
   safe: Address;
   lpTokenId: bigint;
@@ -18,6 +18,65 @@ export interface FeeCollectionEvent {
   timestamp: Date;
 }
 
+// Where an indexed event was emitted
+export interface EventLocation {
+  id: string; // `${txHash}:${logIndex}`, unique per log
+  txHash: string;
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+// Strategy lifecycle events emitted for a Safe, as shown in the Dashboard timeline
+export type StrategyEvent = EventLocation &
+  (
+    | {
+        kind: 'StrategyStarted';
+        lpTokenId: bigint;
+        ethSupplied: bigint;
+        usdcBorrowed: bigint;
+        timestamp: Date;
+      }
+    | {
+        kind: 'FeesProcessed';
+        lpTokenId: bigint;
+        usdcRepaid: bigint;
+        ethAdded: bigint;
+        timestamp: Date;
+      }
+    | {
+        kind: 'StrategyIncreased';
+        lpTokenId: bigint;
+        ethSupplied: bigint;
+        usdcBorrowed: bigint;
+        liquidityAdded: bigint;
+        timestamp: Date;
+      }
+    | {
+        kind: 'StrategyRebalanced';
+        lpTokenId: bigint;
+        targetLtv: bigint;
+        usdcBorrowed: bigint;
+        usdcRepaid: bigint;
+        timestamp: Date;
+      }
+    | {
+        kind: 'StrategyReduced';
+        lpTokenId: bigint;
+        percentage: bigint;
+        ethReturned: bigint;
+        usdcRepaid: bigint;
+        timestamp: Date;
+      }
+    | {
+        kind: 'StrategyExited';
+        lpTokenId: bigint;
+        ethReturned: bigint;
+        usdcRepaid: bigint;
+        timestamp: Date;
+      }
+    | ({ kind: 'FeesCollected' } & FeeCollectionEvent)
+  );
+
 // Strategy status for UI display
 export interface StrategyStatus {
   isActive: boolean;
@@ -33,10 +92,59 @@ export interface StrategyStatus {
   };
 }
 
+// Fees the LP position has accrued and not yet collected, as last settled by the position manager
+export interface ClaimableFees {
+  usdc: bigint;
+  eth: bigint;
+}
+
+// Amounts reported by the StrategyExited event
+export interface StrategyExitResult {
+  txHash: string;
+  lpTokenId: bigint;
+  ethReturned: bigint;
+  usdcRepaid: bigint;
+}
+
+// Outcome of sending a Safe transaction: executed directly when the Safe's threshold is 1,
+// otherwise proposed to the Safe Transaction Service for the co-owners to confirm
+export type SafeExecutionResult =
+  | { status: 'executed'; txHash: string }
+  | { status: 'proposed'; safeTxHash: string; confirmations: number; threshold: number };
+
+// Proposed Safe transaction waiting for owner confirmations
+export interface PendingSafeTransaction {
+  safeTxHash: string;
+  nonce: number;
+  description: string; // Origin given when proposing, e.g. 'StartStrategy'
+  to: string;
+  confirmedBy: string[];
+  threshold: number;
+  submissionDate: Date;
+  canConfirm: boolean; // The connected account is an owner that has not confirmed yet
+  canExecute: boolean; // Enough confirmations, and it is next in the Safe's nonce order
+}
+
 // Strategy parameters for starting a new strategy
 export interface StrategyParams {
   ethAmount: bigint;
-  ltv: number; // Loan-to-Value ratio (50-75% as recommended)
+  ltv: number; // Loan-to-Value ratio in percent, capped by LeveragedLPManager.MAX_LTV
+  slippageBps: number; // Slippage tolerance in basis points (e.g., 50 = 0.5%)
+}
+
+// Kind of permission a Safe granted to one of the strategy contracts: an ERC20 allowance,
+// Aave credit delegation, an LP NFT operator approval, or the approval of one LP NFT
+export type ApprovalKind = 'allowance' | 'creditDelegation' | 'nftOperator' | 'nftToken';
+
+// Permission a Safe has granted and could revoke
+export interface GrantedApproval {
+  kind: ApprovalKind;
+  token: Address; // ERC20, variable debt token or Uniswap position manager
+  tokenName: string;
+  spender: Address;
+  spenderName: string;
+  amount?: bigint; // Allowance or delegated credit, in token units
+  tokenId?: bigint; // Approved LP NFT
 }
 
 // Common notification type for UI feedback
@@ -48,3 +156,28 @@ export interface Notification {
   timestamp: Date;
   duration?: number; // In milliseconds, how long to display
 }
+
+// Lifecycle of a transaction sent from the app: signing in the wallet, proposed to the Safe's
+// co-owners, broadcast and pending, then mined or reverted; failed when it never got broadcast
+export type TransactionStatus =
+  | 'signing'
+  | 'proposed'
+  | 'pending'
+  | 'mined'
+  | 'reverted'
+  | 'failed';
+
+// Transaction recorded in the notification center's history
+export interface TrackedTransaction {
+  id: string;
+  label: string; // Step label, e.g. 'StartStrategy'
+  chainId: number;
+  safeAddress: string;
+  status: TransactionStatus;
+  safeTxHash?: string;
+  txHash?: string;
+  gasUsed?: string; // Decimal string, so the history can be stored as JSON
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeAnalytics } from './analytics.ts';
+import type { PositionSnapshot } from './analytics.ts';
+import type { StrategyEvent } from '../types';
+
+const ETHER = 10n ** 18n;
+const USDC = 10n ** 6n;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+// 1 ETH collateral at $2000 with 600 USDC debt, half of it swapped into the LP's 0.15 ETH
+const opened: PositionSnapshot = {
+  lpTokenId: 7n,
+  timestamp: START,
+  ethPrice: 2000,
+  lpEth: 0.15,
+  lpUsdc: 300,
+  collateralEth: 1,
+  debtUsdc: 600,
+  borrowApr: 0.05,
+};
+
+/**
+ * Event of the position's LP token, emitted the given number of days after the start
+ */
+function eventAt(days: number, fields: Record<string, unknown>): StrategyEvent {
+  const logIndex = Math.round(days * 100);
+  return {
+    id: `0xabc:${logIndex}`,
+    txHash: '0xabc',
+    blockNumber: BigInt(logIndex),
+    logIndex,
+    lpTokenId: 7n,
+    timestamp: new Date(START + days * DAY_MS),
+    ...fields,
+  } as StrategyEvent;
+}
+
+const started = eventAt(0, {
+  kind: 'StrategyStarted',
+  ethSupplied: ETHER,
+  usdcBorrowed: 600n * USDC,
+});
+
+/**
+ * Asserts two amounts are equal up to floating point error
+ */
+function assertClose(actual: number | null, expected: number) {
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+}
+
+describe('computeAnalytics', () => {
+  it('returns no points without snapshots', () => {
+    assert.deepEqual(computeAnalytics([], [started]), []);
+  });
+
+  it('reports no fee APR when no time has elapsed since the start', () => {
+    const [point] = computeAnalytics([opened], [started]);
+
+    assertClose(point.netValueUsd, 2000);
+    assertClose(point.hodlValueUsd, 2000);
+    assertClose(point.pnlUsd, 0);
+    assertClose(point.impermanentLoss, 0);
+    assert.equal(point.feesUsd, 0);
+    assert.equal(point.feeApr, 0);
+    assertClose(point.accruedInterestUsdc, 0);
+  });
+
+  it('annualizes collected fees and separates interest from fee repayments', () => {
+    const events = [
+      started,
+      eventAt(1, {
+        kind: 'FeesCollected',
+        usdcAmount: 20n * USDC,
+        ethAmount: ETHER / 100n,
+        tradeCount: 3n,
+      }),
+      eventAt(1, { kind: 'FeesProcessed', usdcRepaid: 20n * USDC, ethAdded: ETHER / 100n }),
+    ];
+    // A tenth of a year later, with 1 USDC of interest on top of the repaid debt
+    const later = {
+      ...opened,
+      timestamp: START + 36.5 * DAY_MS,
+      collateralEth: 1.01,
+      debtUsdc: 581,
+    };
+
+    const [, point] = computeAnalytics([opened, later], events);
+
+    assertClose(point.feesUsd, 40);
+    assertClose(point.feeApr, 40 / 600 / 0.1);
+    assertClose(point.netValueUsd, 2039);
+    assertClose(point.pnlUsd, 39);
+    assertClose(point.accruedInterestUsdc, 1);
+  });
+
+  it('counts debt repaid by a rebalance', () => {
+    const events = [
+      started,
+      eventAt(1, {
+        kind: 'StrategyRebalanced',
+        targetLtv: 25n,
+        usdcBorrowed: 0n,
+        usdcRepaid: 100n * USDC,
+      }),
+    ];
+    const later = { ...opened, timestamp: START + 2 * DAY_MS, lpUsdc: 200, debtUsdc: 502 };
+
+    const [, point] = computeAnalytics([opened, later], events);
+
+    assertClose(point.accruedInterestUsdc, 2);
+    assertClose(point.netValueUsd, 1998);
+  });
+
+  it('keeps the ETH a partial reduction returned in the net value', () => {
+    // Half of the LP pulled: its 150 USDC repays debt, a quarter of the collateral follows it
+    const events = [
+      started,
+      eventAt(1, {
+        kind: 'StrategyReduced',
+        percentage: 50n,
+        ethReturned: 325n * 10n ** 15n,
+        usdcRepaid: 150n * USDC,
+      }),
+    ];
+    const reduced: PositionSnapshot = {
+      ...opened,
+      timestamp: START + 2 * DAY_MS,
+      lpEth: 0.075,
+      lpUsdc: 150,
+      collateralEth: 0.75,
+      debtUsdc: 450,
+    };
+
+    const [, point] = computeAnalytics([opened, reduced], events);
+
+    assertClose(point.netValueUsd, 2000);
+    assertClose(point.pnlUsd, 0);
+    // The LP is compared with the half it kept
+    assertClose(point.impermanentLoss, 0);
+    assertClose(point.accruedInterestUsdc, 0);
+  });
+
+  it('estimates the deposit from the collateral when the start is not indexed', () => {
+    const events = [
+      eventAt(1, { kind: 'FeesProcessed', usdcRepaid: 0n, ethAdded: ETHER / 10n }),
+      // Another position of the same Safe
+      { ...started, lpTokenId: 8n },
+    ];
+    const later = { ...opened, timestamp: START + 2 * DAY_MS, collateralEth: 1.1 };
+
+    const [, point] = computeAnalytics([opened, later], events);
+
+    assertClose(point.hodlValueUsd, 2000);
+    assert.equal(point.accruedInterestUsdc, null);
+  });
+});
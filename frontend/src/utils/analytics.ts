@@ -0,0 +1,210 @@
+import type { StrategyEvent, UserPosition } from '../types';
+
+// Minimum time between two stored position snapshots, the latest read is always shown
+export const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+const WETH_DECIMALS = 18;
+const USDC_DECIMALS = 6;
+const RAY = 1e27;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Uniswap LP position as returned by PositionManager.positions
+ */
+export interface LpPosition {
+  token0: string;
+  token1: string;
+  tickLower: number;
+  tickUpper: number;
+  tickCurrent: number;
+  liquidity: bigint;
+}
+
+/**
+ * Point-in-time valuation inputs of a Safe's strategy
+ * Amounts are in whole tokens, prices in USDC per ETH taken from the pool
+ */
+export interface PositionSnapshot {
+  lpTokenId: bigint;
+  timestamp: number; // Milliseconds
+  ethPrice: number;
+  lpEth: number;
+  lpUsdc: number;
+  collateralEth: number;
+  debtUsdc: number;
+  borrowApr: number; // Fraction, from the USDC reserve's currentVariableBorrowRate
+}
+
+/**
+ * Strategy performance at one snapshot
+ */
+export interface AnalyticsPoint {
+  timestamp: number;
+  netValueUsd: number; // Collateral plus LP value minus debt
+  hodlValueUsd: number; // Value of the deposited ETH had it just been held
+  pnlUsd: number; // netValueUsd - hodlValueUsd
+  impermanentLoss: number; // LP value versus holding the LP's first observed tokens, as a fraction
+  feesUsd: number; // FeesCollected amounts valued at the snapshot price
+  feeApr: number;
+  borrowApr: number;
+  accruedInterestUsdc: number | null; // null when the StrategyStarted event is not indexed
+}
+
+/**
+ * Computes the token amounts of a concentrated liquidity position at the pool's current tick
+ * @param lp Position details
+ * @param weth Address of WETH, to tell the ETH side of the pair
+ * @returns ETH and USDC amounts and the pool price in USDC per ETH
+ */
+export function getLpAmounts(
+  lp: LpPosition,
+  weth: string
+): { eth: number; usdc: number; ethPrice: number } {
+  const sqrtPrice = (tick: number) => Math.pow(1.0001, tick / 2);
+  const liquidity = Number(lp.liquidity);
+  const sqrtLower = sqrtPrice(lp.tickLower);
+  const sqrtUpper = sqrtPrice(lp.tickUpper);
+  const sqrtCurrent = Math.min(Math.max(sqrtPrice(lp.tickCurrent), sqrtLower), sqrtUpper);
+
+  // Raw token amounts, below the range all liquidity is token0 and above it all token1
+  const amount0 = (liquidity * (sqrtUpper - sqrtCurrent)) / (sqrtCurrent * sqrtUpper);
+  const amount1 = liquidity * (sqrtCurrent - sqrtLower);
+
+  // tick price is token1 per token0 in raw units
+  const rawPrice = Math.pow(1.0001, lp.tickCurrent);
+  const decimalsShift = 10 ** (WETH_DECIMALS - USDC_DECIMALS);
+  const token0IsWeth = lp.token0.toLowerCase() === weth.toLowerCase();
+
+  return token0IsWeth
+    ? {
+        eth: amount0 / 10 ** WETH_DECIMALS,
+        usdc: amount1 / 10 ** USDC_DECIMALS,
+        ethPrice: rawPrice * decimalsShift,
+      }
+    : {
+        eth: amount1 / 10 ** WETH_DECIMALS,
+        usdc: amount0 / 10 ** USDC_DECIMALS,
+        ethPrice: decimalsShift / rawPrice,
+      };
+}
+
+/**
+ * Builds a snapshot from the current on-chain reads
+ * @param position The Safe's position with its Aave collateral and debt
+ * @param lp The position's Uniswap LP details
+ * @param weth Address of WETH
+ * @param variableBorrowRate USDC reserve currentVariableBorrowRate, in ray
+ * @returns The snapshot, timestamped now
+ */
+export function createSnapshot(
+  position: UserPosition,
+  lp: LpPosition,
+  weth: string,
+  variableBorrowRate: bigint
+): PositionSnapshot {
+  const { eth, usdc, ethPrice } = getLpAmounts(lp, weth);
+
+  return {
+    lpTokenId: position.lpTokenId,
+    timestamp: Date.now(),
+    ethPrice,
+    lpEth: eth,
+    lpUsdc: usdc,
+    collateralEth: Number(position.ethSupplied) / 10 ** WETH_DECIMALS,
+    debtUsdc: Number(position.usdcBorrowed) / 10 ** USDC_DECIMALS,
+    borrowApr: Number(variableBorrowRate) / RAY,
+  };
+}
+
+/**
+ * Computes P&L, impermanent loss and APRs for each snapshot of a position
+ * The deposit comes from StrategyStarted and StrategyIncreased, or when those are not indexed,
+ * from the collateral minus the ETH that fee processing added to it. ETH a reduction returned
+ * to the Safe still counts towards the net value, and the LP is compared with the share it kept
+ * plus the value of liquidity added later
+ * @param snapshots Snapshots of one position, oldest first
+ * @param events Indexed events of the Safe
+ * @returns One analytics point per snapshot
+ */
+export function computeAnalytics(
+  snapshots: PositionSnapshot[],
+  events: StrategyEvent[]
+): AnalyticsPoint[] {
+  if (snapshots.length === 0) return [];
+
+  const [first] = snapshots;
+  const positionEvents = events.filter(event => event.lpTokenId === first.lpTokenId);
+  const until = (timestamp: number) =>
+    positionEvents.filter(event => new Date(event.timestamp).getTime() <= timestamp);
+  const started = positionEvents.find(event => event.kind === 'StrategyStarted');
+  const startTime = started ? new Date(started.timestamp).getTime() : first.timestamp;
+
+  return snapshots.map(snapshot => {
+    const { timestamp, ethPrice } = snapshot;
+    let ethAdded = 0;
+    let usdcRepaid = 0;
+    let feesUsd = 0;
+    let ethWithdrawn = 0;
+    let lpShare = 1;
+    let ethIncreased = 0;
+    let usdcIncreased = 0;
+    let lpAddedUsd = 0;
+    for (const event of until(timestamp)) {
+      if (event.kind === 'FeesProcessed') {
+        ethAdded += Number(event.ethAdded) / 10 ** WETH_DECIMALS;
+        usdcRepaid += Number(event.usdcRepaid) / 10 ** USDC_DECIMALS;
+      } else if (event.kind === 'StrategyIncreased') {
+        ethIncreased += Number(event.ethSupplied) / 10 ** WETH_DECIMALS;
+        usdcIncreased += Number(event.usdcBorrowed) / 10 ** USDC_DECIMALS;
+        // The borrowed USDC goes into the LP, half of it swapped to ETH
+        if (new Date(event.timestamp).getTime() > first.timestamp) {
+          lpAddedUsd += Number(event.usdcBorrowed) / 10 ** USDC_DECIMALS;
+        }
+      } else if (event.kind === 'StrategyRebalanced') {
+        usdcIncreased += Number(event.usdcBorrowed) / 10 ** USDC_DECIMALS;
+        usdcRepaid += Number(event.usdcRepaid) / 10 ** USDC_DECIMALS;
+        if (new Date(event.timestamp).getTime() > first.timestamp) {
+          lpAddedUsd += Number(event.usdcBorrowed) / 10 ** USDC_DECIMALS;
+        }
+      } else if (event.kind === 'StrategyReduced') {
+        ethWithdrawn += Number(event.ethReturned) / 10 ** WETH_DECIMALS;
+        usdcRepaid += Number(event.usdcRepaid) / 10 ** USDC_DECIMALS;
+        // The first snapshot already reflects earlier reductions
+        if (new Date(event.timestamp).getTime() > first.timestamp) {
+          lpShare *= 1 - Number(event.percentage) / 100;
+        }
+      } else if (event.kind === 'FeesCollected') {
+        feesUsd +=
+          (Number(event.ethAmount) / 10 ** WETH_DECIMALS) * ethPrice +
+          Number(event.usdcAmount) / 10 ** USDC_DECIMALS;
+      }
+    }
+
+    const depositedEth = started
+      ? Number(started.ethSupplied) / 10 ** WETH_DECIMALS + ethIncreased
+      : snapshot.collateralEth - ethAdded;
+    const lpValueUsd = snapshot.lpEth * ethPrice + snapshot.lpUsdc;
+    const netValueUsd =
+      (snapshot.collateralEth + snapshot.lpEth + ethWithdrawn) * ethPrice +
+      snapshot.lpUsdc -
+      snapshot.debtUsdc;
+    const hodlValueUsd = depositedEth * ethPrice;
+    const lpHoldValueUsd = (first.lpEth * ethPrice + first.lpUsdc) * lpShare + lpAddedUsd;
+    const elapsedYears = (timestamp - startTime) / YEAR_MS;
+
+    return {
+      timestamp,
+      netValueUsd,
+      hodlValueUsd,
+      pnlUsd: netValueUsd - hodlValueUsd,
+      impermanentLoss: lpHoldValueUsd > 0 ? lpValueUsd / lpHoldValueUsd - 1 : 0,
+      feesUsd,
+      feeApr: lpValueUsd > 0 && elapsedYears > 0 ? feesUsd / lpValueUsd / elapsedYears : 0,
+      borrowApr: snapshot.borrowApr,
+      accruedInterestUsdc: started
+        ? snapshot.debtUsdc -
+          (Number(started.usdcBorrowed) / 10 ** USDC_DECIMALS + usdcIncreased - usdcRepaid)
+        : null,
+    };
+  });
+}
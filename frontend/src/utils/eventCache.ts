@@ -0,0 +1,165 @@
+import type { StrategyEvent } from '../types';
+import type { PositionSnapshot } from './analytics';
+
+const DB_NAME = 'leveraged-lp-events';
+const DB_VERSION = 3;
+const EVENTS_STORE = 'events';
+const CURSORS_STORE = 'cursors';
+const SNAPSHOTS_STORE = 'snapshots';
+
+// Events are stored with the feed they belong to, one feed per (chainId, safe).
+// The feed is part of the key, so the same log id on two chains gives two entries
+interface CachedEvent {
+  feed: string;
+  event: StrategyEvent;
+}
+
+interface CachedSnapshot {
+  feed: string;
+  snapshot: PositionSnapshot;
+}
+
+/**
+ * Key identifying the event feed of a Safe on a chain
+ */
+export function getFeedKey(chainId: number, safe: string): string {
+  return `${chainId}:${safe.toLowerCase()}`;
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens the cache, creating or upgrading the stores on first use
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = ({ oldVersion }) => {
+    const db = request.result;
+    if (oldVersion < 1) {
+      db.createObjectStore(CURSORS_STORE);
+    }
+    if (oldVersion < 2) {
+      const snapshots = db.createObjectStore(SNAPSHOTS_STORE, {
+        keyPath: ['feed', 'snapshot.timestamp'],
+      });
+      snapshots.createIndex('feed', 'feed');
+    }
+    if (oldVersion < 3) {
+      // Events used to be keyed by txHash-logIndex alone, so a fork replaying another chain's
+      // history overwrote that chain's entries. Rebuild the store and index every feed again
+      if (oldVersion >= 1) {
+        db.deleteObjectStore(EVENTS_STORE);
+        request.transaction?.objectStore(CURSORS_STORE).clear();
+      }
+      const events = db.createObjectStore(EVENTS_STORE, { keyPath: ['feed', 'event.id'] });
+      events.createIndex('feed', 'feed');
+    }
+  };
+  return promisify(request);
+}
+
+/**
+ * Reads all cached events of a feed, never those of the same Safe on another chain
+ * @param feed Feed key from getFeedKey
+ * @returns Cached events, unordered
+ */
+export async function getCachedEvents(feed: string): Promise<StrategyEvent[]> {
+  const db = await openDatabase();
+  try {
+    const index = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index('feed');
+    const cached = await promisify<CachedEvent[]>(index.getAll(feed));
+    return cached.map(({ event }) => event);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Reads the last block the feed has been indexed up to
+ * @param feed Feed key from getFeedKey
+ * @returns The block number, or null when the feed was never indexed
+ */
+export async function getCursor(feed: string): Promise<bigint | null> {
+  const db = await openDatabase();
+  try {
+    const cursor = await promisify<bigint | undefined>(
+      db.transaction(CURSORS_STORE).objectStore(CURSORS_STORE).get(feed)
+    );
+    return cursor ?? null;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Stores new events and advances the cursor in one transaction,
+ * so a failed write never skips a block range
+ * @param feed Feed key from getFeedKey
+ * @param events Events found in the indexed range
+ * @param toBlock Last block of the indexed range
+ */
+export async function saveEvents(
+  feed: string,
+  events: StrategyEvent[],
+  toBlock: bigint
+): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([EVENTS_STORE, CURSORS_STORE], 'readwrite');
+    const store = transaction.objectStore(EVENTS_STORE);
+    for (const event of events) {
+      store.put({ feed, event } satisfies CachedEvent);
+    }
+    transaction.objectStore(CURSORS_STORE).put(toBlock, feed);
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Reads the stored position snapshots of a feed
+ * @param feed Feed key from getFeedKey
+ * @returns Snapshots, oldest first
+ */
+export async function getSnapshots(feed: string): Promise<PositionSnapshot[]> {
+  const db = await openDatabase();
+  try {
+    const index = db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE).index('feed');
+    const cached = await promisify<CachedSnapshot[]>(index.getAll(feed));
+    return cached.map(({ snapshot }) => snapshot);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Stores a position snapshot
+ * @param feed Feed key from getFeedKey
+ * @param snapshot Snapshot to add to the feed's time series
+ */
+export async function saveSnapshot(feed: string, snapshot: PositionSnapshot): Promise<void> {
+  const db = await openDatabase();
+  try {
+    await promisify(
+      db
+        .transaction(SNAPSHOTS_STORE, 'readwrite')
+        .objectStore(SNAPSHOTS_STORE)
+        .put({ feed, snapshot } satisfies CachedSnapshot)
+    );
+  } finally {
+    db.close();
+  }
+}
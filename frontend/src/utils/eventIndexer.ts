@@ -0,0 +1,202 @@
+import { decodeEventLog, encodeEventTopics, hexToBigInt, numberToHex, pad } from 'viem';
+import type { Address, Hex, PublicClient } from 'viem';
+import { ABIs } from '../abis';
+import type { ContractAddresses } from '../constants/contractAddresses';
+import type { StrategyEvent } from '../types';
+import { getCachedEvents, getCursor, getFeedKey, saveEvents } from './eventCache';
+
+// How far back the first sync of a Safe looks (about 12 days of 2 second Base blocks)
+export const BACKFILL_BLOCKS = 500_000n;
+
+// Block range per eth_getLogs request, kept below common RPC limits
+const LOG_CHUNK_SIZE = 10_000n;
+
+const MANAGER_EVENTS = [
+  'StrategyStarted',
+  'FeesProcessed',
+  'StrategyIncreased',
+  'StrategyRebalanced',
+  'StrategyReduced',
+  'StrategyExited',
+] as const;
+
+type RpcLog = {
+  data: Hex;
+  topics: Hex[];
+  blockNumber: Hex | null;
+  transactionHash: Hex | null;
+  logIndex: Hex | null;
+};
+
+/**
+ * Indexes the LeveragedLPManager and FeeCollectHook events of one Safe into IndexedDB
+ * Manager events are filtered by the indexed `safe`, hook events by the Safe's indexed `lpTokenId`s
+ * @param publicClient - viem client used for log and block reads
+ * @param addresses - Deployment addresses for the chain
+ * @param chainId - Chain the addresses belong to
+ * @param safe - Safe whose events are indexed
+ * @returns The indexer
+ */
+export function createEventIndexer(
+  publicClient: PublicClient,
+  addresses: ContractAddresses,
+  chainId: number,
+  safe: Address
+) {
+  const feed = getFeedKey(chainId, safe);
+  const safeTopic = pad(safe as Hex);
+  const managerTopics = MANAGER_EVENTS.map(
+    eventName => encodeEventTopics({ abi: ABIs.LeveragedLPManager, eventName })[0]
+  );
+  const [feesCollectedTopic] = encodeEventTopics({
+    abi: ABIs.FeeCollectHook,
+    eventName: 'FeesCollected',
+  });
+
+  /**
+   * Fetch logs in chunks so large backfills stay within the RPC's range limit
+   */
+  const getLogs = async (
+    address: Address,
+    topics: (Hex | Hex[] | null)[],
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<RpcLog[]> => {
+    const logs: RpcLog[] = [];
+    for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) {
+      const end = start + LOG_CHUNK_SIZE - 1n < toBlock ? start + LOG_CHUNK_SIZE - 1n : toBlock;
+      const chunk = await publicClient.request({
+        method: 'eth_getLogs',
+        params: [{ address, topics, fromBlock: numberToHex(start), toBlock: numberToHex(end) }],
+      });
+      logs.push(...(chunk as RpcLog[]));
+    }
+    return logs;
+  };
+
+  /**
+   * Decode a raw log into a timeline event
+   */
+  const toStrategyEvent = (log: RpcLog, timestamp: Date): StrategyEvent => {
+    const location = {
+      id: `${log.transactionHash}:${hexToBigInt(log.logIndex ?? '0x0')}`,
+      txHash: log.transactionHash ?? '',
+      blockNumber: hexToBigInt(log.blockNumber ?? '0x0'),
+      logIndex: Number(hexToBigInt(log.logIndex ?? '0x0')),
+    };
+    const topics = log.topics as [Hex, ...Hex[]];
+
+    if (topics[0] === feesCollectedTopic) {
+      const { args } = decodeEventLog({
+        abi: ABIs.FeeCollectHook,
+        eventName: 'FeesCollected',
+        data: log.data,
+        topics,
+      });
+      return { ...location, kind: 'FeesCollected', ...args, timestamp };
+    }
+
+    const decoded = decodeEventLog({ abi: ABIs.LeveragedLPManager, data: log.data, topics });
+    switch (decoded.eventName) {
+      case 'StrategyStarted':
+        return { ...location, kind: decoded.eventName, ...decoded.args, timestamp };
+      case 'FeesProcessed':
+        return { ...location, kind: decoded.eventName, ...decoded.args, timestamp };
+      case 'StrategyIncreased':
+        return { ...location, kind: decoded.eventName, ...decoded.args, timestamp };
+      case 'StrategyRebalanced':
+        return { ...location, kind: decoded.eventName, ...decoded.args, timestamp };
+      case 'StrategyReduced':
+        return { ...location, kind: decoded.eventName, ...decoded.args, timestamp };
+      case 'StrategyExited':
+        return { ...location, kind: decoded.eventName, ...decoded.args, timestamp };
+      default:
+        throw new Error(`Unexpected LeveragedLPManager event ${decoded.eventName}`);
+    }
+  };
+
+  /**
+   * Index all blocks since the last sync and return the Safe's full history
+   * The first sync backfills BACKFILL_BLOCKS, later syncs only follow new blocks
+   * @param knownLpTokenIds - Position token IDs that may have hook events before any manager event
+   * @returns All events of the Safe, newest first
+   */
+  const sync = async (knownLpTokenIds: bigint[] = []): Promise<StrategyEvent[]> => {
+    const [cached, cursor, latestBlock] = await Promise.all([
+      getCachedEvents(feed),
+      getCursor(feed),
+      publicClient.getBlockNumber(),
+    ]);
+
+    const fromBlock =
+      cursor !== null
+        ? cursor + 1n
+        : latestBlock > BACKFILL_BLOCKS
+          ? latestBlock - BACKFILL_BLOCKS
+          : 0n;
+    if (fromBlock > latestBlock) return sortEvents(cached);
+
+    // Manager events first, so hook events of a position started in this range are found too
+    const managerLogs = await getLogs(
+      addresses.leveragedLPManager,
+      [managerTopics, safeTopic],
+      fromBlock,
+      latestBlock
+    );
+
+    const lpTokenIds = new Set<bigint>(knownLpTokenIds);
+    for (const event of cached) lpTokenIds.add(event.lpTokenId);
+    for (const log of managerLogs) {
+      if (log.topics[2]) lpTokenIds.add(hexToBigInt(log.topics[2]));
+    }
+
+    const hookLogs =
+      lpTokenIds.size > 0
+        ? await getLogs(
+            addresses.feeCollectHook,
+            [feesCollectedTopic, [...lpTokenIds].map(id => pad(numberToHex(id)))],
+            fromBlock,
+            latestBlock
+          )
+        : [];
+
+    // One block read per block with events, for the timestamps
+    const logs = [...managerLogs, ...hookLogs];
+    const blockNumbers = [...new Set(logs.map(log => log.blockNumber ?? '0x0'))];
+    const blocks = await Promise.all(
+      blockNumbers.map(blockNumber =>
+        publicClient.getBlock({ blockNumber: hexToBigInt(blockNumber) })
+      )
+    );
+    const timestamps = new Map(
+      blockNumbers.map((blockNumber, i) => [
+        blockNumber,
+        new Date(Number(blocks[i].timestamp) * 1000),
+      ])
+    );
+
+    const events = logs.map(log =>
+      toStrategyEvent(log, timestamps.get(log.blockNumber ?? '0x0') ?? new Date(0))
+    );
+    await saveEvents(feed, events, latestBlock);
+
+    return sortEvents([...cached, ...events]);
+  };
+
+  return { sync };
+}
+
+/**
+ * Orders events newest first
+ */
+function sortEvents(events: StrategyEvent[]): StrategyEvent[] {
+  return [...events].sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? b.logIndex - a.logIndex
+      : a.blockNumber > b.blockNumber
+        ? -1
+        : 1
+  );
+}
+
+export type EventIndexer = ReturnType<typeof createEventIndexer>;
@@ -0,0 +1,94 @@
+import type { EthPrice } from './priceService';
+
+// Health factors at or below these values are shown as warning / danger on the Dashboard
+export const HEALTH_FACTOR_WARNING = 1.5;
+export const HEALTH_FACTOR_DANGER = 1.1;
+
+// How often the Dashboard refreshes the Safe's Aave account data
+export const HEALTH_POLL_INTERVAL_MS = 30_000;
+
+export type HealthLevel = 'safe' | 'warning' | 'danger';
+
+/**
+ * Raw result of AavePool.getUserAccountData
+ * Amounts are in the Aave base currency (USD with 8 decimals on Base)
+ */
+export interface AaveAccountData {
+  totalCollateralBase: bigint;
+  totalDebtBase: bigint;
+  availableBorrowsBase: bigint;
+  currentLiquidationThreshold: bigint; // In basis points
+  ltv: bigint; // In basis points
+  healthFactor: bigint; // 18 decimals
+}
+
+/**
+ * Health of a Safe's Aave position
+ */
+export interface AccountHealth {
+  healthFactor: number; // Infinity when the Safe has no debt
+  level: HealthLevel;
+  liquidationEthPrice: bigint | null; // USDC units (6 decimals), null when there is no debt
+  distanceToLiquidation: number | null; // ETH price drop, as a fraction, that triggers liquidation
+  collateralUsd: number;
+  debtUsd: number;
+  liquidationThresholdPct: number;
+}
+
+const AAVE_BASE_DECIMALS = 8;
+
+/**
+ * Classifies a health factor against the Dashboard thresholds
+ * @param healthFactor Aave health factor
+ * @returns The warning level
+ */
+export function getHealthLevel(healthFactor: number): HealthLevel {
+  if (healthFactor <= HEALTH_FACTOR_DANGER) return 'danger';
+  if (healthFactor <= HEALTH_FACTOR_WARNING) return 'warning';
+  return 'safe';
+}
+
+/**
+ * Computes the health factor and liquidation price from Aave account data
+ * The strategy only supplies WETH as collateral, so the health factor scales linearly
+ * with the ETH price and liquidation happens at currentPrice / healthFactor
+ * @param accountData Result of getUserAccountData for the Safe
+ * @param ethPrice Current ETH price
+ * @returns The position health
+ */
+export function computeAccountHealth(
+  accountData: AaveAccountData,
+  ethPrice: EthPrice
+): AccountHealth {
+  const { totalCollateralBase, totalDebtBase, currentLiquidationThreshold } = accountData;
+  const toUsd = (amount: bigint) => Number(amount) / 10 ** AAVE_BASE_DECIMALS;
+
+  const health: AccountHealth = {
+    healthFactor: Infinity,
+    level: 'safe',
+    liquidationEthPrice: null,
+    distanceToLiquidation: null,
+    collateralUsd: toUsd(totalCollateralBase),
+    debtUsd: toUsd(totalDebtBase),
+    liquidationThresholdPct: Number(currentLiquidationThreshold) / 100,
+  };
+
+  if (totalDebtBase === 0n) return health;
+
+  // healthFactor = collateral * liquidationThreshold / debt
+  const healthFactor =
+    (Number(totalCollateralBase) * Number(currentLiquidationThreshold)) /
+    10_000 /
+    Number(totalDebtBase);
+
+  health.healthFactor = healthFactor;
+  health.level = getHealthLevel(healthFactor);
+  if (healthFactor > 0) {
+    health.liquidationEthPrice =
+      (ethPrice.usdcPerEth * totalDebtBase * 10_000n) /
+      (totalCollateralBase * currentLiquidationThreshold);
+    health.distanceToLiquidation = Math.max(0, 1 - 1 / healthFactor);
+  }
+
+  return health;
+}
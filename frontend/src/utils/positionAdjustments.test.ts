@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  getHealthFactor,
+  previewIncrease,
+  previewRebalance,
+  previewReduction,
+} from './positionAdjustments.ts';
+import type { PositionBalances } from './positionAdjustments.ts';
+
+const ETHER = 10n ** 18n;
+const USDC = 10n ** 6n;
+
+// 1 ETH collateral at $2000 with 600 USDC debt, half of it swapped into the LP's 0.15 ETH
+const balances: PositionBalances = {
+  ethSupplied: ETHER,
+  usdcBorrowed: 600n * USDC,
+  lpEth: 150_000_000_000_000_000n,
+  lpUsdc: 300n * USDC,
+  usdcPerEth: 2000n * USDC,
+  liquidationThresholdBps: 8300,
+  poolFee: 0,
+};
+
+describe('getHealthFactor', () => {
+  it('weighs the collateral value by the liquidation threshold', () => {
+    assert.equal(getHealthFactor(ETHER, 830n * USDC, 1000n * USDC, 8300), 1);
+  });
+
+  it('is infinite without debt', () => {
+    assert.equal(getHealthFactor(ETHER, 0n, 2000n * USDC, 8300), Infinity);
+  });
+});
+
+describe('previewReduction', () => {
+  it('swaps removed ETH for the shortfall and repays the full debt share', () => {
+    const preview = previewReduction(balances, 25, true);
+
+    // 75 USDC removed against a 150 USDC share, the 75 USDC gap is 0.0375 ETH
+    assert.equal(preview.lpUsdcRemoved, 75n * USDC);
+    assert.equal(preview.ethSwapped, 37_500_000_000_000_000n);
+    assert.equal(preview.usdcFromSwap, 75n * USDC);
+    assert.equal(preview.usdcRepaid, 150n * USDC);
+    assert.equal(preview.ethWithdrawn, ETHER / 4n);
+    assert.equal(preview.ethReturned, ETHER / 4n);
+    assert.equal(preview.usdcBorrowedAfter, 450n * USDC);
+    assert.equal(preview.healthFactorAfter, preview.healthFactorBefore);
+    assert.deepEqual(preview.warnings, []);
+  });
+
+  it('withdraws less collateral without the swap, keeping the health factor', () => {
+    const preview = previewReduction(balances, 50, false);
+
+    // 150 USDC collected against a 300 USDC share
+    assert.equal(preview.ethSwapped, 0n);
+    assert.equal(preview.usdcRepaid, 150n * USDC);
+    assert.equal(preview.ethWithdrawn, ETHER / 4n);
+    assert.equal(preview.ethReturned, ETHER / 4n + 75_000_000_000_000_000n);
+    assert.equal(preview.warnings.length, 1);
+    assert.ok(Math.abs(preview.healthFactorAfter - preview.healthFactorBefore) < 1e-9);
+  });
+
+  it('sizes the swap for the shortfall with the pool fee, as a rebalance does', () => {
+    // An LP of 1 ETH and no USDC, so the whole 150 USDC share comes from the 0.3% fee swap
+    const preview = previewReduction(
+      { ...balances, lpEth: ETHER, lpUsdc: 0n, poolFee: 3000 },
+      25,
+      true
+    );
+
+    assert.ok(preview.ethSwapped > 75_000_000_000_000_000n);
+    assert.ok(150n * USDC - preview.usdcFromSwap <= 1n);
+    assert.equal(preview.usdcRepaid, preview.usdcFromSwap);
+  });
+
+  it('returns the USDC left over after repaying', () => {
+    const preview = previewReduction({ ...balances, usdcBorrowed: 100n * USDC }, 50, true);
+
+    assert.equal(preview.usdcRepaid, 50n * USDC);
+    assert.equal(preview.usdcReturned, 100n * USDC);
+    assert.equal(preview.ethSwapped, 0n);
+  });
+});
+
+describe('previewIncrease', () => {
+  it('borrows against the added ETH only and blends the LTV', () => {
+    const preview = previewIncrease(balances, ETHER, 50);
+
+    assert.equal(preview.usdcBorrowed, 1000n * USDC);
+    assert.equal(preview.ethSuppliedAfter, 2n * ETHER);
+    assert.equal(preview.usdcBorrowedAfter, 1600n * USDC);
+    assert.equal(preview.ltvAfter, 40);
+    assert.ok(preview.healthFactorAfter < preview.healthFactorBefore);
+  });
+});
+
+describe('previewRebalance', () => {
+  it('borrows up to the target LTV', () => {
+    const preview = previewRebalance(balances, 40);
+
+    assert.equal(preview.direction, 'borrow');
+    assert.equal(preview.usdcBorrowed, 200n * USDC);
+    assert.equal(preview.lpPercentage, 0);
+    assert.equal(preview.ltvAfter, 40);
+  });
+
+  it('pulls the LP share that covers the repayment and swaps ETH for the shortfall', () => {
+    const preview = previewRebalance(balances, 20);
+
+    // 200 USDC to repay from a 600 USDC LP rounds up to 34%
+    assert.equal(preview.direction, 'repay');
+    assert.equal(preview.lpPercentage, 34);
+    assert.equal(preview.lpUsdcRemoved, 102n * USDC);
+    assert.equal(preview.ethSwapped, 49_000_000_000_000_000n);
+    assert.equal(preview.usdcRepaid, 200n * USDC);
+    assert.equal(preview.ethSupplied, 2_000_000_000_000_000n);
+    assert.equal(preview.usdcBorrowedAfter, 400n * USDC);
+    assert.ok(preview.ltvAfter < 20 && preview.ltvAfter > 19.9);
+    assert.deepEqual(preview.warnings, []);
+  });
+
+  it('does nothing at the target', () => {
+    const preview = previewRebalance(balances, 30);
+
+    assert.equal(preview.direction, 'none');
+    assert.equal(preview.usdcBorrowedAfter, balances.usdcBorrowed);
+  });
+
+  it('warns when the LP cannot cover the repayment', () => {
+    const preview = previewRebalance({ ...balances, usdcBorrowed: 1000n * USDC }, 5);
+
+    assert.equal(preview.lpPercentage, 99);
+    assert.ok(preview.usdcRepaid < 900n * USDC);
+    assert.equal(preview.warnings.length, 1);
+  });
+});
@@ -0,0 +1,324 @@
+// Only type imports here, so the previews and their tests run on plain Node without the bundler
+
+const WAD = 10n ** 18n;
+const BPS = 10_000n;
+const FEE_DENOMINATOR = 1_000_000n; // Uniswap fee tiers are in hundredths of a bip
+
+// Leftover USDC at or below this many units stays in the manager, as in reducePosition
+const DUST_THRESHOLD = 1000n;
+
+/**
+ * Current balances of an active strategy and the prices they are valued at
+ * Token amounts are raw: ETH in wei, USDC in 6 decimals
+ */
+export interface PositionBalances {
+  ethSupplied: bigint; // Aave WETH collateral
+  usdcBorrowed: bigint; // Aave variable USDC debt
+  lpEth: bigint; // ETH side of the LP position at the pool's current tick
+  lpUsdc: bigint; // USDC side of the LP position
+  usdcPerEth: bigint; // ETH price in USDC units (6 decimals)
+  liquidationThresholdBps: number; // Aave liquidation threshold of the Safe's collateral
+  poolFee: number; // LeveragedLPManager.poolFee, 3000 = 0.3%
+}
+
+/**
+ * Expected outcome of LeveragedLPManager.reducePosition
+ */
+export interface ReductionPreview {
+  percentage: number;
+  lpEthRemoved: bigint;
+  lpUsdcRemoved: bigint;
+  ethSwapped: bigint; // Removed ETH swapped to cover the debt share
+  usdcFromSwap: bigint; // After the pool fee, ignoring price impact
+  usdcRepaid: bigint;
+  ethWithdrawn: bigint; // Collateral taken out of Aave
+  ethReturned: bigint; // Unswapped LP ETH plus withdrawn collateral, sent to the Safe
+  usdcReturned: bigint; // LP USDC left after the repayment
+  ethSuppliedAfter: bigint;
+  usdcBorrowedAfter: bigint;
+  healthFactorBefore: number;
+  healthFactorAfter: number;
+  warnings: string[];
+}
+
+/**
+ * Aave health factor of a WETH collateral, USDC debt position
+ * @param ethSupplied - Collateral in wei
+ * @param usdcBorrowed - Debt in USDC units
+ * @param usdcPerEth - ETH price in USDC units
+ * @param liquidationThresholdBps - Liquidation threshold of the collateral
+ * @returns The health factor, Infinity without debt
+ */
+export function getHealthFactor(
+  ethSupplied: bigint,
+  usdcBorrowed: bigint,
+  usdcPerEth: bigint,
+  liquidationThresholdBps: number
+): number {
+  if (usdcBorrowed === 0n) return Infinity;
+  const collateralUsdc = (ethSupplied * usdcPerEth) / WAD;
+  return (Number(collateralUsdc) * liquidationThresholdBps) / Number(BPS) / Number(usdcBorrowed);
+}
+
+/**
+ * Debt over collateral value of a WETH collateral, USDC debt position
+ * @returns The LTV in percent, 0 without collateral
+ */
+export function getLtv(ethSupplied: bigint, usdcBorrowed: bigint, usdcPerEth: bigint): number {
+  const collateralUsdc = (ethSupplied * usdcPerEth) / WAD;
+  return collateralUsdc > 0n ? (Number(usdcBorrowed) / Number(collateralUsdc)) * 100 : 0;
+}
+
+/**
+ * Previews LeveragedLPManager.reducePosition step by step: remove the share of the liquidity,
+ * repay the same share of the debt, swapping removed ETH for the USDC shortfall when allowed,
+ * then withdraw collateral in proportion to the debt actually repaid
+ * The pool is assumed to trade at the feed price, so only the pool fee moves the swap
+ * @param balances - Current balances of the position
+ * @param percentage - Share of the position to remove, 1 to 99
+ * @param swapEthForDebt - Whether the manager may swap removed ETH for USDC
+ * @returns The expected amounts and the resulting health factor
+ */
+export function previewReduction(
+  balances: PositionBalances,
+  percentage: number,
+  swapEthForDebt: boolean
+): ReductionPreview {
+  const share = BigInt(percentage);
+  const warnings: string[] = [];
+
+  // [2] + [3] Remove and collect the share of the liquidity
+  const lpEthRemoved = (balances.lpEth * share) / 100n;
+  const lpUsdcRemoved = (balances.lpUsdc * share) / 100n;
+
+  // [5] Swap ETH for the shortfall, grossed up for the pool fee
+  const debtShare = (balances.usdcBorrowed * share) / 100n;
+  const feeFactor = FEE_DENOMINATOR - BigInt(balances.poolFee);
+  let ethSwapped = 0n;
+  if (swapEthForDebt && lpUsdcRemoved < debtShare) {
+    ethSwapped =
+      ((debtShare - lpUsdcRemoved) * WAD * FEE_DENOMINATOR) / balances.usdcPerEth / feeFactor;
+    if (ethSwapped > lpEthRemoved) ethSwapped = lpEthRemoved;
+  }
+  const usdcFromSwap = (((ethSwapped * balances.usdcPerEth) / WAD) * feeFactor) / FEE_DENOMINATOR;
+
+  // Repay the debt share, capped by the collected USDC
+  const usdcCollected = lpUsdcRemoved + usdcFromSwap;
+  const usdcRepaid = usdcCollected < debtShare ? usdcCollected : debtShare;
+  if (usdcRepaid < debtShare) {
+    warnings.push(
+      swapEthForDebt
+        ? 'The removed liquidity does not cover its share of the debt, less collateral is withdrawn'
+        : 'The LP holds too little USDC to repay its share of the debt, less collateral is withdrawn'
+    );
+  }
+  const usdcExcess = usdcCollected - usdcRepaid;
+
+  // [6] Withdraw collateral matching the repaid debt
+  const ethWithdrawn =
+    balances.usdcBorrowed > 0n
+      ? (balances.ethSupplied * usdcRepaid) / balances.usdcBorrowed
+      : (balances.ethSupplied * share) / 100n;
+
+  const ethSuppliedAfter = balances.ethSupplied - ethWithdrawn;
+  const usdcBorrowedAfter = balances.usdcBorrowed - usdcRepaid;
+
+  return {
+    percentage,
+    lpEthRemoved,
+    lpUsdcRemoved,
+    ethSwapped,
+    usdcFromSwap,
+    usdcRepaid,
+    ethWithdrawn,
+    ethReturned: lpEthRemoved - ethSwapped + ethWithdrawn,
+    usdcReturned: usdcExcess > DUST_THRESHOLD ? usdcExcess : 0n,
+    ethSuppliedAfter,
+    usdcBorrowedAfter,
+    healthFactorBefore: getHealthFactor(
+      balances.ethSupplied,
+      balances.usdcBorrowed,
+      balances.usdcPerEth,
+      balances.liquidationThresholdBps
+    ),
+    healthFactorAfter: getHealthFactor(
+      ethSuppliedAfter,
+      usdcBorrowedAfter,
+      balances.usdcPerEth,
+      balances.liquidationThresholdBps
+    ),
+    warnings,
+  };
+}
+
+/**
+ * Expected outcome of LeveragedLPManager.increasePosition
+ */
+export interface IncreasePreview {
+  ethAdded: bigint; // Collateral supplied to Aave
+  usdcBorrowed: bigint; // Borrowed at the LTV against the added ETH only
+  ethSuppliedAfter: bigint;
+  usdcBorrowedAfter: bigint;
+  ltvAfter: number; // Debt over collateral value of the whole position, in percent
+  healthFactorBefore: number;
+  healthFactorAfter: number;
+}
+
+/**
+ * Previews LeveragedLPManager.increasePosition: supply the ETH and borrow against it
+ * at the LTV and the feed price, as the contract does, on top of the open position
+ * @param balances - Current balances of the position
+ * @param ethAmount - ETH to add, in wei
+ * @param ltv - Loan-to-value to borrow at against the added ETH, in percent
+ * @returns The expected collateral, debt and resulting health factor
+ */
+export function previewIncrease(
+  balances: PositionBalances,
+  ethAmount: bigint,
+  ltv: number
+): IncreasePreview {
+  const usdcBorrowed = (((ethAmount * balances.usdcPerEth) / WAD) * BigInt(ltv)) / 100n;
+  const ethSuppliedAfter = balances.ethSupplied + ethAmount;
+  const usdcBorrowedAfter = balances.usdcBorrowed + usdcBorrowed;
+
+  return {
+    ethAdded: ethAmount,
+    usdcBorrowed,
+    ethSuppliedAfter,
+    usdcBorrowedAfter,
+    ltvAfter: getLtv(ethSuppliedAfter, usdcBorrowedAfter, balances.usdcPerEth),
+    healthFactorBefore: getHealthFactor(
+      balances.ethSupplied,
+      balances.usdcBorrowed,
+      balances.usdcPerEth,
+      balances.liquidationThresholdBps
+    ),
+    healthFactorAfter: getHealthFactor(
+      ethSuppliedAfter,
+      usdcBorrowedAfter,
+      balances.usdcPerEth,
+      balances.liquidationThresholdBps
+    ),
+  };
+}
+
+// borrow: below the target LTV, repay: above it, none: already there
+export type RebalanceDirection = 'borrow' | 'repay' | 'none';
+
+/**
+ * Expected outcome of LeveragedLPManager.rebalancePosition
+ */
+export interface RebalancePreview {
+  targetLtv: number;
+  direction: RebalanceDirection;
+  usdcBorrowed: bigint; // Borrowed and added to the LP
+  lpPercentage: number; // Share of the liquidity pulled to repay, 0 when borrowing
+  lpEthRemoved: bigint;
+  lpUsdcRemoved: bigint;
+  ethSwapped: bigint; // Removed ETH swapped for the USDC shortfall
+  usdcRepaid: bigint;
+  ethSupplied: bigint; // Removed ETH left after the swap, supplied as collateral
+  usdcReturned: bigint; // Removed USDC left after the repayment, sent to the Safe
+  ethSuppliedAfter: bigint;
+  usdcBorrowedAfter: bigint;
+  ltvBefore: number; // In percent
+  ltvAfter: number;
+  healthFactorBefore: number;
+  healthFactorAfter: number;
+  warnings: string[];
+}
+
+/**
+ * Previews LeveragedLPManager.rebalancePosition: borrow up to the target LTV and add it to the LP,
+ * or pull enough liquidity to repay down to it, swapping removed ETH for the USDC shortfall
+ * and supplying the rest as collateral
+ * The share of liquidity to pull is worked out here and passed to the contract
+ * The pool is assumed to trade at the feed price, so only the pool fee moves the swap
+ * @param balances - Current balances of the position
+ * @param targetLtv - Loan-to-value to return to, in percent
+ * @returns The expected amounts and the resulting LTV and health factor
+ */
+export function previewRebalance(balances: PositionBalances, targetLtv: number): RebalancePreview {
+  const { ethSupplied, usdcBorrowed, lpEth, lpUsdc, usdcPerEth, poolFee } = balances;
+  const warnings: string[] = [];
+  const feeFactor = FEE_DENOMINATOR - BigInt(poolFee);
+
+  // [1] The debt the target allows against the current collateral, as the contract prices it
+  const targetDebt = (((ethSupplied * usdcPerEth) / WAD) * BigInt(targetLtv)) / 100n;
+
+  let direction: RebalanceDirection = 'none';
+  let borrowed = 0n;
+  let lpPercentage = 0;
+  let lpEthRemoved = 0n;
+  let lpUsdcRemoved = 0n;
+  let ethSwapped = 0n;
+  let usdcRepaid = 0n;
+  let usdcReturned = 0n;
+
+  if (usdcBorrowed < targetDebt) {
+    direction = 'borrow';
+    borrowed = targetDebt - usdcBorrowed;
+  } else if (usdcBorrowed > targetDebt) {
+    direction = 'repay';
+    const usdcToRepay = usdcBorrowed - targetDebt;
+
+    // Pull the smallest whole percentage of the LP whose value covers the repayment
+    const lpValue = (lpEth * usdcPerEth) / WAD + lpUsdc;
+    const needed = lpValue > 0n ? (usdcToRepay * 100n + lpValue - 1n) / lpValue : 100n;
+    if (needed > 99n) {
+      warnings.push('The LP holds too little to repay down to the target, the LTV stays above it');
+    }
+    lpPercentage = Number(needed < 1n ? 1n : needed > 99n ? 99n : needed);
+
+    lpEthRemoved = (lpEth * BigInt(lpPercentage)) / 100n;
+    lpUsdcRemoved = (lpUsdc * BigInt(lpPercentage)) / 100n;
+
+    // [2] Swap ETH for the shortfall, grossed up for the pool fee
+    if (lpUsdcRemoved < usdcToRepay) {
+      ethSwapped = ((usdcToRepay - lpUsdcRemoved) * WAD * FEE_DENOMINATOR) / usdcPerEth / feeFactor;
+      if (ethSwapped > lpEthRemoved) ethSwapped = lpEthRemoved;
+    }
+    const usdcCollected =
+      lpUsdcRemoved + (((ethSwapped * usdcPerEth) / WAD) * feeFactor) / FEE_DENOMINATOR;
+
+    // [3] Repay, capped by the collected USDC
+    usdcRepaid = usdcCollected < usdcToRepay ? usdcCollected : usdcToRepay;
+    const usdcExcess = usdcCollected - usdcRepaid;
+    usdcReturned = usdcExcess > DUST_THRESHOLD ? usdcExcess : 0n;
+  }
+
+  // [4] Removed ETH that was not swapped goes back in as collateral
+  const ethAdded = lpEthRemoved - ethSwapped;
+  const ethSuppliedAfter = ethSupplied + ethAdded;
+  const usdcBorrowedAfter = usdcBorrowed + borrowed - usdcRepaid;
+
+  return {
+    targetLtv,
+    direction,
+    usdcBorrowed: borrowed,
+    lpPercentage,
+    lpEthRemoved,
+    lpUsdcRemoved,
+    ethSwapped,
+    usdcRepaid,
+    ethSupplied: ethAdded,
+    usdcReturned,
+    ethSuppliedAfter,
+    usdcBorrowedAfter,
+    ltvBefore: getLtv(ethSupplied, usdcBorrowed, usdcPerEth),
+    ltvAfter: getLtv(ethSuppliedAfter, usdcBorrowedAfter, usdcPerEth),
+    healthFactorBefore: getHealthFactor(
+      ethSupplied,
+      usdcBorrowed,
+      usdcPerEth,
+      balances.liquidationThresholdBps
+    ),
+    healthFactorAfter: getHealthFactor(
+      ethSuppliedAfter,
+      usdcBorrowedAfter,
+      usdcPerEth,
+      balances.liquidationThresholdBps
+    ),
+    warnings,
+  };
+}
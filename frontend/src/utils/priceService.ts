@@ -0,0 +1,138 @@
+import { Contract, utils } from 'ethers';
+import type { providers } from 'ethers';
+import { ABIs } from '../abis';
+
+// Answers older than this are flagged as stale (the Base ETH/USD feed has a 20 minute heartbeat)
+export const PRICE_STALENESS_SECONDS = 60 * 60;
+
+const USDC_DECIMALS = 6;
+
+/**
+ * ETH price in USDC terms, as used by LeveragedLPManager.startStrategy
+ */
+export interface EthPrice {
+  usdcPerEth: bigint; // USDC units (6 decimals) per 1 ETH
+  source: 'chainlink' | 'aave';
+  updatedAt: number | null; // Unix timestamp of the answer, null when the source does not report one
+  isStale: boolean;
+}
+
+/**
+ * Scales a price to USDC's 6 decimals, the same way the contract does
+ */
+function toUsdcDecimals(price: bigint, decimals: number): bigint {
+  if (decimals > USDC_DECIMALS) return price / 10n ** BigInt(decimals - USDC_DECIMALS);
+  if (decimals < USDC_DECIMALS) return price * 10n ** BigInt(USDC_DECIMALS - decimals);
+  return price;
+}
+
+/**
+ * Reads the Chainlink ETH/USD feed configured in LeveragedLPManager.ETH_USD_PRICE_FEED
+ * @param provider - Ethers provider
+ * @param leveragedLPManagerAddress - Address of the LeveragedLPManager
+ * @returns The latest answer, flagged stale when it is old or from an unfinished round
+ */
+async function fetchChainlinkPrice(
+  provider: providers.Provider,
+  leveragedLPManagerAddress: string
+): Promise<EthPrice> {
+  const manager = new Contract(leveragedLPManagerAddress, ABIs.LeveragedLPManager, provider);
+  const feed = new Contract(await manager.ETH_USD_PRICE_FEED(), ABIs.ChainlinkAggregator, provider);
+
+  const [roundData, decimals] = await Promise.all([feed.latestRoundData(), feed.decimals()]);
+  const answer = roundData.answer.toBigInt();
+  if (answer <= 0n) {
+    throw new Error('Invalid ETH price');
+  }
+
+  const updatedAt = roundData.updatedAt.toNumber();
+  const isStale =
+    Date.now() / 1000 - updatedAt > PRICE_STALENESS_SECONDS ||
+    roundData.answeredInRound.lt(roundData.roundId);
+
+  return {
+    usdcPerEth: toUsdcDecimals(answer, decimals),
+    source: 'chainlink',
+    updatedAt,
+    isStale,
+  };
+}
+
+/**
+ * Reads the WETH price from the Aave oracle behind the pool's addresses provider
+ * @param provider - Ethers provider
+ * @param aavePoolAddress - Address of the Aave pool
+ * @param wethAddress - Address of WETH
+ * @returns The oracle price, Aave prices use 8 decimals in its USD base currency
+ */
+async function fetchAaveOraclePrice(
+  provider: providers.Provider,
+  aavePoolAddress: string,
+  wethAddress: string
+): Promise<EthPrice> {
+  const pool = new Contract(aavePoolAddress, ABIs.AavePool, provider);
+  const addressesProvider = new Contract(
+    await pool.ADDRESSES_PROVIDER(),
+    ABIs.AaveAddressesProvider,
+    provider
+  );
+  const oracle = new Contract(await addressesProvider.getPriceOracle(), ABIs.AaveOracle, provider);
+
+  const [price, unit] = await Promise.all([
+    oracle.getAssetPrice(wethAddress),
+    oracle.BASE_CURRENCY_UNIT(),
+  ]);
+  if (price.isZero()) {
+    throw new Error('Invalid ETH price');
+  }
+
+  return {
+    usdcPerEth: toUsdcDecimals(price.toBigInt(), unit.toString().length - 1),
+    source: 'aave',
+    updatedAt: null,
+    isStale: false,
+  };
+}
+
+/**
+ * Gets the live ETH price, preferring the Chainlink feed the contract borrows against
+ * and falling back to the Aave oracle when the feed cannot be read
+ * @param provider - Ethers provider
+ * @param addresses - LeveragedLPManager, Aave pool and WETH addresses
+ * @returns The ETH price in USDC terms
+ */
+export async function fetchEthPrice(
+  provider: providers.Provider,
+  addresses: { leveragedLPManager: string; aavePool: string; weth: string }
+): Promise<EthPrice> {
+  try {
+    return await fetchChainlinkPrice(provider, addresses.leveragedLPManager);
+  } catch (error) {
+    console.warn('Chainlink ETH/USD feed unavailable, falling back to the Aave oracle:', error);
+    return fetchAaveOraclePrice(provider, addresses.aavePool, addresses.weth);
+  }
+}
+
+/**
+ * USDC the contract will borrow for a given ETH amount and LTV
+ * Mirrors the calculation in LeveragedLPManager.startStrategy
+ * @param ethAmountWei - ETH supplied, in wei
+ * @param ltv - Loan-to-Value ratio in percent
+ * @param price - Current ETH price
+ * @returns USDC amount in 6 decimals
+ */
+export function estimateUsdcBorrow(ethAmountWei: bigint, ltv: number, price: EthPrice): bigint {
+  const ethValue = (ethAmountWei * price.usdcPerEth) / 10n ** 18n;
+  return (ethValue * BigInt(ltv)) / 100n;
+}
+
+/**
+ * USD value of an ETH amount
+ * @param ethAmountWei - ETH amount in wei
+ * @param price - Current ETH price
+ * @returns USD value formatted with 2 decimals
+ */
+export function formatEthInUsd(ethAmountWei: bigint, price: EthPrice): string {
+  const usdcValue = (ethAmountWei * price.usdcPerEth) / 10n ** 18n;
+  return parseFloat(utils.formatUnits(usdcValue, USDC_DECIMALS)).toFixed(2);
+}
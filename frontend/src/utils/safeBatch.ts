@@ -0,0 +1,161 @@
+import { BigNumber, utils } from 'ethers';
+import type Safe from '@safe-global/protocol-kit';
+import type { MetaTransactionData, SafeTransaction } from '@safe-global/safe-core-sdk-types';
+import { OperationType } from '@safe-global/safe-core-sdk-types';
+
+/**
+ * A single call inside a Safe batch, tagged with a human readable label
+ */
+export interface BatchStep {
+  label: string;
+  transaction: MetaTransactionData;
+}
+
+/**
+ * A call decoded back out of the data the Safe will sign
+ */
+export interface DecodedBatchCall {
+  label: string;
+  to: string;
+  value: string;
+  operation: OperationType;
+  method: string;
+  args: { name: string; value: string }[];
+}
+
+/**
+ * A prepared (unsigned) Safe transaction together with its decoded contents
+ */
+export interface PreparedSafeBatch {
+  description: string;
+  safeTransaction: SafeTransaction;
+  calls: DecodedBatchCall[];
+}
+
+/**
+ * Known contract interfaces keyed by lowercase address, used to decode batch calls
+ */
+export type BatchInterfaces = Record<string, { name: string; iface: utils.Interface }>;
+
+const MULTI_SEND_INTERFACE = new utils.Interface(['function multiSend(bytes transactions)']);
+
+/**
+ * Splits packed MultiSend transaction bytes into individual calls
+ * Each call is encoded as operation (1 byte), to (20 bytes), value (32 bytes),
+ * data length (32 bytes) followed by the call data itself
+ * @param packed The `transactions` argument passed to MultiSend.multiSend
+ * @returns The individual calls in execution order
+ */
+export function unpackMultiSendTransactions(packed: string): MetaTransactionData[] {
+  const bytes = utils.arrayify(packed);
+  const transactions: MetaTransactionData[] = [];
+
+  let offset = 0;
+  while (offset < bytes.length) {
+    const operation = bytes[offset] as OperationType;
+    const to = utils.getAddress(utils.hexlify(bytes.slice(offset + 1, offset + 21)));
+    const value = BigNumber.from(bytes.slice(offset + 21, offset + 53)).toString();
+    const dataLength = BigNumber.from(bytes.slice(offset + 53, offset + 85)).toNumber();
+    const data = utils.hexlify(bytes.slice(offset + 85, offset + 85 + dataLength));
+
+    transactions.push({ to, value, data, operation });
+    offset += 85 + dataLength;
+  }
+
+  return transactions;
+}
+
+/**
+ * Returns the calls a Safe transaction will execute
+ * A MultiSend delegatecall is unpacked into its individual calls
+ * @param safeTransaction The Safe transaction to inspect
+ * @returns The calls in execution order
+ */
+export function getInnerTransactions(safeTransaction: SafeTransaction): MetaTransactionData[] {
+  if (safeTransaction.data.operation !== OperationType.DelegateCall) {
+    return [safeTransaction.data];
+  }
+
+  const multiSend = MULTI_SEND_INTERFACE.parseTransaction({ data: safeTransaction.data.data });
+  return unpackMultiSendTransactions(multiSend.args.transactions);
+}
+
+/**
+ * Decodes a single call using the known contract interfaces
+ * Unknown targets or selectors are shown with their raw call data
+ */
+function decodeCall(
+  transaction: MetaTransactionData,
+  label: string,
+  interfaces: BatchInterfaces
+): DecodedBatchCall {
+  const decoded: DecodedBatchCall = {
+    label,
+    to: transaction.to,
+    value: transaction.value,
+    operation: transaction.operation ?? OperationType.Call,
+    method: 'unknown',
+    args: [{ name: 'data', value: transaction.data }],
+  };
+
+  const known = interfaces[transaction.to.toLowerCase()];
+  if (!known) return decoded;
+
+  try {
+    const parsed = known.iface.parseTransaction({
+      data: transaction.data,
+      value: transaction.value,
+    });
+    decoded.method = `${known.name}.${parsed.name}`;
+    decoded.args = parsed.functionFragment.inputs.map((input, index) => ({
+      name: input.name || `arg${index}`,
+      value: parsed.args[index].toString(),
+    }));
+  } catch (error) {
+    console.warn(`Could not decode call to ${known.name}:`, error);
+  }
+
+  return decoded;
+}
+
+/**
+ * Creates one Safe transaction for all steps and decodes what will be signed
+ * With more than one step protocol-kit wraps the calls into a MultiSend delegatecall,
+ * so the whole batch succeeds or reverts atomically
+ * @param safeSdk - Safe SDK instance
+ * @param steps - Labelled calls in execution order
+ * @param interfaces - Known contract interfaces used for decoding
+ * @param description - Description of the batch for logging
+ * @returns The unsigned Safe transaction with its decoded calls
+ */
+export async function prepareSafeBatch(
+  safeSdk: Safe,
+  steps: BatchStep[],
+  interfaces: BatchInterfaces,
+  description: string
+): Promise<PreparedSafeBatch> {
+  if (steps.length === 0) {
+    throw new Error(`Nothing to execute for ${description}`);
+  }
+
+  console.log(`Creating Safe batch transaction for ${description} (${steps.length} calls)...`);
+  const safeTransaction = await safeSdk.createTransaction({
+    transactions: steps.map(step => step.transaction),
+  });
+
+  // Decode the calls back out of the Safe transaction rather than trusting the inputs,
+  // so the review shows exactly what the owner is about to sign
+  const innerTransactions = getInnerTransactions(safeTransaction);
+
+  if (innerTransactions.length !== steps.length) {
+    throw new Error(
+      `Batch for ${description} decoded to ${innerTransactions.length} calls, expected ${steps.length}`
+    );
+  }
+
+  const calls = innerTransactions.map((transaction, index) =>
+    decodeCall(transaction, steps[index].label, interfaces)
+  );
+
+  return { description, safeTransaction, calls };
+}
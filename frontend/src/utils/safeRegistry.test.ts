@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { utils } from 'ethers';
+import {
+  discoverSafes,
+  getRegisteredSafes,
+  getSelectedSafe,
+  registerSafe,
+  selectSafe,
+} from './safeRegistry.ts';
+import type { SafeService } from './safeService.ts';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const OTHER_OWNER = '0x2222222222222222222222222222222222222222';
+const SAFE_A = utils.getAddress('0xabcdef0123456789abcdef0123456789abcdef01');
+const SAFE_B = utils.getAddress('0x00000000000000000000000000000000000000bb');
+
+/**
+ * In-memory localStorage, the registry's only persistence
+ */
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+/**
+ * Transaction Service answering getSafesByOwner with fixed Safes, or failing
+ */
+function stubService(safes: string[] | Error): SafeService {
+  return {
+    getSafesByOwner: async () => {
+      if (safes instanceof Error) throw safes;
+      return { safes };
+    },
+  } as unknown as SafeService;
+}
+
+describe('safeRegistry', () => {
+  beforeEach(() => {
+    globalThis.localStorage = createStorage();
+  });
+
+  it('persists registered Safes and selects the latest one', () => {
+    registerSafe(OWNER, 8453, SAFE_A);
+    registerSafe(OWNER, 8453, SAFE_B);
+
+    assert.deepEqual(getRegisteredSafes(OWNER, 8453), [SAFE_A, SAFE_B]);
+    assert.equal(getSelectedSafe(OWNER, 8453), SAFE_B);
+  });
+
+  it('stores a Safe once whatever the address casing', () => {
+    registerSafe(OWNER, 8453, SAFE_A.toLowerCase());
+    registerSafe(OWNER, 8453, SAFE_A);
+
+    assert.deepEqual(getRegisteredSafes(OWNER, 8453), [SAFE_A]);
+  });
+
+  it('keeps owners and chains apart', () => {
+    registerSafe(OWNER, 8453, SAFE_A);
+    registerSafe(OTHER_OWNER, 8453, SAFE_B);
+    registerSafe(OWNER, 31337, SAFE_B);
+
+    assert.deepEqual(getRegisteredSafes(OWNER, 8453), [SAFE_A]);
+    assert.deepEqual(getRegisteredSafes(OTHER_OWNER, 8453), [SAFE_B]);
+    assert.deepEqual(getRegisteredSafes(OWNER, 31337), [SAFE_B]);
+    assert.deepEqual(getRegisteredSafes(OTHER_OWNER, 31337), []);
+  });
+
+  it('clears the selection without forgetting the Safes', () => {
+    registerSafe(OWNER, 8453, SAFE_A);
+    selectSafe(OWNER, 8453, null);
+
+    assert.equal(getSelectedSafe(OWNER, 8453), null);
+    assert.deepEqual(getRegisteredSafes(OWNER, 8453), [SAFE_A]);
+  });
+
+  it('merges discovered Safes into the stored ones without duplicates', async () => {
+    registerSafe(OWNER, 8453, SAFE_A);
+
+    const safes = await discoverSafes(
+      stubService([SAFE_A.toLowerCase(), SAFE_B.toLowerCase()]),
+      OWNER,
+      8453
+    );
+
+    assert.deepEqual(safes, [SAFE_A, SAFE_B]);
+    assert.deepEqual(getRegisteredSafes(OWNER, 8453), [SAFE_A, SAFE_B]);
+    assert.equal(getSelectedSafe(OWNER, 8453), SAFE_A);
+  });
+
+  it('keeps the stored Safes when the service is unreachable', async t => {
+    t.mock.method(console, 'error', () => {});
+    registerSafe(OWNER, 8453, SAFE_A);
+
+    const safes = await discoverSafes(stubService(new Error('offline')), OWNER, 8453);
+
+    assert.deepEqual(safes, [SAFE_A]);
+  });
+});
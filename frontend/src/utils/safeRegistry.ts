@@ -0,0 +1,117 @@
+import { Contract, utils } from 'ethers';
+import type { providers } from 'ethers';
+import { ABIs } from '../abis';
+import type { SafeService } from './safeService';
+
+const REGISTRY_KEY_PREFIX = 'safeRegistry';
+
+// Safes known for one owner on one chain, and the one the user picked
+interface RegistryEntry {
+  safes: string[];
+  selected: string | null;
+}
+
+function getRegistryKey(owner: string, chainId: number): string {
+  return `${REGISTRY_KEY_PREFIX}:${chainId}:${owner.toLowerCase()}`;
+}
+
+function readEntry(owner: string, chainId: number): RegistryEntry {
+  const stored = localStorage.getItem(getRegistryKey(owner, chainId));
+  return stored ? JSON.parse(stored) : { safes: [], selected: null };
+}
+
+function writeEntry(owner: string, chainId: number, entry: RegistryEntry): void {
+  localStorage.setItem(getRegistryKey(owner, chainId), JSON.stringify(entry));
+}
+
+/**
+ * Lists the Safes stored for an owner on a chain
+ * @param owner Owner EOA
+ * @param chainId Chain ID
+ * @returns Checksummed Safe addresses
+ */
+export function getRegisteredSafes(owner: string, chainId: number): string[] {
+  return readEntry(owner, chainId).safes;
+}
+
+/**
+ * Gets the Safe the owner last picked on a chain
+ * @param owner Owner EOA
+ * @param chainId Chain ID
+ * @returns The Safe address, or null when none was picked
+ */
+export function getSelectedSafe(owner: string, chainId: number): string | null {
+  return readEntry(owner, chainId).selected;
+}
+
+/**
+ * Stores a Safe for an owner on a chain and selects it
+ * @param owner Owner EOA
+ * @param chainId Chain ID
+ * @param safe Safe address
+ */
+export function registerSafe(owner: string, chainId: number, safe: string): void {
+  const entry = readEntry(owner, chainId);
+  const address = utils.getAddress(safe);
+  writeEntry(owner, chainId, {
+    safes: entry.safes.includes(address) ? entry.safes : [...entry.safes, address],
+    selected: address,
+  });
+}
+
+/**
+ * Remembers which of the owner's Safes is used on a chain
+ * @param owner Owner EOA
+ * @param chainId Chain ID
+ * @param safe Safe address, null to clear the selection
+ */
+export function selectSafe(owner: string, chainId: number, safe: string | null): void {
+  const entry = readEntry(owner, chainId);
+  writeEntry(owner, chainId, { ...entry, selected: safe && utils.getAddress(safe) });
+}
+
+/**
+ * Finds the Safes an owner has on a chain and adds them to the registry
+ * Safes stored earlier are kept when the service is unreachable
+ * @param service Safe Transaction Service client
+ * @param owner Owner EOA
+ * @param chainId Chain ID
+ * @returns All known Safes of the owner on the chain
+ */
+export async function discoverSafes(
+  service: SafeService,
+  owner: string,
+  chainId: number
+): Promise<string[]> {
+  const entry = readEntry(owner, chainId);
+
+  try {
+    const { safes } = await service.getSafesByOwner(utils.getAddress(owner));
+    const discovered = safes.map(safe => utils.getAddress(safe));
+    entry.safes = [...new Set([...entry.safes, ...discovered])];
+    writeEntry(owner, chainId, entry);
+  } catch (error) {
+    console.error('Error discovering Safes from the Transaction Service:', error);
+  }
+
+  return entry.safes;
+}
+
+/**
+ * Checks on-chain that an address is an owner of a Safe
+ * @param provider Ethers provider
+ * @param safe Safe address
+ * @param owner Address to check
+ * @returns False when the address is not an owner or the Safe is not deployed
+ */
+export async function isSafeOwner(
+  provider: providers.Provider,
+  safe: string,
+  owner: string
+): Promise<boolean> {
+  try {
+    return await new Contract(safe, ABIs.Safe, provider).isOwner(owner);
+  } catch {
+    return false;
+  }
+}
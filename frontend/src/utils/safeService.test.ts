@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { Wallet, utils } from 'ethers';
+import type { ProposeTransactionProps } from '@safe-global/api-kit';
+import { createLocalSafeService } from './safeService.ts';
+import { registerSafe } from './safeRegistry.ts';
+
+const SAFE = utils.getAddress('0xabcdef0123456789abcdef0123456789abcdef01');
+const ZERO_ADDRESS = utils.hexZeroPad('0x', 20);
+
+const proposer = new Wallet(utils.keccak256(utils.toUtf8Bytes('proposer')));
+const coOwner = new Wallet(utils.keccak256(utils.toUtf8Bytes('co-owner')));
+
+/**
+ * In-memory localStorage, where the stub keeps its proposals
+ */
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+/**
+ * Signs a Safe transaction hash the way protocol-kit's signHash does, eth_sign with 4 added to v
+ */
+async function signHash(wallet: Wallet, safeTxHash: string): Promise<string> {
+  const { r, s, v } = utils.splitSignature(await wallet.signMessage(utils.arrayify(safeTxHash)));
+  return utils.hexConcat([r, s, utils.hexlify(v + 4)]);
+}
+
+/**
+ * Proposal of a Safe transaction with the given nonce, signed by the proposer
+ */
+async function buildProposal(nonce: number): Promise<ProposeTransactionProps> {
+  const safeTxHash = utils.keccak256(utils.toUtf8Bytes(`safeTx-${nonce}`));
+  return {
+    safeAddress: SAFE.toLowerCase(),
+    safeTransactionData: {
+      to: ZERO_ADDRESS,
+      value: '0',
+      data: '0x',
+      operation: 0,
+      safeTxGas: '0',
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: ZERO_ADDRESS,
+      refundReceiver: ZERO_ADDRESS,
+      nonce,
+    },
+    safeTxHash,
+    senderAddress: proposer.address,
+    senderSignature: await signHash(proposer, safeTxHash),
+  };
+}
+
+describe('createLocalSafeService', () => {
+  beforeEach(() => {
+    globalThis.localStorage = createStorage();
+  });
+
+  it('answers getSafesByOwner from the registry of the chain', async () => {
+    registerSafe(proposer.address, 31337, SAFE);
+
+    assert.deepEqual(await createLocalSafeService(31337).getSafesByOwner(proposer.address), {
+      safes: [SAFE],
+    });
+    assert.deepEqual(await createLocalSafeService(8453).getSafesByOwner(proposer.address), {
+      safes: [],
+    });
+  });
+
+  it('stores a proposal with the proposer as first confirmation', async () => {
+    const service = createLocalSafeService(31337);
+    const proposal = await buildProposal(3);
+
+    await service.proposeTransaction(proposal);
+    const transaction = await service.getTransaction(proposal.safeTxHash);
+
+    assert.equal(transaction.safe, SAFE);
+    assert.equal(transaction.nonce, 3);
+    assert.equal(transaction.isExecuted, false);
+    assert.deepEqual(
+      transaction.confirmations?.map(({ owner }) => owner),
+      [proposer.address]
+    );
+  });
+
+  it('adds the recovered signer of a confirmation once', async () => {
+    const service = createLocalSafeService(31337);
+    const proposal = await buildProposal(3);
+    await service.proposeTransaction(proposal);
+
+    const signature = await signHash(coOwner, proposal.safeTxHash);
+    await service.confirmTransaction(proposal.safeTxHash, signature);
+    await service.confirmTransaction(proposal.safeTxHash, signature);
+
+    const { confirmations } = await service.getTransaction(proposal.safeTxHash);
+    assert.deepEqual(
+      confirmations?.map(({ owner }) => owner),
+      [proposer.address, coOwner.address]
+    );
+  });
+
+  it('recovers plain ECDSA signatures of the hash', async () => {
+    const service = createLocalSafeService(31337);
+    const proposal = await buildProposal(3);
+    await service.proposeTransaction(proposal);
+
+    const signature = utils.joinSignature(coOwner._signingKey().signDigest(proposal.safeTxHash));
+    await service.confirmTransaction(proposal.safeTxHash, signature);
+
+    const { confirmations } = await service.getTransaction(proposal.safeTxHash);
+    assert.equal(confirmations?.at(-1)?.owner, coOwner.address);
+  });
+
+  it('lists the pending transactions from the Safe nonce on', async () => {
+    const service = createLocalSafeService(31337);
+    for (const nonce of [1, 2, 3]) {
+      await service.proposeTransaction(await buildProposal(nonce));
+    }
+
+    const { count, results } = await service.getPendingTransactions(SAFE, { currentNonce: 2 });
+
+    assert.equal(count, 2);
+    assert.deepEqual(
+      results.map(({ nonce }) => nonce),
+      [2, 3]
+    );
+  });
+
+  it('rejects unknown transactions', async () => {
+    await assert.rejects(
+      createLocalSafeService(31337).getTransaction(utils.hexZeroPad('0x01', 32)),
+      /No MultisigTransaction/
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import SafeApiKit from '@safe-global/api-kit';
+import type { ProposeTransactionProps } from '@safe-global/api-kit';
+import { utils } from 'ethers';
+import { getRegisteredSafes } from './safeRegistry';
+
+/**
+ * The part of the Safe Transaction Service API the app uses to discover Safes
+ * and to collect owner signatures off-chain
+ */
+export type SafeService = Pick<
+  SafeApiKit,
+  | 'getSafesByOwner'
+  | 'proposeTransaction'
+  | 'confirmTransaction'
+  | 'getTransaction'
+  | 'getPendingTransactions'
+>;
+
+export type SafeServiceTransaction = Awaited<ReturnType<SafeService['getTransaction']>>;
+
+const STUB_KEY_PREFIX = 'safeServiceStub';
+
+/**
+ * Recovers the owner of a signature made with protocol-kit's signHash
+ * eth_sign signatures have 4 added to v to tell them apart from plain ECDSA ones
+ */
+function recoverSigner(safeTxHash: string, signature: string): string {
+  const { r, s, v } = utils.splitSignature(signature);
+  return v > 30
+    ? utils.recoverAddress(utils.hashMessage(utils.arrayify(safeTxHash)), { r, s, v: v - 4 })
+    : utils.recoverAddress(safeTxHash, { r, s, v });
+}
+
+/**
+ * Local stand-in for the Safe Transaction Service, for chains without one
+ * (such as a local anvil fork) and for tests
+ * Safes come from the registry of this browser and proposals are kept in localStorage,
+ * so co-owners can sign from the same browser by switching accounts
+ * @param chainId Chain ID
+ * @returns Service answering with locally stored data
+ */
+export function createLocalSafeService(chainId: number): SafeService {
+  const storageKey = `${STUB_KEY_PREFIX}:${chainId}`;
+
+  const readTransactions = (): SafeServiceTransaction[] =>
+    JSON.parse(localStorage.getItem(storageKey) ?? '[]');
+
+  const writeTransactions = (transactions: SafeServiceTransaction[]) =>
+    localStorage.setItem(storageKey, JSON.stringify(transactions));
+
+  const getTransaction = async (safeTxHash: string) => {
+    const transaction = readTransactions().find(tx => tx.safeTxHash === safeTxHash);
+    if (!transaction) {
+      throw new Error('No MultisigTransaction matches the given query.');
+    }
+    return transaction;
+  };
+
+  return {
+    getSafesByOwner: async ownerAddress => ({
+      safes: getRegisteredSafes(ownerAddress, chainId),
+    }),
+
+    proposeTransaction: async ({
+      safeAddress,
+      safeTransactionData,
+      safeTxHash,
+      senderAddress,
+      senderSignature,
+      origin,
+    }: ProposeTransactionProps) => {
+      const now = new Date().toISOString();
+      const transaction: SafeServiceTransaction = {
+        safe: utils.getAddress(safeAddress),
+        to: safeTransactionData.to,
+        value: safeTransactionData.value,
+        data: safeTransactionData.data,
+        operation: safeTransactionData.operation,
+        gasToken: safeTransactionData.gasToken,
+        safeTxGas: Number(safeTransactionData.safeTxGas),
+        baseGas: Number(safeTransactionData.baseGas),
+        gasPrice: safeTransactionData.gasPrice,
+        refundReceiver: safeTransactionData.refundReceiver,
+        nonce: Number(safeTransactionData.nonce),
+        executionDate: null,
+        submissionDate: now,
+        modified: now,
+        blockNumber: null,
+        transactionHash: null,
+        safeTxHash,
+        executor: null,
+        proposer: senderAddress,
+        proposedByDelegate: null,
+        isExecuted: false,
+        isSuccessful: null,
+        ethGasPrice: null,
+        maxFeePerGas: null,
+        maxPriorityFeePerGas: null,
+        gasUsed: null,
+        fee: null,
+        origin: origin ?? '',
+        // The hosted service reads the threshold from chain, the stub leaves it to the caller
+        confirmationsRequired: 0,
+        confirmations: [
+          {
+            owner: senderAddress,
+            submissionDate: now,
+            signature: senderSignature,
+            signatureType: 'ETH_SIGN',
+          },
+        ],
+        trusted: true,
+        signatures: null,
+      };
+
+      writeTransactions([
+        ...readTransactions().filter(tx => tx.safeTxHash !== safeTxHash),
+        transaction,
+      ]);
+    },
+
+    confirmTransaction: async (safeTxHash, signature) => {
+      const transaction = await getTransaction(safeTxHash);
+      const owner = recoverSigner(safeTxHash, signature);
+      const confirmations = (transaction.confirmations ?? []).filter(
+        confirmation => confirmation.owner.toLowerCase() !== owner.toLowerCase()
+      );
+
+      writeTransactions(
+        readTransactions().map(tx =>
+          tx.safeTxHash === safeTxHash
+            ? {
+                ...tx,
+                modified: new Date().toISOString(),
+                confirmations: [
+                  ...confirmations,
+                  {
+                    owner,
+                    submissionDate: new Date().toISOString(),
+                    signature,
+                    signatureType: 'ETH_SIGN',
+                  },
+                ],
+              }
+            : tx
+        )
+      );
+
+      return { signature };
+    },
+
+    getTransaction,
+
+    // Transactions below the Safe's nonce were executed or replaced
+    getPendingTransactions: async (safeAddress, options) => {
+      const results = readTransactions().filter(
+        tx =>
+          tx.safe.toLowerCase() === safeAddress.toLowerCase() &&
+          tx.nonce >= (options?.currentNonce ?? 0)
+      );
+      return { count: results.length, results };
+    },
+  };
+}
+
+/**
+ * Creates the Safe Transaction Service client for a chain
+ * @param chainId Chain ID
+ * @returns The hosted service, or the local stub when the chain has none
+ */
+export function createSafeService(chainId: number): SafeService {
+  try {
+    return new SafeApiKit({ chainId: BigInt(chainId) });
+  } catch {
+    return createLocalSafeService(chainId);
+  }
+}
@@ -0,0 +1,201 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { utils } from 'ethers';
+import type { SafeTransaction } from '@safe-global/safe-core-sdk-types';
+import { OperationType } from '@safe-global/safe-core-sdk-types';
+import { decodeRevertReason, simulateSafeTransaction } from './simulation.ts';
+import type { SimulationProvider } from './simulation.ts';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const OWNER = '0x2222222222222222222222222222222222222222';
+const TARGET = '0x3333333333333333333333333333333333333333';
+const MULTI_SEND = '0x4444444444444444444444444444444444444444';
+
+const SAFE_INTERFACE = new utils.Interface(['function getThreshold() view returns (uint256)']);
+const MULTI_SEND_INTERFACE = new utils.Interface(['function multiSend(bytes transactions)']);
+
+/**
+ * Revert data of require(condition, reason)
+ */
+function encodeError(reason: string): string {
+  return utils.hexConcat(['0x08c379a0', utils.defaultAbiCoder.encode(['string'], [reason])]);
+}
+
+/**
+ * Error shaped like the one ethers throws for a reverted eth_call
+ */
+function revertError(data: string): Error {
+  return Object.assign(new Error('call revert exception'), { error: { data } });
+}
+
+/**
+ * Safe transaction executing the call data against TARGET, batched through MultiSend when there are several
+ */
+function buildSafeTransaction(callData: string[]): SafeTransaction {
+  if (callData.length === 1) {
+    return {
+      data: { to: TARGET, value: '0', data: callData[0], operation: OperationType.Call },
+    } as unknown as SafeTransaction;
+  }
+
+  const packed = utils.hexConcat(
+    callData.map(data =>
+      utils.solidityPack(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [OperationType.Call, TARGET, 0, utils.hexDataLength(data), data]
+      )
+    )
+  );
+  return {
+    data: {
+      to: MULTI_SEND,
+      value: '0',
+      data: MULTI_SEND_INTERFACE.encodeFunctionData('multiSend', [packed]),
+      operation: OperationType.DelegateCall,
+      safeTxGas: '0',
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: utils.hexZeroPad('0x', 20),
+      refundReceiver: utils.hexZeroPad('0x', 20),
+    },
+  } as unknown as SafeTransaction;
+}
+
+/**
+ * Provider answering getThreshold, reverting execTransaction when any inner call reverts
+ * @param threshold - Threshold of the stubbed Safe
+ * @param reverts - Revert data keyed by the inner call data that reverts with it
+ * @returns The provider and the transactions it was called with
+ */
+function stubProvider(threshold: number, reverts: Record<string, string> = {}) {
+  const calls: Parameters<SimulationProvider['call']>[0][] = [];
+  const provider: SimulationProvider = {
+    call: async transaction => {
+      calls.push(transaction);
+      const data = String(transaction.data);
+
+      if (data === SAFE_INTERFACE.encodeFunctionData('getThreshold')) {
+        return SAFE_INTERFACE.encodeFunctionResult('getThreshold', [threshold]);
+      }
+      if (transaction.to === SAFE) {
+        const failing = Object.keys(reverts).some(callData => data.includes(callData.slice(2)));
+        if (failing) throw revertError(encodeError('GS013'));
+        return '0x';
+      }
+      if (reverts[data]) throw revertError(reverts[data]);
+      return '0x';
+    },
+  };
+  return { provider, calls };
+}
+
+describe('decodeRevertReason', () => {
+  it('decodes the message of Error(string)', () => {
+    assert.equal(decodeRevertReason(encodeError('No active strategy')), 'No active strategy');
+  });
+
+  it('translates Safe error codes', () => {
+    assert.equal(
+      decodeRevertReason(encodeError('GS013')),
+      'One of the calls in the Safe transaction reverted'
+    );
+  });
+
+  it('shows the raw data of a custom error', () => {
+    // OwnableUnauthorizedAccount(address)
+    const data = utils.hexConcat(['0x118cdaa7', utils.hexZeroPad(OWNER, 32)]);
+    assert.equal(decodeRevertReason(data), `Transaction reverted with data ${data}`);
+  });
+
+  it('reports a revert without data', () => {
+    assert.equal(decodeRevertReason('0x'), 'Transaction reverted without a reason');
+    assert.equal(decodeRevertReason(null), 'Transaction reverted without a reason');
+  });
+});
+
+describe('simulateSafeTransaction', () => {
+  it('calls a single transaction directly from the Safe', async () => {
+    const { provider, calls } = stubProvider(1);
+
+    const result = await simulateSafeTransaction(
+      provider,
+      SAFE,
+      OWNER,
+      buildSafeTransaction(['0xaaaaaaaa'])
+    );
+
+    assert.deepEqual(result, { simulated: true, success: true });
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].from, SAFE);
+    assert.equal(calls[0].to, TARGET);
+  });
+
+  it('returns the reason of a reverting single transaction', async () => {
+    const { provider } = stubProvider(1, { '0xaaaaaaaa': encodeError('No active strategy') });
+
+    const result = await simulateSafeTransaction(
+      provider,
+      SAFE,
+      OWNER,
+      buildSafeTransaction(['0xaaaaaaaa'])
+    );
+
+    assert.deepEqual(result, {
+      simulated: true,
+      success: false,
+      revertReason: 'No active strategy',
+      failedCallIndex: 0,
+    });
+  });
+
+  it('runs a batch through execTransaction from the owner', async () => {
+    const { provider, calls } = stubProvider(1);
+
+    const result = await simulateSafeTransaction(
+      provider,
+      SAFE,
+      OWNER,
+      buildSafeTransaction(['0xaaaaaaaa', '0xbbbbbbbb'])
+    );
+
+    assert.deepEqual(result, { simulated: true, success: true });
+    const execution = calls.find(call => call.to === SAFE && call.from === OWNER);
+    assert.ok(execution);
+  });
+
+  it('finds the inner call a reverting batch failed on', async () => {
+    const { provider } = stubProvider(1, { '0xbbbbbbbb': encodeError('LTV must be <= 75%') });
+
+    const result = await simulateSafeTransaction(
+      provider,
+      SAFE,
+      OWNER,
+      buildSafeTransaction(['0xaaaaaaaa', '0xbbbbbbbb'])
+    );
+
+    assert.deepEqual(result, {
+      simulated: true,
+      success: false,
+      revertReason: 'LTV must be <= 75%',
+      failedCallIndex: 1,
+    });
+  });
+
+  it('does not report a batch of a multi-owner Safe as simulated', async () => {
+    const { provider, calls } = stubProvider(2, {
+      '0xbbbbbbbb': encodeError('LTV must be <= 75%'),
+    });
+
+    const result = await simulateSafeTransaction(
+      provider,
+      SAFE,
+      OWNER,
+      buildSafeTransaction(['0xaaaaaaaa', '0xbbbbbbbb'])
+    );
+
+    assert.equal(result.simulated, false);
+    assert.equal(result.success, false);
+    assert.match(result.skipReason ?? '', /threshold of 2/);
+    assert.equal(calls.length, 1);
+  });
+});
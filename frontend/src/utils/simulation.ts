@@ -0,0 +1,207 @@
+import { utils } from 'ethers';
+import type { providers } from 'ethers';
+import type { SafeTransaction } from '@safe-global/safe-core-sdk-types';
+import { OperationType } from '@safe-global/safe-core-sdk-types';
+import { getInnerTransactions } from './safeBatch';
+
+// Only eth_call is needed, so a local anvil fork or a stub object can stand in for the wallet provider
+export type SimulationProvider = Pick<providers.Provider, 'call'>;
+
+/**
+ * Outcome of simulating a Safe transaction with eth_call
+ */
+export interface SimulationResult {
+  // False when the transaction could not be simulated, success then says nothing about it
+  simulated: boolean;
+  success: boolean;
+  // Why the transaction was not simulated
+  skipReason?: string;
+  revertReason?: string;
+  // Index of the inner call that reverted, when it could be pinpointed
+  failedCallIndex?: number;
+}
+
+const SAFE_INTERFACE = new utils.Interface([
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)',
+  'function getThreshold() view returns (uint256)',
+]);
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string), emitted by require(condition, "reason")
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256), emitted by failed asserts and overflows
+
+// Safe contract error codes that can show up when execTransaction itself rejects the call
+const SAFE_ERROR_CODES: Record<string, string> = {
+  GS013: 'One of the calls in the Safe transaction reverted',
+  GS020: 'Not enough signatures for the Safe threshold',
+  GS025: 'Signer is not an owner of the Safe',
+  GS026: 'Signer is not an owner of the Safe',
+};
+
+/**
+ * Finds the raw revert data in the nested error objects thrown by ethers and wallet providers
+ * @param error The error thrown by provider.call
+ * @returns Hex encoded revert data, or null when the error carries none
+ */
+function extractRevertData(error: unknown): string | null {
+  const queue: unknown[] = [error];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current || typeof current !== 'object') continue;
+
+    const {
+      data,
+      error: inner,
+      body,
+    } = current as {
+      data?: unknown;
+      error?: unknown;
+      body?: unknown;
+    };
+
+    if (typeof data === 'string' && utils.isHexString(data)) return data;
+    if (data && typeof data === 'object') queue.push(data);
+    if (inner) queue.push(inner);
+    if (typeof body === 'string') {
+      try {
+        queue.push(JSON.parse(body));
+      } catch {
+        // Not a JSON-RPC response body
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decodes revert data into a readable reason
+ * @param revertData Hex encoded revert data returned by the node
+ * @returns The require message of LeveragedLPManager / FeeCollectHook, or a generic description
+ */
+export function decodeRevertReason(revertData: string | null): string {
+  if (!revertData || revertData === '0x') {
+    return 'Transaction reverted without a reason';
+  }
+
+  try {
+    if (revertData.startsWith(ERROR_SELECTOR)) {
+      const [reason] = utils.defaultAbiCoder.decode(['string'], `0x${revertData.slice(10)}`);
+      return SAFE_ERROR_CODES[reason] ?? reason;
+    }
+    if (revertData.startsWith(PANIC_SELECTOR)) {
+      const [code] = utils.defaultAbiCoder.decode(['uint256'], `0x${revertData.slice(10)}`);
+      return `Panic (code 0x${code.toNumber().toString(16)})`;
+    }
+  } catch (error) {
+    console.warn('Could not decode revert data:', error);
+  }
+
+  return `Transaction reverted with data ${revertData}`;
+}
+
+/**
+ * Runs a single eth_call and reports whether it reverted
+ */
+async function simulateCall(
+  provider: SimulationProvider,
+  transaction: providers.TransactionRequest
+): Promise<SimulationResult> {
+  try {
+    await provider.call(transaction);
+    return { simulated: true, success: true };
+  } catch (error) {
+    return {
+      simulated: true,
+      success: false,
+      revertReason: decodeRevertReason(extractRevertData(error)),
+    };
+  }
+}
+
+/**
+ * Builds a pre-validated signature for an owner
+ * The Safe accepts it without an ECDSA signature when msg.sender is that owner
+ */
+function buildPrevalidatedSignature(owner: string): string {
+  return utils.hexConcat([utils.hexZeroPad(owner, 32), utils.hexZeroPad('0x', 32), '0x01']);
+}
+
+/**
+ * Simulates a Safe transaction with eth_call before it is signed
+ * A single call is simulated directly from the Safe so the contract's require message comes back.
+ * Batches are simulated through execTransaction, which keeps the state changes of earlier calls,
+ * and on failure each inner call is replayed from the Safe to find the revert reason.
+ * Batches of Safes that need more than one signature are not simulated, the result says so.
+ * @param provider - Provider used for eth_call
+ * @param safeAddress - Address of the Safe executing the transaction
+ * @param owner - Owner that will execute the transaction
+ * @param safeTransaction - Unsigned Safe transaction
+ * @returns Whether the transaction would succeed, with the decoded revert reason if not,
+ * or why it was not simulated
+ */
+export async function simulateSafeTransaction(
+  provider: SimulationProvider,
+  safeAddress: string,
+  owner: string,
+  safeTransaction: SafeTransaction
+): Promise<SimulationResult> {
+  const innerTransactions = getInnerTransactions(safeTransaction);
+  const replayInnerCall = (index: number) =>
+    simulateCall(provider, {
+      from: safeAddress,
+      to: innerTransactions[index].to,
+      value: innerTransactions[index].value,
+      data: innerTransactions[index].data,
+    });
+
+  if (safeTransaction.data.operation === OperationType.Call) {
+    const result = await replayInnerCall(0);
+    return result.success ? result : { ...result, failedCallIndex: 0 };
+  }
+
+  const [threshold] = SAFE_INTERFACE.decodeFunctionResult(
+    'getThreshold',
+    await provider.call({
+      to: safeAddress,
+      data: SAFE_INTERFACE.encodeFunctionData('getThreshold'),
+    })
+  );
+  if (threshold.gt(1)) {
+    // Only one pre-validated signature can be produced from a single eth_call sender
+    return {
+      simulated: false,
+      success: false,
+      skipReason: `Batches of a Safe with a threshold of ${threshold.toString()} cannot be simulated before the co-owners sign`,
+    };
+  }
+
+  const { data } = safeTransaction;
+  const batchResult = await simulateCall(provider, {
+    from: owner,
+    to: safeAddress,
+    data: SAFE_INTERFACE.encodeFunctionData('execTransaction', [
+      data.to,
+      data.value,
+      data.data,
+      data.operation,
+      data.safeTxGas,
+      data.baseGas,
+      data.gasPrice,
+      data.gasToken,
+      data.refundReceiver,
+      buildPrevalidatedSignature(owner),
+    ]),
+  });
+  if (batchResult.success) return batchResult;
+
+  // The Safe only reports GS013 for a failed batch, so look for the call that carries the reason.
+  // Replayed calls do not see state changes of earlier calls in the batch, so a later call may revert
+  // only because of a missing approval; the first revert is the best available explanation.
+  for (let index = 0; index < innerTransactions.length; index++) {
+    const result = await replayInnerCall(index);
+    if (!result.success) return { ...result, failedCallIndex: index };
+  }
+
+  return batchResult;
+}
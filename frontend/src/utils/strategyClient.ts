@@ -0,0 +1,663 @@
+import { encodeFunctionData, isAddressEqual, parseAbi, parseUnits, zeroAddress } from 'viem';
+import type { Address, Hex, PublicClient } from 'viem';
+import { ABIs } from '../abis';
+import type { ContractAddresses } from '../constants/contractAddresses';
+import type {
+  ClaimableFees,
+  GrantedApproval,
+  StrategyParams,
+  StrategyStatus,
+  UserPosition,
+} from '../types';
+import type { AaveAccountData } from './health';
+import { getLpAmounts } from './analytics';
+import type { LpPosition } from './analytics';
+import type { PositionBalances } from './positionAdjustments';
+import type { StrategyReserves } from './strategySimulator';
+import type { StrategyPrerequisites } from './strategySteps';
+
+const erc20Abi = parseAbi(ABIs.ERC20);
+const positionManagerAbi = parseAbi(ABIs.PositionManager);
+const aaveDataProviderAbi = parseAbi(ABIs.AaveDataProvider);
+const aavePoolAbi = parseAbi(ABIs.AavePool);
+const aaveDebtTokenAbi = parseAbi(ABIs.AaveDebtToken);
+
+// FeeCollectHook sweeps fees on every 10th trade of a position
+const FEE_COLLECTION_INTERVAL = 10n;
+
+/**
+ * Typed reads and call encoders for the LeveragedLPManager and its related contracts
+ * Argument and return shapes are checked against the generated ABIs at compile time
+ * @param publicClient - viem client used for reads
+ * @param addresses - Deployment addresses for the connected chain
+ * @returns The strategy client
+ */
+export function createStrategyClient(publicClient: PublicClient, addresses: ContractAddresses) {
+  const manager = {
+    address: addresses.leveragedLPManager,
+    abi: ABIs.LeveragedLPManager,
+  } as const;
+
+  /**
+   * Get the Uniswap position manager and fee hook the LeveragedLPManager was deployed with
+   * They are read from the manager so an outdated address in the manifest cannot be used
+   */
+  const readLpContracts = async () => {
+    const [positionManager, feeHook] = await Promise.all([
+      publicClient.readContract({ ...manager, functionName: 'positionManager' }),
+      publicClient.readContract({ ...manager, functionName: 'feeHook' }),
+    ]);
+
+    return { positionManager, feeHook };
+  };
+
+  /**
+   * Read a Safe's position together with its Aave collateral and debt
+   * @param safe - Address of the Safe
+   * @returns The position, with zero amounts when no strategy is active
+   */
+  const readPosition = async (safe: Address): Promise<UserPosition> => {
+    const [[positionSafe, lpTokenId], wethReserve, usdcReserve] = await Promise.all([
+      publicClient.readContract({ ...manager, functionName: 'userPositions', args: [safe] }),
+      publicClient.readContract({
+        address: addresses.aaveDataProvider,
+        abi: aaveDataProviderAbi,
+        functionName: 'getUserReserveData',
+        args: [addresses.weth, safe],
+      }),
+      publicClient.readContract({
+        address: addresses.aaveDataProvider,
+        abi: aaveDataProviderAbi,
+        functionName: 'getUserReserveData',
+        args: [addresses.usdc, safe],
+      }),
+    ]);
+
+    return {
+      safe: positionSafe,
+      lpTokenId,
+      ethSupplied: wethReserve[0], // currentATokenBalance
+      usdcBorrowed: usdcReserve[2], // currentVariableDebt
+      // The manager deletes the entry on exit, as in getUserPosition
+      isActive: !isAddressEqual(positionSafe, zeroAddress),
+    };
+  };
+
+  /**
+   * Read a Safe's Aave account data
+   * @param safe - Address of the Safe
+   * @returns Collateral, debt and health factor in the Aave base currency
+   */
+  const readAccountData = async (safe: Address): Promise<AaveAccountData> => {
+    const [
+      totalCollateralBase,
+      totalDebtBase,
+      availableBorrowsBase,
+      currentLiquidationThreshold,
+      ltv,
+      healthFactor,
+    ] = await publicClient.readContract({
+      address: addresses.aavePool,
+      abi: aavePoolAbi,
+      functionName: 'getUserAccountData',
+      args: [safe],
+    });
+
+    return {
+      totalCollateralBase,
+      totalDebtBase,
+      availableBorrowsBase,
+      currentLiquidationThreshold,
+      ltv,
+      healthFactor,
+    };
+  };
+
+  /**
+   * Read the range, liquidity and pool tick of an LP position
+   * @param lpTokenId - Uniswap V4 position token ID
+   * @returns The LP position
+   */
+  const readLpPosition = async (lpTokenId: bigint): Promise<LpPosition> => {
+    const { positionManager } = await readLpContracts();
+    const [token0, token1, , tickLower, tickUpper, tickCurrent, , , liquidity] =
+      await publicClient.readContract({
+        address: positionManager,
+        abi: positionManagerAbi,
+        functionName: 'positions',
+        args: [lpTokenId],
+      });
+
+    return { token0, token1, tickLower, tickUpper, tickCurrent, liquidity };
+  };
+
+  /**
+   * Read the fees an LP position has accrued but not yet collected
+   * These are the amounts as last settled by the position manager, fees accrued since then are not included
+   * @param lpTokenId - Uniswap V4 position token ID
+   * @returns The claimable USDC and ETH
+   */
+  const readClaimableFees = async (lpTokenId: bigint): Promise<ClaimableFees> => {
+    const { positionManager } = await readLpContracts();
+    const [token0, , , , , , , , , , , tokensOwed0, tokensOwed1] = await publicClient.readContract({
+      address: positionManager,
+      abi: positionManagerAbi,
+      functionName: 'positions',
+      args: [lpTokenId],
+    });
+    const usdcIsToken0 = isAddressEqual(token0, addresses.usdc);
+
+    return {
+      usdc: usdcIsToken0 ? tokensOwed0 : tokensOwed1,
+      eth: usdcIsToken0 ? tokensOwed1 : tokensOwed0,
+    };
+  };
+
+  /**
+   * Read the collateral, debt and LP token amounts a change to the position is previewed with
+   * @param safe - Address of the Safe, which must have an active strategy
+   * @param usdcPerEth - ETH price in USDC units (6 decimals)
+   * @returns The position's balances
+   */
+  const readPositionBalances = async (
+    safe: Address,
+    usdcPerEth: bigint
+  ): Promise<PositionBalances> => {
+    const [position, accountData, poolFee] = await Promise.all([
+      readPosition(safe),
+      readAccountData(safe),
+      publicClient.readContract({ ...manager, functionName: 'poolFee' }),
+    ]);
+    if (!position.isActive) {
+      throw new Error('No active strategy');
+    }
+
+    const lpAmounts = getLpAmounts(await readLpPosition(position.lpTokenId), addresses.weth);
+
+    return {
+      ethSupplied: position.ethSupplied,
+      usdcBorrowed: position.usdcBorrowed,
+      lpEth: parseUnits(lpAmounts.eth.toFixed(18), 18),
+      lpUsdc: parseUnits(lpAmounts.usdc.toFixed(6), 6),
+      usdcPerEth,
+      liquidationThresholdBps: Number(accountData.currentLiquidationThreshold),
+      poolFee,
+    };
+  };
+
+  /**
+   * Read the current variable borrow rate of the USDC reserve
+   * @returns The rate in ray (27 decimals)
+   */
+  const readUsdcBorrowRate = async (): Promise<bigint> => {
+    const reserveData = await publicClient.readContract({
+      address: addresses.aavePool,
+      abi: aavePoolAbi,
+      functionName: 'getReserveData',
+      args: [addresses.usdc],
+    });
+
+    return reserveData[4]; // currentVariableBorrowRate
+  };
+
+  /**
+   * Read the manager's fees and the Aave reserve data a new strategy is simulated with
+   * @returns Pool fee, protocol fee, WETH liquidation threshold and USDC borrow rate
+   */
+  const readStrategyReserves = async (): Promise<StrategyReserves> => {
+    const [poolFee, protocolFeeBps, wethConfiguration, usdcBorrowRate] = await Promise.all([
+      publicClient.readContract({ ...manager, functionName: 'poolFee' }),
+      publicClient.readContract({ ...manager, functionName: 'protocolFeeBps' }),
+      publicClient.readContract({
+        address: addresses.aaveDataProvider,
+        abi: aaveDataProviderAbi,
+        functionName: 'getReserveConfigurationData',
+        args: [addresses.weth],
+      }),
+      readUsdcBorrowRate(),
+    ]);
+
+    return {
+      poolFee,
+      protocolFeeBps,
+      liquidationThresholdBps: Number(wethConfiguration[2]), // liquidationThreshold
+      usdcBorrowRate,
+    };
+  };
+
+  /**
+   * Read the balances, allowances and credit delegation a Safe needs before startStrategy
+   * @param safe - Address of the Safe
+   * @returns Chain state the setup steps are checked against
+   */
+  const readStrategyPrerequisites = async (safe: Address): Promise<StrategyPrerequisites> => {
+    const [, , variableDebtToken] = await publicClient.readContract({
+      address: addresses.aaveDataProvider,
+      abi: aaveDataProviderAbi,
+      functionName: 'getReserveTokensAddresses',
+      args: [addresses.usdc],
+    });
+
+    const [
+      safeEthBalance,
+      safeWethBalance,
+      wethAllowance,
+      usdcAllowance,
+      borrowAllowance,
+      [positionSafe],
+    ] = await Promise.all([
+      publicClient.getBalance({ address: safe }),
+      publicClient.readContract({
+        address: addresses.weth,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [safe],
+      }),
+      publicClient.readContract({
+        address: addresses.weth,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [safe, manager.address],
+      }),
+      publicClient.readContract({
+        address: addresses.usdc,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [safe, manager.address],
+      }),
+      publicClient.readContract({
+        address: variableDebtToken,
+        abi: aaveDebtTokenAbi,
+        functionName: 'borrowAllowance',
+        args: [safe, manager.address],
+      }),
+      publicClient.readContract({ ...manager, functionName: 'userPositions', args: [safe] }),
+    ]);
+
+    return {
+      safeEthBalance,
+      safeWethBalance,
+      wethAllowance,
+      usdcAllowance,
+      borrowAllowance,
+      isActive: !isAddressEqual(positionSafe, zeroAddress),
+    };
+  };
+
+  /**
+   * Read a Safe's position together with its token and LP NFT approvals
+   * @param safe - Address of the Safe
+   * @returns Current strategy status
+   */
+  const readStrategyStatus = async (safe: Address): Promise<StrategyStatus> => {
+    const [position, accountData, wethAllowance, usdcAllowance] = await Promise.all([
+      readPosition(safe),
+      readAccountData(safe),
+      publicClient.readContract({
+        address: addresses.weth,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [safe, manager.address],
+      }),
+      publicClient.readContract({
+        address: addresses.usdc,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [safe, manager.address],
+      }),
+    ]);
+
+    const status: StrategyStatus = {
+      isActive: position.isActive,
+      ethSupplied: position.ethSupplied,
+      usdcBorrowed: position.usdcBorrowed,
+      lpTokenId: position.isActive ? position.lpTokenId : null,
+      tradesSinceLastCollection: 0,
+      // Aave reports type(uint256).max without debt, which is left undefined here
+      healthFactor:
+        accountData.totalDebtBase > 0n ? Number(accountData.healthFactor) / 1e18 : undefined,
+      approvals: {
+        managerApprovedForTokens: wethAllowance > 0n && usdcAllowance > 0n,
+        hookApprovedForNFT: false,
+        managerApprovedForNFT: false,
+      },
+    };
+
+    if (!position.isActive) return status;
+
+    const { positionManager, feeHook } = await readLpContracts();
+    const [approved, managerApprovedForAll, hookApprovedForAll, tradeCount] = await Promise.all([
+      publicClient.readContract({
+        address: positionManager,
+        abi: positionManagerAbi,
+        functionName: 'getApproved',
+        args: [position.lpTokenId],
+      }),
+      publicClient.readContract({
+        address: positionManager,
+        abi: positionManagerAbi,
+        functionName: 'isApprovedForAll',
+        args: [safe, manager.address],
+      }),
+      publicClient.readContract({
+        address: positionManager,
+        abi: positionManagerAbi,
+        functionName: 'isApprovedForAll',
+        args: [safe, feeHook],
+      }),
+      publicClient.readContract({
+        address: feeHook,
+        abi: ABIs.FeeCollectHook,
+        functionName: 'tradeCounts',
+        args: [position.lpTokenId],
+      }),
+    ]);
+
+    status.tradesSinceLastCollection = Number(tradeCount % FEE_COLLECTION_INTERVAL);
+    status.approvals.managerApprovedForNFT =
+      managerApprovedForAll || isAddressEqual(approved, manager.address);
+    status.approvals.hookApprovedForNFT = hookApprovedForAll || isAddressEqual(approved, feeHook);
+
+    return status;
+  };
+
+  /**
+   * Read every allowance, credit delegation and LP NFT approval a Safe granted to the
+   * LeveragedLPManager or the FeeCollectHook
+   * @param safe - Address of the Safe
+   * @returns The approvals that are still in effect
+   */
+  const readApprovals = async (safe: Address): Promise<GrantedApproval[]> => {
+    const [[, , variableDebtToken], { positionManager, feeHook }, position] = await Promise.all([
+      publicClient.readContract({
+        address: addresses.aaveDataProvider,
+        abi: aaveDataProviderAbi,
+        functionName: 'getReserveTokensAddresses',
+        args: [addresses.usdc],
+      }),
+      readLpContracts(),
+      readPosition(safe),
+    ]);
+
+    const spenders = [
+      { spender: manager.address, spenderName: 'LeveragedLPManager' },
+      { spender: feeHook, spenderName: 'FeeCollectHook' },
+    ];
+    const tokens = [
+      { token: addresses.weth, tokenName: 'WETH' },
+      { token: addresses.usdc, tokenName: 'USDC' },
+    ];
+
+    const [allowances, delegations, operators, approvedForToken] = await Promise.all([
+      Promise.all(
+        spenders.flatMap(spender =>
+          tokens.map(async token => ({
+            ...token,
+            ...spender,
+            amount: await publicClient.readContract({
+              address: token.token,
+              abi: erc20Abi,
+              functionName: 'allowance',
+              args: [safe, spender.spender],
+            }),
+          }))
+        )
+      ),
+      Promise.all(
+        spenders.map(async spender => ({
+          ...spender,
+          amount: await publicClient.readContract({
+            address: variableDebtToken,
+            abi: aaveDebtTokenAbi,
+            functionName: 'borrowAllowance',
+            args: [safe, spender.spender],
+          }),
+        }))
+      ),
+      Promise.all(
+        spenders.map(async spender => ({
+          ...spender,
+          isApproved: await publicClient.readContract({
+            address: positionManager,
+            abi: positionManagerAbi,
+            functionName: 'isApprovedForAll',
+            args: [safe, spender.spender],
+          }),
+        }))
+      ),
+      // Single-token approvals only matter while the Safe holds the LP NFT
+      position.isActive
+        ? publicClient.readContract({
+            address: positionManager,
+            abi: positionManagerAbi,
+            functionName: 'getApproved',
+            args: [position.lpTokenId],
+          })
+        : zeroAddress,
+    ]);
+
+    const approvals: GrantedApproval[] = [
+      ...allowances
+        .filter(({ amount }) => amount > 0n)
+        .map(allowance => ({ kind: 'allowance' as const, ...allowance })),
+      ...delegations
+        .filter(({ amount }) => amount > 0n)
+        .map(delegation => ({
+          kind: 'creditDelegation' as const,
+          token: variableDebtToken,
+          tokenName: 'Aave variable debt USDC',
+          ...delegation,
+        })),
+      ...operators
+        .filter(({ isApproved }) => isApproved)
+        .map(({ spender, spenderName }) => ({
+          kind: 'nftOperator' as const,
+          token: positionManager,
+          tokenName: 'Uniswap V4 positions',
+          spender,
+          spenderName,
+        })),
+    ];
+
+    const tokenSpender = spenders.find(({ spender }) => isAddressEqual(spender, approvedForToken));
+    if (tokenSpender) {
+      approvals.push({
+        kind: 'nftToken',
+        token: positionManager,
+        tokenName: 'Uniswap V4 positions',
+        ...tokenSpender,
+        tokenId: position.lpTokenId,
+      });
+    }
+
+    return approvals;
+  };
+
+  /**
+   * Encode the call that withdraws an approval
+   * @param approval - Approval read with readApprovals
+   * @returns Transaction to send from the Safe
+   */
+  const encodeRevocation = (approval: GrantedApproval): { to: Address; data: Hex } => {
+    switch (approval.kind) {
+      case 'allowance':
+        return {
+          to: approval.token,
+          data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: 'approve',
+            args: [approval.spender, 0n],
+          }),
+        };
+      case 'creditDelegation':
+        return {
+          to: approval.token,
+          data: encodeFunctionData({
+            abi: aaveDebtTokenAbi,
+            functionName: 'approveDelegation',
+            args: [approval.spender, 0n],
+          }),
+        };
+      case 'nftOperator':
+        return {
+          to: approval.token,
+          data: encodeFunctionData({
+            abi: positionManagerAbi,
+            functionName: 'setApprovalForAll',
+            args: [approval.spender, false],
+          }),
+        };
+      case 'nftToken':
+        if (approval.tokenId === undefined) throw new Error('LP NFT approval without a token ID');
+        return {
+          to: approval.token,
+          data: encodeFunctionData({
+            abi: positionManagerAbi,
+            functionName: 'approve',
+            args: [zeroAddress, approval.tokenId],
+          }),
+        };
+    }
+  };
+
+  /**
+   * Encode LeveragedLPManager.startStrategy for a Safe
+   * @param safe - Address of the Safe
+   * @param params - Strategy parameters entered by the user
+   * @returns Call data
+   */
+  const encodeStartStrategy = (safe: Address, params: StrategyParams): Hex =>
+    encodeFunctionData({
+      abi: manager.abi,
+      functionName: 'startStrategy',
+      args: [safe, params.ethAmount, BigInt(params.ltv), params.slippageBps],
+    });
+
+  /**
+   * Encode LeveragedLPManager.increasePosition for a Safe
+   * @param safe - Address of the Safe
+   * @param params - ETH to add, the LTV to borrow at against it and the slippage
+   * @returns Call data
+   */
+  const encodeIncreasePosition = (safe: Address, params: StrategyParams): Hex =>
+    encodeFunctionData({
+      abi: manager.abi,
+      functionName: 'increasePosition',
+      args: [safe, params.ethAmount, BigInt(params.ltv), params.slippageBps],
+    });
+
+  /**
+   * Encode LeveragedLPManager.exitStrategy for a Safe
+   * @param safe - Address of the Safe
+   * @param swapEthForDebt - Whether the manager may swap ETH for USDC to repay remaining debt
+   * @returns Call data
+   */
+  const encodeExit = (safe: Address, swapEthForDebt: boolean): Hex =>
+    encodeFunctionData({
+      abi: manager.abi,
+      functionName: 'exitStrategy',
+      args: [safe, swapEthForDebt],
+    });
+
+  /**
+   * Encode LeveragedLPManager.reducePosition for a Safe
+   * @param safe - Address of the Safe
+   * @param percentage - Share of the position to remove, 1 to 99
+   * @param swapEthForDebt - Whether the manager may swap removed ETH for USDC to repay the debt share
+   * @param slippageBps - Slippage tolerance of that swap in basis points
+   * @returns Call data
+   */
+  const encodeReducePosition = (
+    safe: Address,
+    percentage: number,
+    swapEthForDebt: boolean,
+    slippageBps: number
+  ): Hex =>
+    encodeFunctionData({
+      abi: manager.abi,
+      functionName: 'reducePosition',
+      args: [safe, BigInt(percentage), swapEthForDebt, slippageBps],
+    });
+
+  /**
+   * Encode LeveragedLPManager.rebalancePosition for a Safe
+   * @param safe - Address of the Safe
+   * @param targetLtv - Loan-to-value to return to, in percent
+   * @param lpPercentage - Share of the liquidity to pull when repaying, 0 when borrowing
+   * @param slippageBps - Slippage tolerance in basis points
+   * @returns Call data
+   */
+  const encodeRebalancePosition = (
+    safe: Address,
+    targetLtv: number,
+    lpPercentage: number,
+    slippageBps: number
+  ): Hex =>
+    encodeFunctionData({
+      abi: manager.abi,
+      functionName: 'rebalancePosition',
+      args: [safe, BigInt(targetLtv), BigInt(lpPercentage), slippageBps],
+    });
+
+  /**
+   * Encode the LP NFT approval the manager needs to unwind a position
+   * @param lpTokenId - Uniswap V4 position token ID
+   * @returns Call data for the position manager
+   */
+  const encodeLpApproval = (lpTokenId: bigint): Hex =>
+    encodeFunctionData({
+      abi: positionManagerAbi,
+      functionName: 'approve',
+      args: [manager.address, lpTokenId],
+    });
+
+  /**
+   * Encode FeeCollectHook.collectFees, which sweeps a position's fees into repaying and supplying
+   * @param lpTokenId - Uniswap V4 position token ID
+   * @returns Call data for the fee hook
+   */
+  const encodeCollectFees = (lpTokenId: bigint): Hex =>
+    encodeFunctionData({
+      abi: ABIs.FeeCollectHook,
+      functionName: 'collectFees',
+      args: [lpTokenId],
+    });
+
+  /**
+   * Encode the LP NFT operator approval the fee hook needs to collect fees
+   * An operator approval is used because the token's single approval slot belongs to the manager
+   * @param feeHook - Address of the fee hook
+   * @returns Call data for the position manager
+   */
+  const encodeHookApproval = (feeHook: Address): Hex =>
+    encodeFunctionData({
+      abi: positionManagerAbi,
+      functionName: 'setApprovalForAll',
+      args: [feeHook, true],
+    });
+
+  return {
+    readLpContracts,
+    readPosition,
+    readAccountData,
+    readLpPosition,
+    readClaimableFees,
+    readPositionBalances,
+    readUsdcBorrowRate,
+    readStrategyReserves,
+    readStrategyPrerequisites,
+    readStrategyStatus,
+    readApprovals,
+    encodeStartStrategy,
+    encodeIncreasePosition,
+    encodeExit,
+    encodeReducePosition,
+    encodeRebalancePosition,
+    encodeLpApproval,
+    encodeHookApproval,
+    encodeCollectFees,
+    encodeRevocation,
+  };
+}
+
+export type StrategyClient = ReturnType<typeof createStrategyClient>;
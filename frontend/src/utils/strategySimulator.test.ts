@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { simulateStartStrategy } from './strategySimulator.ts';
+import type { StrategyReserves } from './strategySimulator.ts';
+
+const ETHER = 10n ** 18n;
+const USDC = 10n ** 6n;
+
+const reserves: StrategyReserves = {
+  poolFee: 3000,
+  protocolFeeBps: 0,
+  liquidationThresholdBps: 8300,
+  usdcBorrowRate: 5n * 10n ** 25n, // 5%
+};
+
+describe('simulateStartStrategy', () => {
+  it('matches the amounts expected by LeveragedLPManager.t.sol', () => {
+    // ETH_AMOUNT = 1 ether, LTV = 50, SLIPPAGE_BPS = 50 and USDC_BORROW_AMOUNT = ETH_AMOUNT * LTV / 100,
+    // which is the contract's borrow when the feed values 1 ETH at 1e18 USDC units
+    const simulation = simulateStartStrategy(
+      { ethAmount: ETHER, ltv: 50, slippageBps: 50 },
+      ETHER,
+      reserves
+    );
+
+    assert.equal(simulation.ethSupplied, ETHER);
+    assert.equal(simulation.usdcBorrowed, (ETHER * 50n) / 100n);
+    assert.equal(simulation.usdcForLp + simulation.usdcToSwap, simulation.usdcBorrowed);
+  });
+
+  it('splits the borrowed USDC between the swap and the LP', () => {
+    const simulation = simulateStartStrategy(
+      { ethAmount: ETHER, ltv: 30, slippageBps: 50 },
+      2000n * USDC,
+      reserves
+    );
+
+    assert.equal(simulation.usdcBorrowed, 600n * USDC);
+    assert.equal(simulation.usdcForLp, 300n * USDC);
+    assert.equal(simulation.usdcToSwap, 300n * USDC);
+    assert.equal(simulation.swapFeeUsdc, 900_000n);
+    // 0.15 ETH quoted, 0.3% pool fee, 0.5% slippage on the quote
+    assert.equal(simulation.ethFromSwap, 149_550_000_000_000_000n);
+    assert.equal(simulation.minEthFromSwap, 149_250_000_000_000_000n);
+    assert.deepEqual(simulation.warnings, []);
+  });
+
+  it('mints with the swapped ETH and refunds the unused USDC', () => {
+    const simulation = simulateStartStrategy(
+      { ethAmount: ETHER, ltv: 30, slippageBps: 50 },
+      2000n * USDC,
+      reserves
+    );
+
+    assert.equal(simulation.lpEth, simulation.ethFromSwap);
+    assert.equal(simulation.lpUsdc, 299_100_000n);
+    assert.equal(simulation.refundUsdc, 900_000n);
+    assert.equal(simulation.refundEth, 0n);
+  });
+
+  it('computes the starting health factor and liquidation price', () => {
+    const simulation = simulateStartStrategy(
+      { ethAmount: ETHER, ltv: 30, slippageBps: 50 },
+      2000n * USDC,
+      reserves
+    );
+
+    // $2,000 collateral at an 83% liquidation threshold against $600 debt
+    assert.ok(Math.abs(simulation.healthFactor - (2000 * 0.83) / 600) < 1e-9);
+    assert.equal(simulation.liquidationEthPrice, 722_891_566n);
+    assert.equal(simulation.annualInterestUsdc, 30n * USDC);
+  });
+
+  it('warns when the slippage tolerance is below the pool fee', () => {
+    const simulation = simulateStartStrategy(
+      { ethAmount: ETHER, ltv: 30, slippageBps: 10 },
+      2000n * USDC,
+      reserves
+    );
+
+    assert.equal(simulation.warnings.length, 2);
+    assert.match(simulation.warnings[0], /swap would revert/);
+  });
+
+  it('takes the protocol fee from the LP fee share', () => {
+    const simulation = simulateStartStrategy(
+      { ethAmount: ETHER, ltv: 30, slippageBps: 50 },
+      2000n * USDC,
+      { ...reserves, protocolFeeBps: 100 }
+    );
+
+    assert.equal(simulation.feeShareBps, 9900);
+  });
+
+  it('has no liquidation price without debt', () => {
+    const simulation = simulateStartStrategy(
+      { ethAmount: ETHER, ltv: 0, slippageBps: 50 },
+      2000n * USDC,
+      reserves
+    );
+
+    assert.equal(simulation.healthFactor, Infinity);
+    assert.equal(simulation.liquidationEthPrice, null);
+  });
+});
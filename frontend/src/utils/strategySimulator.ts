@@ -0,0 +1,133 @@
+import type { StrategyParams } from '../types';
+
+// Only type imports here, so the simulator and its tests run on plain Node without the bundler
+
+// Leftovers at or below this many units stay in the manager, as in startStrategy
+export const DUST_THRESHOLD = 1000n;
+
+const WAD = 10n ** 18n;
+const RAY = 10n ** 27n;
+const BPS = 10_000n;
+const FEE_DENOMINATOR = 1_000_000n; // Uniswap fee tiers are in hundredths of a bip
+
+// Starting health factors at or below this are flagged, same as HEALTH_FACTOR_DANGER in health.ts
+const LOW_HEALTH_FACTOR = 1.1;
+
+/**
+ * Protocol and Aave parameters a strategy start depends on, besides the ETH price
+ */
+export interface StrategyReserves {
+  poolFee: number; // LeveragedLPManager.poolFee, 3000 = 0.3%
+  protocolFeeBps: number; // LeveragedLPManager.protocolFeeBps, taken from collected LP fees
+  liquidationThresholdBps: number; // Aave liquidation threshold of WETH
+  usdcBorrowRate: bigint; // Aave variable borrow rate of USDC, in ray
+}
+
+/**
+ * Expected position right after startStrategy
+ * Token amounts are raw: ETH in wei, USDC in 6 decimals
+ */
+export interface StrategySimulation {
+  ethSupplied: bigint;
+  usdcBorrowed: bigint;
+  usdcForLp: bigint;
+  usdcToSwap: bigint;
+  ethFromSwap: bigint; // After the pool fee, ignoring price impact
+  minEthFromSwap: bigint; // amountOutMinimum of the swap
+  swapFeeUsdc: bigint;
+  lpUsdc: bigint; // Deposited by the full-range mint
+  lpEth: bigint;
+  refundUsdc: bigint; // Returned to the Safe after the mint
+  refundEth: bigint;
+  healthFactor: number; // Infinity when nothing is borrowed
+  liquidationEthPrice: bigint | null; // USDC units per ETH, null when nothing is borrowed
+  annualInterestUsdc: bigint; // At the current variable borrow rate
+  feeShareBps: number; // Share of LP fees used to deleverage after the protocol fee
+  warnings: string[];
+}
+
+const applyBps = (amount: bigint, bps: number) => amount - (amount * BigInt(bps)) / BPS;
+
+/**
+ * Simulates LeveragedLPManager.startStrategy for a set of parameters
+ * Follows the contract step by step: supply the ETH, borrow USDC at the LTV against the feed
+ * price, swap half of it to ETH and mint a full-range position with the slippage limits.
+ * The pool is assumed to trade at the feed price, so only the pool fee moves the swap.
+ * @param params - Strategy parameters entered by the user
+ * @param usdcPerEth - ETH price the contract borrows against, in USDC units (6 decimals)
+ * @param reserves - Pool fee, protocol fee and Aave reserve data
+ * @returns The expected resulting position
+ */
+export function simulateStartStrategy(
+  params: StrategyParams,
+  usdcPerEth: bigint,
+  reserves: StrategyReserves
+): StrategySimulation {
+  const warnings: string[] = [];
+
+  // [2] + [3] Supply the ETH and borrow USDC at the LTV
+  const ethValue = (params.ethAmount * usdcPerEth) / WAD;
+  const usdcBorrowed = (ethValue * BigInt(params.ltv)) / 100n;
+
+  // [4] Half of the USDC goes to the LP, the rest is swapped to ETH
+  const usdcForLp = usdcBorrowed / 2n;
+  const usdcToSwap = usdcBorrowed - usdcForLp;
+
+  // [5] Swap quoted at the feed price, with slippage applied to the quote
+  const expectedOutput = usdcPerEth > 0n ? (usdcToSwap * WAD) / usdcPerEth : 0n;
+  const minEthFromSwap = applyBps(expectedOutput, params.slippageBps);
+  const ethFromSwap =
+    (expectedOutput * (FEE_DENOMINATOR - BigInt(reserves.poolFee))) / FEE_DENOMINATOR;
+  const swapFeeUsdc = (usdcToSwap * BigInt(reserves.poolFee)) / FEE_DENOMINATOR;
+  if (ethFromSwap < minEthFromSwap) {
+    warnings.push(
+      `Slippage tolerance is below the ${reserves.poolFee / 10_000}% pool fee, the swap would revert`
+    );
+  }
+
+  // [6] A full-range position takes both tokens at the pool price, the scarcer side limits it
+  const ethForLpUsdc = usdcPerEth > 0n ? (usdcForLp * WAD) / usdcPerEth : 0n;
+  const lpEth = ethFromSwap < ethForLpUsdc ? ethFromSwap : ethForLpUsdc;
+  const lpUsdc = lpEth === ethFromSwap ? (ethFromSwap * usdcPerEth) / WAD : usdcForLp;
+  if (
+    lpUsdc < applyBps(usdcForLp, params.slippageBps) ||
+    lpEth < applyBps(ethFromSwap, params.slippageBps)
+  ) {
+    warnings.push('The mint would use less than the slippage limits allow and revert');
+  }
+
+  // [8] Leftovers above the dust threshold go back to the Safe
+  const remainingUsdc = usdcForLp - lpUsdc;
+  const remainingEth = ethFromSwap - lpEth;
+
+  // Only the supplied ETH is collateral, the LP position is not
+  const collateralBase = ethValue * BigInt(reserves.liquidationThresholdBps);
+  const healthFactor =
+    usdcBorrowed > 0n ? Number(collateralBase) / Number(usdcBorrowed * BPS) : Infinity;
+  const liquidationEthPrice =
+    usdcBorrowed > 0n && collateralBase > 0n
+      ? (usdcPerEth * usdcBorrowed * BPS) / collateralBase
+      : null;
+  if (healthFactor <= LOW_HEALTH_FACTOR) {
+    warnings.push('The starting health factor is close to liquidation');
+  }
+
+  return {
+    ethSupplied: params.ethAmount,
+    usdcBorrowed,
+    usdcForLp,
+    usdcToSwap,
+    ethFromSwap,
+    minEthFromSwap,
+    swapFeeUsdc,
+    lpUsdc,
+    lpEth,
+    refundUsdc: remainingUsdc > DUST_THRESHOLD ? remainingUsdc : 0n,
+    refundEth: remainingEth > DUST_THRESHOLD ? remainingEth : 0n,
+    healthFactor,
+    liquidationEthPrice,
+    annualInterestUsdc: (usdcBorrowed * reserves.usdcBorrowRate) / RAY,
+    feeShareBps: 10_000 - reserves.protocolFeeBps,
+    warnings,
+  };
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getExactApprovalAmounts, getStrategySteps } from './strategySteps.ts';
+import type { StrategyPrerequisites, StrategyStep } from './strategySteps.ts';
+
+const ETHER = 10n ** 18n;
+const USDC = 10n ** 6n;
+
+const params = { ethAmount: ETHER, ltv: 30, slippageBps: 50 };
+const usdcToBorrow = 600n * USDC;
+
+// A funded Safe that has not run any setup step yet
+const fresh: StrategyPrerequisites = {
+  safeEthBalance: ETHER,
+  safeWethBalance: 0n,
+  wethAllowance: 0n,
+  usdcAllowance: 0n,
+  borrowAllowance: 0n,
+  isActive: false,
+};
+
+const statuses = (steps: StrategyStep[]) =>
+  Object.fromEntries(steps.map(({ id, status }) => [id, status]));
+
+describe('getStrategySteps', () => {
+  it('leaves every step pending for a fresh Safe', () => {
+    const steps = getStrategySteps(params, usdcToBorrow, fresh);
+
+    assert.deepEqual(
+      steps.map(({ id }) => id),
+      ['wrapEth', 'approveWeth', 'approveUsdc', 'delegateCredit', 'startStrategy']
+    );
+    assert.ok(steps.every(({ status }) => status === 'pending'));
+  });
+
+  it('skips the steps a failed batch or a manual call already completed', () => {
+    const steps = getStrategySteps(params, usdcToBorrow, {
+      ...fresh,
+      safeEthBalance: 0n,
+      safeWethBalance: ETHER,
+      wethAllowance: 2n ** 256n - 1n,
+      borrowAllowance: usdcToBorrow,
+    });
+
+    assert.deepEqual(statuses(steps), {
+      wrapEth: 'done',
+      approveWeth: 'done',
+      approveUsdc: 'pending',
+      delegateCredit: 'done',
+      startStrategy: 'pending',
+    });
+  });
+
+  it('keeps an allowance below the amount pending', () => {
+    const steps = getStrategySteps(params, usdcToBorrow, {
+      ...fresh,
+      usdcAllowance: usdcToBorrow - 1n,
+      borrowAllowance: usdcToBorrow - 1n,
+    });
+
+    assert.equal(statuses(steps).approveUsdc, 'pending');
+    assert.equal(statuses(steps).delegateCredit, 'pending');
+  });
+
+  it('blocks wrapping and startStrategy until the Safe holds enough ETH and WETH', () => {
+    const steps = getStrategySteps(params, usdcToBorrow, {
+      ...fresh,
+      safeEthBalance: ETHER / 2n,
+      safeWethBalance: ETHER / 4n,
+    });
+
+    assert.equal(statuses(steps).wrapEth, 'blocked');
+    assert.equal(statuses(steps).approveWeth, 'pending');
+    assert.equal(statuses(steps).startStrategy, 'blocked');
+  });
+
+  it('marks every step done once a position is open', () => {
+    const steps = getStrategySteps(params, usdcToBorrow, {
+      ...fresh,
+      safeEthBalance: 0n,
+      isActive: true,
+    });
+
+    assert.ok(steps.every(({ status }) => status === 'done'));
+  });
+
+  it('runs the setup again and adds to an open position on increase', () => {
+    const steps = getStrategySteps(
+      params,
+      usdcToBorrow,
+      { ...fresh, wethAllowance: ETHER, isActive: true },
+      'increase'
+    );
+
+    assert.deepEqual(statuses(steps), {
+      wrapEth: 'pending',
+      approveWeth: 'done',
+      approveUsdc: 'pending',
+      delegateCredit: 'pending',
+      increasePosition: 'pending',
+    });
+  });
+});
+
+describe('getExactApprovalAmounts', () => {
+  it('approves the deposit and the borrow estimate with price headroom', () => {
+    const amounts = getExactApprovalAmounts(params, usdcToBorrow);
+
+    assert.equal(amounts.weth, ETHER);
+    assert.equal(amounts.usdc, 606n * USDC);
+    assert.equal(amounts.credit, 606n * USDC);
+
+    // The exact amounts complete the approval steps of a fresh Safe
+    const steps = getStrategySteps(params, usdcToBorrow, {
+      ...fresh,
+      wethAllowance: amounts.weth,
+      usdcAllowance: amounts.usdc,
+      borrowAllowance: amounts.credit,
+    });
+    assert.equal(statuses(steps).approveWeth, 'done');
+    assert.equal(statuses(steps).approveUsdc, 'done');
+    assert.equal(statuses(steps).delegateCredit, 'done');
+  });
+});
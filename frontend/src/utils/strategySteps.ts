@@ -0,0 +1,143 @@
+import type { StrategyParams } from '../types';
+
+// Only type imports here, so the step engine and its tests run on plain Node without the bundler
+
+export type StrategyStepId =
+  | 'wrapEth'
+  | 'approveWeth'
+  | 'approveUsdc'
+  | 'delegateCredit'
+  | 'startStrategy'
+  | 'increasePosition';
+
+// start opens the position, increase adds to the one already open for the Safe
+export type StrategyAction = 'start' | 'increase';
+
+// done: the chain already reflects the step, pending: it goes into the next batch,
+// blocked: it cannot run until the Safe is funded
+export type StrategyStepStatus = 'done' | 'pending' | 'blocked';
+
+export interface StrategyStep {
+  id: StrategyStepId;
+  label: string;
+  status: StrategyStepStatus;
+  detail: string;
+}
+
+/**
+ * Chain state that tells which setup steps of a Safe are complete
+ * Token amounts are raw: ETH and WETH in wei, USDC in 6 decimals
+ */
+export interface StrategyPrerequisites {
+  safeEthBalance: bigint;
+  safeWethBalance: bigint;
+  wethAllowance: bigint; // WETH allowance of the Safe to the LeveragedLPManager
+  usdcAllowance: bigint; // USDC allowance of the Safe to the LeveragedLPManager
+  borrowAllowance: bigint; // Aave USDC credit delegated by the Safe to the LeveragedLPManager
+  isActive: boolean; // userPositions has an entry for the Safe
+}
+
+const formatEth = (wei: bigint) => (Number(wei) / 1e18).toFixed(4);
+const formatUsdc = (units: bigint) => (Number(units) / 1e6).toFixed(2);
+
+/**
+ * Works out the status of every startStrategy or increasePosition setup step from chain state
+ * A step is done when its effect is already on-chain, so a batch that failed halfway
+ * or was partly run by hand resumes with only the remaining steps
+ * @param params - Strategy parameters entered by the user
+ * @param usdcToBorrow - USDC the contract will borrow, in 6 decimals
+ * @param state - Balances, allowances and position of the Safe
+ * @param action - Whether the batch opens the position or adds to the open one
+ * @returns The steps in execution order
+ */
+export function getStrategySteps(
+  params: StrategyParams,
+  usdcToBorrow: bigint,
+  state: StrategyPrerequisites,
+  action: StrategyAction = 'start'
+): StrategyStep[] {
+  const isFunded = state.safeEthBalance + state.safeWethBalance >= params.ethAmount;
+  // An open position completes the start batch, but an increase still needs every step
+  const isComplete = action === 'start' && state.isActive;
+
+  const step = (
+    id: StrategyStepId,
+    label: string,
+    isDone: boolean,
+    detail: string,
+    isBlocked = false
+  ): StrategyStep => ({
+    id,
+    label,
+    status: isComplete || isDone ? 'done' : isBlocked ? 'blocked' : 'pending',
+    detail,
+  });
+
+  return [
+    step(
+      'wrapEth',
+      'Convert ETH to WETH',
+      state.safeWethBalance >= params.ethAmount,
+      `Safe holds ${formatEth(state.safeWethBalance)} of ${formatEth(params.ethAmount)} WETH`,
+      !isFunded
+    ),
+    step(
+      'approveWeth',
+      'Approve WETH for LeveragedLPManager',
+      state.wethAllowance >= params.ethAmount,
+      `Allowance ${formatEth(state.wethAllowance)} WETH`
+    ),
+    step(
+      'approveUsdc',
+      'Approve USDC for LeveragedLPManager',
+      state.usdcAllowance >= usdcToBorrow,
+      `Allowance ${formatUsdc(state.usdcAllowance)} of ${formatUsdc(usdcToBorrow)} USDC`
+    ),
+    step(
+      'delegateCredit',
+      'Delegate Aave USDC credit to LeveragedLPManager',
+      state.borrowAllowance >= usdcToBorrow,
+      `Delegated ${formatUsdc(state.borrowAllowance)} of ${formatUsdc(usdcToBorrow)} USDC`
+    ),
+    action === 'increase'
+      ? step(
+          'increasePosition',
+          'Add to the position',
+          false,
+          `Adds ${formatEth(params.ethAmount)} ETH to the open position`,
+          !isFunded
+        )
+      : step(
+          'startStrategy',
+          'Start the strategy',
+          state.isActive,
+          state.isActive ? 'Position open' : 'No position yet',
+          !isFunded
+        ),
+  ];
+}
+
+// startStrategy borrows at the oracle price of the block it runs in, so exact USDC approvals
+// leave this much headroom over the estimate for the price to move before the batch executes
+export const EXACT_BORROW_BUFFER_BPS = 100n;
+
+export interface ExactApprovalAmounts {
+  weth: bigint; // WETH pulled from the Safe, in wei
+  usdc: bigint; // USDC allowance, in 6 decimals
+  credit: bigint; // Aave USDC credit delegation, in 6 decimals
+}
+
+/**
+ * Works out approvals scoped to one startStrategy or increasePosition call instead of unlimited ones
+ * @param params - Strategy parameters entered by the user
+ * @param usdcToBorrow - USDC the contract is estimated to borrow, in 6 decimals
+ * @returns The amounts to approve and delegate
+ */
+export function getExactApprovalAmounts(
+  params: StrategyParams,
+  usdcToBorrow: bigint
+): ExactApprovalAmounts {
+  const usdcWithBuffer = (usdcToBorrow * (10_000n + EXACT_BORROW_BUFFER_BPS)) / 10_000n;
+
+  return { weth: params.ethAmount, usdc: usdcWithBuffer, credit: usdcWithBuffer };
+}
@@ -0,0 +1,54 @@
+import type { StrategyParams } from '../types';
+
+// Slippage tolerance accepted by the UI, in basis points (0.1% - 5%)
+export const MIN_SLIPPAGE_BPS = 10;
+export const MAX_SLIPPAGE_BPS = 500;
+
+// On-chain limits a strategy has to fit into
+export interface StrategyLimits {
+  maxLtv: number; // LeveragedLPManager.MAX_LTV, in percent
+  safeEthBalance: bigint; // Native ETH held by the Safe, in wei
+  safeWethBalance: bigint; // WETH held by the Safe, in wei
+}
+
+/**
+ * Checks strategy parameters against the contract and Safe limits
+ * @param params The parameters the user entered
+ * @param limits Limits read from the chain
+ * @returns A list of human readable problems, empty when the parameters are valid
+ */
+export function validateStrategyParams(params: StrategyParams, limits: StrategyLimits): string[] {
+  const errors: string[] = [];
+
+  if (params.ethAmount <= 0n) {
+    errors.push('ETH amount must be greater than 0');
+  } else if (params.ethAmount > limits.safeEthBalance + limits.safeWethBalance) {
+    errors.push('ETH amount exceeds the Safe ETH + WETH balance');
+  }
+
+  if (!Number.isInteger(params.ltv) || params.ltv <= 0 || params.ltv > limits.maxLtv) {
+    errors.push(`LTV must be a whole number between 1% and ${limits.maxLtv}%`);
+  }
+
+  if (
+    !Number.isInteger(params.slippageBps) ||
+    params.slippageBps < MIN_SLIPPAGE_BPS ||
+    params.slippageBps > MAX_SLIPPAGE_BPS
+  ) {
+    errors.push(
+      `Slippage must be between ${MIN_SLIPPAGE_BPS / 100}% and ${MAX_SLIPPAGE_BPS / 100}%`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Amount of native ETH that has to be wrapped so the Safe holds enough WETH
+ * @param params The parameters the user entered
+ * @param limits Limits read from the chain
+ * @returns Wei to wrap, 0 when the existing WETH balance already covers the amount
+ */
+export function getEthToWrap(params: StrategyParams, limits: StrategyLimits): bigint {
+  return params.ethAmount > limits.safeWethBalance ? params.ethAmount - limits.safeWethBalance : 0n;
+}
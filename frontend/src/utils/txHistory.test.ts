@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { settleProposals } from './txHistory.ts';
+import type { TrackedTransaction } from '../types';
+
+const SAFE_TX_HASH = `0x${'ab'.repeat(32)}`;
+
+const proposal: TrackedTransaction = {
+  id: 'proposal',
+  label: 'StartStrategy',
+  chainId: 8453,
+  safeAddress: '0x1111111111111111111111111111111111111111',
+  status: 'proposed',
+  safeTxHash: SAFE_TX_HASH,
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+const execution: TrackedTransaction = {
+  ...proposal,
+  id: 'execution',
+  status: 'mined',
+  txHash: `0x${'cd'.repeat(32)}`,
+  gasUsed: '210000',
+  updatedAt: 2,
+};
+
+describe('settleProposals', () => {
+  it('moves a proposal to the status of its execution', () => {
+    const [settled] = settleProposals([proposal, execution], execution);
+
+    assert.equal(settled.status, 'mined');
+    assert.equal(settled.txHash, execution.txHash);
+    assert.equal(settled.gasUsed, '210000');
+  });
+
+  it('leaves proposals of other transactions and chains alone', () => {
+    const other = { ...proposal, id: 'other', safeTxHash: `0x${'ef'.repeat(32)}` };
+    const forked = { ...proposal, id: 'forked', chainId: 31337 };
+
+    const settled = settleProposals([other, forked, execution], execution);
+
+    assert.deepEqual(settled, [other, forked, execution]);
+  });
+
+  it('waits until the execution is broadcast', () => {
+    const signing = { ...execution, status: 'signing' as const };
+
+    assert.deepEqual(settleProposals([proposal, signing], signing), [proposal, signing]);
+  });
+});
@@ -0,0 +1,63 @@
+import type { TrackedTransaction, TransactionStatus } from '../types';
+
+const HISTORY_KEY = 'txHistory';
+
+// Older entries are dropped so localStorage does not grow without bound
+export const MAX_TRACKED_TRANSACTIONS = 50;
+
+// Statuses of a Safe transaction that was broadcast
+const EXECUTION_STATUSES: TransactionStatus[] = ['pending', 'mined', 'reverted'];
+
+/**
+ * Reads the transaction history kept across reloads
+ * @returns Tracked transactions, newest first
+ */
+export function loadTransactions(): TrackedTransaction[] {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Stores the transaction history, keeping the newest MAX_TRACKED_TRANSACTIONS entries
+ * @param transactions Tracked transactions, newest first
+ */
+export function saveTransactions(transactions: TrackedTransaction[]): void {
+  localStorage.setItem(
+    HISTORY_KEY,
+    JSON.stringify(transactions.slice(0, MAX_TRACKED_TRANSACTIONS))
+  );
+}
+
+/**
+ * Carries the execution of a Safe transaction over to the entries that proposed it
+ * A proposal executed from this browser is tracked again under a new entry, sharing its safeTxHash
+ * @param transactions Tracked transactions
+ * @param executed The entry that just changed
+ * @returns The history with matching proposals following the execution
+ */
+export function settleProposals(
+  transactions: TrackedTransaction[],
+  executed: TrackedTransaction
+): TrackedTransaction[] {
+  if (!executed.safeTxHash || !EXECUTION_STATUSES.includes(executed.status)) {
+    return transactions;
+  }
+
+  return transactions.map(tx =>
+    tx.id !== executed.id &&
+    tx.status === 'proposed' &&
+    tx.chainId === executed.chainId &&
+    tx.safeTxHash === executed.safeTxHash
+      ? {
+          ...tx,
+          status: executed.status,
+          txHash: executed.txHash,
+          gasUsed: executed.gasUsed,
+          updatedAt: executed.updatedAt,
+        }
+      : tx
+  );
+}
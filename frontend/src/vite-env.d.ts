@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // RPC overrides for the chain profiles in constants/chains.ts
+  readonly VITE_BASE_RPC_URL?: string;
+  readonly VITE_BASE_SEPOLIA_RPC_URL?: string;
+  readonly VITE_ANVIL_RPC_URL?: string;
+  // Enables the WalletConnect connector in constants/wagmi.ts
+  readonly VITE_WALLETCONNECT_PROJECT_ID?: string;
+}